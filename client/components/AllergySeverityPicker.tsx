@@ -0,0 +1,117 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SEVERITY_LABELS,
+  AllergySeverity,
+  getAllergySeverity,
+} from "@/services/profiles";
+
+const SEVERITY_COLORS: Record<AllergySeverity, string> = {
+  anaphylactic: AppColors.destructive,
+  allergic: AppColors.destructive,
+  intolerance: AppColors.warning,
+  avoid: AppColors.primary,
+};
+
+interface AllergySeverityPickerProps {
+  allergies: string[];
+  severities: Record<string, AllergySeverity>;
+  onChange: (severities: Record<string, AllergySeverity>) => void;
+}
+
+/** One row per allergy for choosing how severe it is. */
+export function AllergySeverityPicker({
+  allergies,
+  severities,
+  onChange,
+}: AllergySeverityPickerProps) {
+  if (allergies.length === 0) return null;
+
+  const select = (allergy: string, severity: AllergySeverity) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange({ ...severities, [allergy]: severity });
+  };
+
+  return (
+    <View style={styles.container}>
+      {allergies.map((allergy) => {
+        const current = getAllergySeverity(severities, allergy);
+        return (
+          <View key={allergy} style={styles.row}>
+            <ThemedText style={styles.allergyName}>{allergy}</ThemedText>
+            <View style={styles.options}>
+              {ALLERGY_SEVERITIES.map((severity) => {
+                const isSelected = current === severity;
+                return (
+                  <TouchableOpacity
+                    key={severity}
+                    style={[
+                      styles.option,
+                      isSelected && {
+                        backgroundColor: SEVERITY_COLORS[severity],
+                        borderColor: SEVERITY_COLORS[severity],
+                      },
+                    ]}
+                    onPress={() => select(allergy, severity)}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.optionText,
+                        {
+                          color: isSelected
+                            ? AppColors.text
+                            : AppColors.secondaryText,
+                        },
+                      ]}
+                    >
+                      {ALLERGY_SEVERITY_LABELS[severity]}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  row: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  allergyName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  option: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: AppColors.divider,
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
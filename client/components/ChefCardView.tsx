@@ -0,0 +1,121 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ChefCard } from "@/services/chefCard";
+
+interface ChefCardViewProps {
+  card: ChefCard;
+  /** Larger type for showing the card to restaurant staff. */
+  large?: boolean;
+}
+
+/**
+ * The chef card in black on white, independent of the app theme so it
+ * stays readable in a dim restaurant and in a captured image.
+ */
+export function ChefCardView({ card, large = false }: ChefCardViewProps) {
+  const scale = large ? 1.3 : 1;
+  const text = (fontSize: number) => ({
+    fontSize: fontSize * scale,
+    lineHeight: fontSize * scale * 1.35,
+    color: AppColors.text,
+  });
+
+  return (
+    <View style={styles.card}>
+      <ThemedText style={[styles.title, text(26)]}>{card.title}</ThemedText>
+      {card.profileNames.length > 0 ? (
+        <ThemedText style={text(14)}>
+          {card.profileNames.join(" · ")}
+        </ThemedText>
+      ) : null}
+      <ThemedText style={[styles.intro, text(17)]}>{card.intro}</ThemedText>
+
+      {card.allergens.map((allergen) => (
+        <View key={allergen.allergy} style={styles.allergen}>
+          <ThemedText style={[styles.allergenName, text(22)]}>
+            {allergen.name}
+          </ThemedText>
+          {allergen.severe ? (
+            <View style={styles.severeTag}>
+              <ThemedText style={[styles.severeText, text(14)]}>
+                {card.severe}
+              </ThemedText>
+            </View>
+          ) : null}
+          <ThemedText style={text(15)}>
+            {card.including} {allergen.derivatives.join(", ")}
+          </ThemedText>
+        </View>
+      ))}
+
+      {card.untranslated.length > 0 ? (
+        <ThemedText style={[styles.other, text(16)]}>
+          {card.other} {card.untranslated.join(", ")}
+        </ThemedText>
+      ) : null}
+
+      <View style={styles.footer}>
+        <ThemedText style={text(15)}>{card.crossContact}</ThemedText>
+        <ThemedText style={text(15)}>{card.ask}</ThemedText>
+        <ThemedText style={[styles.thanks, text(15)]}>{card.thanks}</ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: AppColors.surface,
+    borderWidth: 3,
+    borderColor: AppColors.text,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+  },
+  title: {
+    fontWeight: "800",
+  },
+  intro: {
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  allergen: {
+    borderTopWidth: 2,
+    borderTopColor: AppColors.text,
+    paddingVertical: Spacing.md,
+    gap: Spacing.xs,
+  },
+  allergenName: {
+    fontWeight: "800",
+  },
+  severeTag: {
+    alignSelf: "flex-start",
+    backgroundColor: AppColors.destructive,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  severeText: {
+    fontWeight: "800",
+    color: AppColors.buttonText,
+  },
+  other: {
+    fontWeight: "600",
+    borderTopWidth: 2,
+    borderTopColor: AppColors.text,
+    paddingVertical: Spacing.md,
+  },
+  footer: {
+    borderTopWidth: 2,
+    borderTopColor: AppColors.text,
+    paddingTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  thanks: {
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TouchableOpacity, Platform } from "react-native";
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { DateRange } from "@/services/historyRecords";
+
+interface DateRangeFieldsProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+type RangeEnd = keyof DateRange;
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Start and end date of a range, each picked with the platform date picker
+ * and clearable to leave that end open. The start cannot be after the end
+ * and neither can be in the future.
+ */
+export function DateRangeFields({ value, onChange }: DateRangeFieldsProps) {
+  const [editing, setEditing] = useState<RangeEnd | null>(null);
+  const today = new Date();
+
+  const handlePicked = (event: DateTimePickerEvent, date?: Date) => {
+    const end = editing;
+    setEditing(null);
+    if (!end || event.type !== "set" || !date) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange({ ...value, [end]: date });
+  };
+
+  const renderField = (end: RangeEnd, label: string) => {
+    const date = value[end];
+    return (
+      <View style={styles.field}>
+        <ThemedText
+          style={[styles.fieldLabel, { color: AppColors.secondaryText }]}
+        >
+          {label}
+        </ThemedText>
+        <TouchableOpacity
+          style={[
+            styles.fieldButton,
+            {
+              backgroundColor: AppColors.surfaceSecondary,
+              borderColor: editing === end ? AppColors.primary : "transparent",
+            },
+          ]}
+          onPress={() => setEditing(editing === end ? null : end)}
+        >
+          <Ionicons
+            name="calendar-outline"
+            size={16}
+            color={AppColors.secondaryText}
+          />
+          <ThemedText style={styles.fieldValue} numberOfLines={1}>
+            {date ? formatDay(date) : "Any"}
+          </ThemedText>
+          {date ? (
+            <TouchableOpacity
+              hitSlop={8}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setEditing(null);
+                onChange({ ...value, [end]: null });
+              }}
+            >
+              <Ionicons
+                name="close-circle"
+                size={16}
+                color={AppColors.secondaryText}
+              />
+            </TouchableOpacity>
+          ) : null}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {renderField("from", "From")}
+        {renderField("to", "To")}
+      </View>
+      {editing ? (
+        <DateTimePicker
+          value={value[editing] ?? value.to ?? today}
+          mode="date"
+          display={Platform.OS === "ios" ? "inline" : "default"}
+          minimumDate={editing === "to" ? (value.from ?? undefined) : undefined}
+          maximumDate={editing === "from" ? (value.to ?? today) : today}
+          onChange={handlePicked}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+  },
+  fieldButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  fieldValue: {
+    flex: 1,
+    fontSize: 14,
+  },
+});
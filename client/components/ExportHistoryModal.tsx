@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import {
+  View,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { DateRangeFields } from "@/components/DateRangeFields";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { ExportFormat, exportScanHistory } from "@/services/historyExport";
+import { DateRange } from "@/services/historyRecords";
+
+interface ExportHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_RANGE_DAYS = 90;
+
+function defaultRange(): DateRange {
+  const from = new Date();
+  from.setDate(from.getDate() - DEFAULT_RANGE_DAYS);
+  return { from, to: null };
+}
+
+const FORMAT_OPTIONS: { label: string; value: ExportFormat }[] = [
+  { label: "PDF", value: "pdf" },
+  { label: "CSV", value: "csv" },
+  { label: "JSON", value: "json" },
+];
+
+export function ExportHistoryModal({
+  visible,
+  onClose,
+}: ExportHistoryModalProps) {
+  const { isDemoMode, householdId } = useAuth();
+  const [range, setRange] = useState<DateRange>(defaultRange);
+  const [format, setFormat] = useState<ExportFormat>("pdf");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!householdId) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsExporting(true);
+    try {
+      const count = await exportScanHistory(
+        householdId,
+        isDemoMode,
+        format,
+        range,
+      );
+      if (count === 0) {
+        Alert.alert("Nothing to Export", "There are no scans in this range.");
+        return;
+      }
+      onClose();
+    } catch (error) {
+      console.error("Error exporting history:", error);
+      Alert.alert("Error", "Failed to export history. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderOption = (
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.option,
+        {
+          backgroundColor: isSelected
+            ? AppColors.primary
+            : AppColors.surfaceSecondary,
+        },
+      ]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+    >
+      <ThemedText
+        style={[
+          styles.optionText,
+          { color: isSelected ? "#fff" : AppColors.text },
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: AppColors.surface }]}>
+          <View style={styles.header}>
+            <ThemedText style={styles.title}>Export History</ThemedText>
+            <TouchableOpacity onPress={onClose} disabled={isExporting}>
+              <Ionicons name="close" size={24} color={AppColors.text} />
+            </TouchableOpacity>
+          </View>
+          <ThemedText
+            style={[styles.description, { color: AppColors.secondaryText }]}
+          >
+            Share your scans with your allergist. Each scan lists the product,
+            barcode, the verdict for each profile and what was matched.
+          </ThemedText>
+
+          <ThemedText style={styles.label}>Date Range</ThemedText>
+          <View style={styles.rangeFields}>
+            <DateRangeFields value={range} onChange={setRange} />
+          </View>
+
+          <ThemedText style={styles.label}>Format</ThemedText>
+          <View style={styles.optionRow}>
+            {FORMAT_OPTIONS.map((option) =>
+              renderOption(option.label, format === option.value, () =>
+                setFormat(option.value),
+              ),
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              { backgroundColor: AppColors.primary },
+            ]}
+            onPress={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={20} color="#fff" />
+                <ThemedText style={styles.exportButtonText}>Export</ThemedText>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    paddingBottom: Spacing["3xl"],
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+  },
+  rangeFields: {
+    marginBottom: Spacing.lg,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.lg,
+  },
+  option: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  exportButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  exportButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
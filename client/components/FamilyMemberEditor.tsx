@@ -0,0 +1,780 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { AllergySeverityPicker } from "@/components/AllergySeverityPicker";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  FamilyMember,
+  FamilyMemberDraft,
+  emptyFamilyMemberDraft,
+  validateFamilyMember,
+} from "@/hooks/useFamilyMembers";
+import { AdvisoryHandling } from "@/services/profiles";
+import { PLAN_DETAILS } from "@/services/subscription";
+import { ageInMonths, describeAge } from "@shared/ageGuidance";
+
+/*
+ * Family member editing UI shared by onboarding (FamilyManagementScreen)
+ * and the account screen (FamilyProfilesScreen). Data, validation and plan
+ * checks live in useFamilyMembers.
+ */
+
+const ALLERGY_OPTIONS = [
+  "Peanuts",
+  "Tree Nuts",
+  "Dairy",
+  "Eggs",
+  "Gluten",
+  "Wheat",
+  "Soy",
+  "Fish",
+  "Shellfish",
+  "Sesame",
+  "Corn",
+  "Mustard",
+  "Lupin",
+  "Gelatin",
+  "Sulfites",
+];
+
+const PREFERENCE_OPTIONS = [
+  "Vegan",
+  "Vegetarian",
+  "Gluten-Free",
+  "Dairy-Free",
+  "Low-Sodium",
+  "Low-Sugar",
+  "Keto",
+  "Paleo",
+  "Halal",
+  "Kosher",
+  "Pescatarian",
+  "Low-FODMAP",
+];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  variant?: "allergy" | "preference";
+}
+
+function Chip({ label, selected, onPress, variant = "allergy" }: ChipProps) {
+  const backgroundColor = selected
+    ? variant === "allergy"
+      ? AppColors.destructive
+      : AppColors.primary
+    : AppColors.surface;
+
+  return (
+    <TouchableOpacity
+      style={[styles.chip, { backgroundColor }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <ThemedText
+        style={[
+          styles.chipText,
+          { color: selected ? AppColors.text : AppColors.secondaryText },
+        ]}
+      >
+        {label}
+      </ThemedText>
+      {selected ? (
+        <Feather
+          name="check"
+          size={14}
+          color={AppColors.text}
+          style={styles.chipIcon}
+        />
+      ) : null}
+    </TouchableOpacity>
+  );
+}
+
+interface CustomEntriesProps {
+  placeholder: string;
+  entries: string[];
+  chipColor: string;
+  onChange: (entries: string[]) => void;
+}
+
+/** Free-text entries for things not in the option list. */
+function CustomEntries({
+  placeholder,
+  entries,
+  chipColor,
+  onChange,
+}: CustomEntriesProps) {
+  const [text, setText] = useState("");
+
+  const addEntry = () => {
+    const trimmed = text.trim();
+    if (trimmed && !entries.includes(trimmed)) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      onChange([...entries, trimmed]);
+      setText("");
+    }
+  };
+
+  const removeEntry = (entry: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(entries.filter((e) => e !== entry));
+  };
+
+  return (
+    <>
+      <View style={styles.customInputRow}>
+        <TextInput
+          style={[styles.customInput, { color: AppColors.text }]}
+          placeholder={placeholder}
+          placeholderTextColor={AppColors.secondaryText}
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={addEntry}
+        />
+        <TouchableOpacity
+          style={[styles.addCustomButton, { opacity: text.trim() ? 1 : 0.5 }]}
+          onPress={addEntry}
+          disabled={!text.trim()}
+        >
+          <ThemedText style={styles.addCustomText}>Add</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      {entries.length > 0 ? (
+        <View style={styles.customChipsContainer}>
+          {entries.map((entry) => (
+            <TouchableOpacity
+              key={entry}
+              style={[styles.customChip, { backgroundColor: chipColor }]}
+              onPress={() => removeEntry(entry)}
+            >
+              <ThemedText style={styles.customChipText}>{entry}</ThemedText>
+              <Feather name="x" size={14} color={AppColors.text} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : null}
+    </>
+  );
+}
+
+interface FamilyMemberCardProps {
+  member: FamilyMember;
+  /** Leave out both handlers to show the member read-only. */
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+export function FamilyMemberCard({
+  member,
+  onEdit,
+  onDelete,
+}: FamilyMemberCardProps) {
+  const allergyCount = member.allergies.length + member.customAllergies.length;
+  const prefCount = member.preferences.length + member.customPreferences.length;
+  const ageMonths = member.birthdate ? ageInMonths(member.birthdate) : null;
+
+  return (
+    <View style={styles.memberCard}>
+      <View style={styles.memberInfo}>
+        <View style={styles.memberAvatar}>
+          <Feather name="user" size={24} color={AppColors.primary} />
+        </View>
+        <View style={styles.memberDetails}>
+          <ThemedText style={styles.memberName}>{member.name}</ThemedText>
+          <ThemedText
+            style={[styles.memberMeta, { color: AppColors.secondaryText }]}
+          >
+            {allergyCount} allergies, {prefCount} preferences
+            {ageMonths !== null ? ` · ${describeAge(ageMonths)}` : ""}
+          </ThemedText>
+        </View>
+      </View>
+      <View style={styles.memberActions}>
+        {onEdit ? (
+          <TouchableOpacity onPress={onEdit} style={styles.actionButton}>
+            <Feather name="edit-2" size={18} color={AppColors.primary} />
+          </TouchableOpacity>
+        ) : null}
+        {onDelete ? (
+          <TouchableOpacity onPress={onDelete} style={styles.actionButton}>
+            <Feather name="trash-2" size={18} color={AppColors.destructive} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+interface FamilyMemberEditorModalProps {
+  visible: boolean;
+  /** The member being edited, or null to add one. */
+  member: FamilyMember | null;
+  /** Everyone already in the family, for validation. */
+  members: FamilyMember[];
+  onClose: () => void;
+  /** Persists the member. Rejects if the save fails. */
+  onSave: (draft: FamilyMemberDraft) => Promise<void>;
+}
+
+/**
+ * Page-sheet form for adding or editing a family member. Validates the
+ * form and shows save errors itself; closes only after onSave resolves.
+ */
+export function FamilyMemberEditorModal({
+  visible,
+  member,
+  members,
+  onClose,
+  onSave,
+}: FamilyMemberEditorModalProps) {
+  const insets = useSafeAreaInsets();
+  const [draft, setDraft] = useState<FamilyMemberDraft>(emptyFamilyMemberDraft);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    if (member) {
+      const { id: _id, ...fields } = member;
+      setDraft(fields);
+    } else {
+      setDraft(emptyFamilyMemberDraft());
+    }
+  }, [visible, member]);
+
+  const update = (fields: Partial<FamilyMemberDraft>) =>
+    setDraft((prev) => ({ ...prev, ...fields }));
+
+  const toggle = (list: string[], value: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    return list.includes(value)
+      ? list.filter((v) => v !== value)
+      : [...list, value];
+  };
+
+  const selectAdvisoryHandling = (value: AdvisoryHandling) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    update({ advisoryHandling: value });
+  };
+
+  const draftAgeMonths = draft.birthdate
+    ? ageInMonths(draft.birthdate.trim())
+    : null;
+
+  const handleSave = async () => {
+    const problem = validateFamilyMember(draft, members, member?.id ?? null);
+    if (problem) {
+      Alert.alert("Error", problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (error) {
+      console.error("Error saving family member:", error);
+      Alert.alert("Error", "Failed to save family member.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[
+          styles.modalContainer,
+          { backgroundColor: AppColors.background },
+        ]}
+      >
+        <View
+          style={[styles.modalHeader, { paddingTop: insets.top + Spacing.lg }]}
+        >
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText
+              style={[styles.modalCancel, { color: AppColors.primary }]}
+            >
+              Cancel
+            </ThemedText>
+          </TouchableOpacity>
+          <ThemedText style={styles.modalTitle}>
+            {member ? "Edit Member" : "Add Family Member"}
+          </ThemedText>
+          <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color={AppColors.primary} />
+            ) : (
+              <ThemedText
+                style={[styles.modalSave, { color: AppColors.primary }]}
+              >
+                Save
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <KeyboardAwareScrollViewCompat
+          contentContainerStyle={styles.modalContent}
+        >
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Name</ThemedText>
+            <TextInput
+              style={[styles.input, { color: AppColors.text }]}
+              placeholder="Family member's name"
+              placeholderTextColor={AppColors.secondaryText}
+              value={draft.name}
+              onChangeText={(name) => update({ name })}
+              autoCapitalize="words"
+            />
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>
+              Birthdate (Optional)
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { color: AppColors.text }]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={AppColors.secondaryText}
+              value={draft.birthdate || ""}
+              onChangeText={(birthdate) => update({ birthdate })}
+              keyboardType="numbers-and-punctuation"
+              autoCorrect={false}
+              maxLength={10}
+            />
+            <ThemedText
+              style={[styles.hintText, { color: AppColors.secondaryText }]}
+            >
+              {draftAgeMonths !== null
+                ? `${describeAge(draftAgeMonths)} old. `
+                : ""}
+              For infants and children, scans also check age guidance: honey
+              under 12 months, caffeine under 12 years and high sodium for
+              toddlers.
+            </ThemedText>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Allergies</ThemedText>
+            <View style={styles.chipsContainer}>
+              {ALLERGY_OPTIONS.map((allergy) => (
+                <Chip
+                  key={allergy}
+                  label={allergy}
+                  selected={draft.allergies.includes(allergy)}
+                  onPress={() =>
+                    update({ allergies: toggle(draft.allergies, allergy) })
+                  }
+                  variant="allergy"
+                />
+              ))}
+            </View>
+            <CustomEntries
+              placeholder="Add custom allergy..."
+              entries={draft.customAllergies}
+              chipColor={AppColors.destructive}
+              onChange={(customAllergies) => update({ customAllergies })}
+            />
+          </View>
+
+          {draft.allergies.length + draft.customAllergies.length > 0 ? (
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>
+                Allergy Severity
+              </ThemedText>
+              <AllergySeverityPicker
+                allergies={[...draft.allergies, ...draft.customAllergies]}
+                severities={draft.allergySeverities}
+                onChange={(allergySeverities) => update({ allergySeverities })}
+              />
+            </View>
+          ) : null}
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>
+              &quot;May Contain&quot; Warnings
+            </ThemedText>
+            <View style={styles.chipsContainer}>
+              <Chip
+                label="Caution"
+                selected={draft.advisoryHandling === "caution"}
+                onPress={() => selectAdvisoryHandling("caution")}
+                variant="preference"
+              />
+              <Chip
+                label="Unsafe"
+                selected={draft.advisoryHandling === "unsafe"}
+                onPress={() => selectAdvisoryHandling("unsafe")}
+                variant="allergy"
+              />
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>
+              Dietary Preferences
+            </ThemedText>
+            <View style={styles.chipsContainer}>
+              {PREFERENCE_OPTIONS.map((preference) => (
+                <Chip
+                  key={preference}
+                  label={preference}
+                  selected={draft.preferences.includes(preference)}
+                  onPress={() =>
+                    update({
+                      preferences: toggle(draft.preferences, preference),
+                    })
+                  }
+                  variant="preference"
+                />
+              ))}
+            </View>
+            <CustomEntries
+              placeholder="Add custom preference..."
+              entries={draft.customPreferences}
+              chipColor={AppColors.primaryDark}
+              onChange={(customPreferences) => update({ customPreferences })}
+            />
+          </View>
+        </KeyboardAwareScrollViewCompat>
+      </View>
+    </Modal>
+  );
+}
+
+interface FamilyPlanUpgradeModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Shown when the user's plan does not allow another family member. */
+export function FamilyPlanUpgradeModal({
+  visible,
+  onClose,
+}: FamilyPlanUpgradeModalProps) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[
+          styles.modalContainer,
+          { backgroundColor: AppColors.background },
+        ]}
+      >
+        <View
+          style={[styles.modalHeader, { paddingTop: insets.top + Spacing.lg }]}
+        >
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText
+              style={[styles.modalCancel, { color: AppColors.primary }]}
+            >
+              Close
+            </ThemedText>
+          </TouchableOpacity>
+          <ThemedText style={styles.modalTitle}>Upgrade Required</ThemedText>
+          <View style={{ width: 50 }} />
+        </View>
+
+        <View style={styles.upgradeContent}>
+          <View
+            style={[
+              styles.upgradeIcon,
+              { backgroundColor: AppColors.warning + "20" },
+            ]}
+          >
+            <Feather name="star" size={48} color={AppColors.warning} />
+          </View>
+          <ThemedText style={styles.upgradeModalTitle}>
+            Family Plan Required
+          </ThemedText>
+          <ThemedText
+            style={[
+              styles.upgradeModalText,
+              { color: AppColors.secondaryText },
+            ]}
+          >
+            To add family profiles, upgrade to our Family plan.
+          </ThemedText>
+
+          <View style={styles.planCard}>
+            <ThemedText style={styles.planName}>
+              {PLAN_DETAILS.family.name}
+            </ThemedText>
+            <ThemedText style={styles.planPrice}>
+              {PLAN_DETAILS.family.price}
+            </ThemedText>
+            <View style={styles.planFeatures}>
+              {PLAN_DETAILS.family.features.map(
+                (feature: string, index: number) => (
+                  <View key={index} style={styles.planFeatureRow}>
+                    <Feather name="check" size={16} color={AppColors.primary} />
+                    <ThemedText style={styles.planFeatureText}>
+                      {feature}
+                    </ThemedText>
+                  </View>
+                ),
+              )}
+            </View>
+          </View>
+
+          <Button
+            onPress={() => {
+              onClose();
+              Alert.alert(
+                "Coming Soon",
+                "Subscriptions will be available soon!",
+              );
+            }}
+            style={styles.upgradeButton}
+          >
+            Upgrade Now
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  memberCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: AppColors.surface,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  memberInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+  },
+  memberAvatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: AppColors.primary + "20",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.md,
+  },
+  memberDetails: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  memberMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  memberActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    padding: Spacing.sm,
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.divider,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalCancel: {
+    fontSize: 17,
+  },
+  modalSave: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing["4xl"],
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: Spacing.md,
+  },
+  input: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: Spacing.sm,
+  },
+  chipsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: AppColors.divider,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipIcon: {
+    marginLeft: Spacing.xs,
+  },
+  customInputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  customInput: {
+    flex: 1,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 14,
+  },
+  addCustomButton: {
+    backgroundColor: AppColors.primaryDark,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  addCustomText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  customChipsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  customChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    gap: Spacing.xs,
+  },
+  customChipText: {
+    fontSize: 13,
+    color: AppColors.text,
+  },
+  upgradeContent: {
+    flex: 1,
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing["3xl"],
+  },
+  upgradeIcon: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.xl,
+  },
+  upgradeModalTitle: {
+    fontSize: 24,
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+    textAlign: "center",
+  },
+  upgradeModalText: {
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: Spacing.xl,
+  },
+  planCard: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    width: "100%",
+    marginBottom: Spacing.xl,
+  },
+  planName: {
+    fontSize: 20,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  planPrice: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: AppColors.primary,
+    textAlign: "center",
+    marginVertical: Spacing.sm,
+  },
+  planFeatures: {
+    marginTop: Spacing.md,
+  },
+  planFeatureRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  planFeatureText: {
+    fontSize: 15,
+  },
+  upgradeButton: {
+    width: "100%",
+    backgroundColor: AppColors.primaryDark,
+  },
+});
@@ -0,0 +1,196 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity, Text, Alert } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { findTermRanges } from "@shared/allergenOntology";
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { MatchedIngredient, describeMatchReason } from "@/services/labelRules";
+
+interface IngredientHighlighterProps {
+  rawText: string;
+  matchedIngredients: MatchedIngredient[];
+  /** Profile names by id, used to say whom a match was flagged for. */
+  profileNames: Record<string, string>;
+  isCorrected?: boolean;
+  /** Shows an Edit button in the header when set. */
+  onEdit?: () => void;
+}
+
+/**
+ * Offsets of each match in the text. Results saved before matches carried
+ * offsets are located by whole-word search instead.
+ */
+function toHighlightSpans(
+  rawText: string,
+  matchedIngredients: MatchedIngredient[],
+): { start: number; end: number; match: MatchedIngredient }[] {
+  const lowerText = rawText.toLowerCase();
+
+  return matchedIngredients.flatMap((match) => {
+    if (match.start !== undefined && match.end !== undefined) {
+      return match.end <= rawText.length
+        ? [{ start: match.start, end: match.end, match }]
+        : [];
+    }
+    return findTermRanges(lowerText, match.name.toLowerCase()).map((range) => ({
+      ...range,
+      match,
+    }));
+  });
+}
+
+/**
+ * Renders a raw ingredient text block with flagged words highlighted.
+ * Red = allergen/keyword, yellow = dietary/caution. Tapping a highlighted
+ * word explains which rule flagged it and for whom.
+ */
+export function IngredientHighlighter({
+  rawText,
+  matchedIngredients,
+  profileNames,
+  isCorrected,
+  onEdit,
+}: IngredientHighlighterProps) {
+  if (!rawText || rawText.length === 0) return null;
+
+  const spans = toHighlightSpans(rawText, matchedIngredients);
+
+  // Split the text at every span boundary so overlapping matches each keep
+  // their own explanation
+  const boundaries = Array.from(
+    new Set([0, rawText.length, ...spans.flatMap((s) => [s.start, s.end])]),
+  ).sort((a, b) => a - b);
+
+  const segments: { text: string; matches: MatchedIngredient[] }[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const matches = spans
+      .filter((s) => s.start <= start && s.end >= end)
+      .map((s) => s.match);
+    const last = segments[segments.length - 1];
+
+    if (last && last.matches.length === 0 && matches.length === 0) {
+      last.text += rawText.substring(start, end);
+    } else {
+      segments.push({ text: rawText.substring(start, end), matches });
+    }
+  }
+
+  const handleExplain = (text: string, matches: MatchedIngredient[]) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const lines = matches.map((m) => {
+      const names = (m.profileIds || [])
+        .map((id) => profileNames[id])
+        .filter(Boolean);
+      const reason = describeMatchReason(m);
+      return names.length > 0
+        ? `${reason}\nFlagged for ${names.join(", ")}`
+        : reason;
+    });
+    Alert.alert(`"${text.trim()}"`, Array.from(new Set(lines)).join("\n\n"));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText style={styles.label}>
+          Ingredient Text{isCorrected ? " · Corrected" : ""}
+        </ThemedText>
+        {onEdit ? (
+          <TouchableOpacity style={styles.editButton} onPress={onEdit}>
+            <Feather name="edit-2" size={14} color={AppColors.primary} />
+            <ThemedText style={styles.editText}>Edit</ThemedText>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      <View style={styles.textBlock}>
+        <Text style={styles.baseText}>
+          {segments.map((seg, i) => {
+            if (seg.matches.length === 0) {
+              return (
+                <Text key={i} style={styles.normalText}>
+                  {seg.text}
+                </Text>
+              );
+            }
+            const isAllergenOrKeyword = seg.matches.some(
+              (m) => m.type === "allergen" || m.type === "keyword",
+            );
+            return (
+              <Text
+                key={i}
+                onPress={() => handleExplain(seg.text, seg.matches)}
+                style={[
+                  styles.highlightedText,
+                  {
+                    backgroundColor: isAllergenOrKeyword
+                      ? AppColors.destructive + "35"
+                      : AppColors.warning + "35",
+                    color: isAllergenOrKeyword
+                      ? AppColors.destructive
+                      : AppColors.warning,
+                  },
+                ]}
+              >
+                {seg.text}
+              </Text>
+            );
+          })}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.secondaryText,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  editButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  editText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+  textBlock: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: AppColors.divider,
+  },
+  baseText: {
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  normalText: {
+    color: AppColors.secondaryText,
+  },
+  highlightedText: {
+    fontWeight: "700",
+    borderRadius: 3,
+    overflow: "hidden",
+    paddingHorizontal: 2,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { isFirebaseConfigured } from "@/services/firebase";
+import {
+  HOUSEHOLD_ROLE_LABELS,
+  HouseholdInvite,
+  INVITE_CODE_LENGTH,
+  JoinResult,
+  getInvitesForEmail,
+  joinHousehold,
+  normalizeInviteCode,
+} from "@/services/household";
+
+const JOIN_ERRORS: Record<Exclude<JoinResult, "joined">, string> = {
+  notFound: "That invite code doesn't exist or has already been used.",
+  expired: "That invite has expired. Ask a parent for a new one.",
+  wrongAccount: "That invite was sent to a different email address.",
+  unverifiedEmail: "Verify your email address to use an invite sent to it.",
+  alreadyMember: "You're already in that household.",
+};
+
+interface JoinHouseholdFormProps {
+  /** Called once the account has joined and AuthContext has caught up. */
+  onJoined?: () => void;
+}
+
+/**
+ * Joins a household with an invite code, or with one of the invites sent
+ * to the signed-in email address.
+ */
+export function JoinHouseholdForm({ onJoined }: JoinHouseholdFormProps) {
+  const { user, isDemoMode, refreshUserProfile } = useAuth();
+  const [code, setCode] = useState("");
+  const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+  const [joiningCode, setJoiningCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const email = user?.email ?? null;
+  const emailVerified = !!user?.emailVerified;
+  const canJoin = !!user && !isDemoMode && isFirebaseConfigured;
+
+  useEffect(() => {
+    // Invites sent to an address are only shown once it is verified
+    if (!canJoin || !email || !emailVerified) return;
+
+    getInvitesForEmail(email)
+      .then(setInvites)
+      .catch((err) => {
+        console.error("Error loading household invites:", err);
+      });
+  }, [canJoin, email, emailVerified]);
+
+  const join = async (inviteCode: string) => {
+    if (!user || joiningCode) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setJoiningCode(inviteCode);
+    setError(null);
+    try {
+      const result = await joinHousehold(
+        {
+          uid: user.uid,
+          name: user.displayName || email?.split("@")[0] || "Family member",
+          email,
+          emailVerified,
+        },
+        inviteCode,
+      );
+      if (result !== "joined") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        setError(JOIN_ERRORS[result]);
+        return;
+      }
+
+      await refreshUserProfile();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCode("");
+      setInvites((prev) => prev.filter((i) => i.code !== inviteCode));
+      onJoined?.();
+    } catch (err) {
+      console.error("Error joining household:", err);
+      Alert.alert("Error", "Failed to join the household. Please try again.");
+    } finally {
+      setJoiningCode(null);
+    }
+  };
+
+  if (!canJoin) {
+    return (
+      <ThemedText style={[styles.notice, { color: AppColors.secondaryText }]}>
+        Sign in with an account to join a household.
+      </ThemedText>
+    );
+  }
+
+  const normalizedCode = normalizeInviteCode(code);
+
+  return (
+    <View style={styles.container}>
+      {invites.map((invite) => (
+        <View key={invite.code} style={styles.inviteCard}>
+          <Feather name="mail" size={20} color={AppColors.primary} />
+          <View style={styles.inviteInfo}>
+            <ThemedText style={styles.inviteTitle}>
+              {invite.householdName}
+            </ThemedText>
+            <ThemedText
+              style={[styles.inviteMeta, { color: AppColors.secondaryText }]}
+            >
+              Invited you as {HOUSEHOLD_ROLE_LABELS[invite.role].toLowerCase()}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            style={styles.inviteButton}
+            onPress={() => join(invite.code)}
+            disabled={!!joiningCode}
+          >
+            {joiningCode === invite.code ? (
+              <ActivityIndicator size="small" color={AppColors.text} />
+            ) : (
+              <ThemedText style={styles.inviteButtonText}>Join</ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View
+        style={[styles.inputContainer, { backgroundColor: AppColors.surface }]}
+      >
+        <TextInput
+          style={[styles.input, { color: AppColors.text }]}
+          placeholder="Invite code"
+          placeholderTextColor={AppColors.secondaryText}
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            setError(null);
+          }}
+          onSubmitEditing={() => normalizedCode && join(normalizedCode)}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          maxLength={INVITE_CODE_LENGTH + 2}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[
+            styles.joinButton,
+            { backgroundColor: AppColors.primaryDark },
+            (!normalizedCode || !!joiningCode) && { opacity: 0.5 },
+          ]}
+          onPress={() => join(normalizedCode)}
+          disabled={!normalizedCode || !!joiningCode}
+        >
+          {joiningCode === normalizedCode ? (
+            <ActivityIndicator size="small" color={AppColors.text} />
+          ) : (
+            <Feather name="arrow-right" size={20} color={AppColors.text} />
+          )}
+        </TouchableOpacity>
+      </View>
+      {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  notice: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  inviteCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  inviteInfo: {
+    flex: 1,
+  },
+  inviteTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  inviteMeta: {
+    fontSize: 13,
+  },
+  inviteButton: {
+    minWidth: 64,
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: AppColors.primaryDark,
+  },
+  inviteButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    paddingLeft: Spacing.md,
+    paddingRight: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    letterSpacing: 2,
+    paddingVertical: Spacing.sm,
+  },
+  joinButton: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  errorText: {
+    color: AppColors.destructive,
+    fontSize: 13,
+    marginLeft: Spacing.sm,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from "react";
+import { View, Modal, StyleSheet, TouchableOpacity, Alert } from "react-native";
+import { Ionicons, Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { RuleProfileResult } from "@/services/labelRules";
+import {
+  ProductMarks,
+  emptyProductMarks,
+  findTrustConflicts,
+  getProductMarks,
+  saveProductMarks,
+  toggleBlocked,
+  toggleTrusted,
+} from "@/services/productMarks";
+
+interface ProductMarksCardProps {
+  /** GTIN-14 of the scanned product. */
+  barcode: string;
+  /** Fresh results of this scan. */
+  results: RuleProfileResult[];
+}
+
+function formatMarkedAt(iso: string): string {
+  return new Date(iso).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * The household's saved decision about a barcode product, shown next to
+ * the fresh result, with a sheet to change it. Warns loudly when a product
+ * trusted for someone is no longer safe for them.
+ */
+export function ProductMarksCard({ barcode, results }: ProductMarksCardProps) {
+  const { isDemoMode, householdId } = useAuth();
+  const [marks, setMarks] = useState<ProductMarks>(() =>
+    emptyProductMarks(barcode),
+  );
+  const [showMarkModal, setShowMarkModal] = useState(false);
+
+  useEffect(() => {
+    if (!householdId) return;
+
+    let isCurrent = true;
+    getProductMarks(householdId, isDemoMode, barcode)
+      .then((saved) => {
+        if (!isCurrent || !saved) return;
+        setMarks(saved);
+        if (findTrustConflicts(saved, results).length > 0) {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading product marks:", error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [householdId, isDemoMode, barcode, results]);
+
+  const updateMarks = async (next: ProductMarks) => {
+    if (!householdId) return;
+
+    const previous = marks;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setMarks(next);
+    try {
+      await saveProductMarks(householdId, isDemoMode, next);
+    } catch (error) {
+      console.error("Error saving product marks:", error);
+      setMarks(previous);
+      Alert.alert("Error", "Failed to save your choice. Please try again.");
+    }
+  };
+
+  const conflicts = findTrustConflicts(marks, results);
+
+  return (
+    <View style={styles.container}>
+      {conflicts.length > 0 ? (
+        <View style={styles.conflictCard}>
+          <View style={styles.conflictHeader}>
+            <Ionicons name="alert-circle" size={28} color="#fff" />
+            <ThemedText style={styles.conflictTitle}>
+              Trusted Product Flagged
+            </ThemedText>
+          </View>
+          <ThemedText style={styles.conflictText}>
+            You marked this product as always OK for{" "}
+            {conflicts.map((c) => c.name).join(", ")}, but this scan rates it{" "}
+            {conflicts.map((c) => `${c.status} for ${c.name}`).join(", ")}. The
+            recipe may have changed. Check the label before using it.
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {marks.blockedAt ? (
+        <View style={styles.markRow}>
+          <Ionicons name="ban" size={18} color={AppColors.destructive} />
+          <ThemedText style={styles.markText}>
+            Never buy · marked {formatMarkedAt(marks.blockedAt)}
+          </ThemedText>
+        </View>
+      ) : null}
+      {marks.trustedFor.map((trusted) => (
+        <View key={trusted.profileId} style={styles.markRow}>
+          <Ionicons
+            name="shield-checkmark"
+            size={18}
+            color={AppColors.success}
+          />
+          <ThemedText style={styles.markText}>
+            Always OK for {trusted.name} · marked{" "}
+            {formatMarkedAt(trusted.markedAt)}
+          </ThemedText>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.markButton}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setShowMarkModal(true);
+        }}
+      >
+        <Feather name="bookmark" size={16} color={AppColors.primary} />
+        <ThemedText style={styles.markButtonText}>
+          {marks.blockedAt || marks.trustedFor.length > 0
+            ? "Change saved decision"
+            : "Mark this product"}
+        </ThemedText>
+      </TouchableOpacity>
+
+      <Modal
+        visible={showMarkModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowMarkModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: AppColors.background },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <ThemedText style={styles.modalTitle}>Mark Product</ThemedText>
+              <TouchableOpacity onPress={() => setShowMarkModal(false)}>
+                <Feather name="x" size={24} color={AppColors.text} />
+              </TouchableOpacity>
+            </View>
+            <ThemedText
+              style={[
+                styles.modalDescription,
+                { color: AppColors.secondaryText },
+              ]}
+            >
+              Your choice is shown whenever this barcode is scanned again. Every
+              scan is still checked against your profiles.
+            </ThemedText>
+
+            {results.map((result) => {
+              const isTrusted = marks.trustedFor.some(
+                (t) => t.profileId === result.profileId,
+              );
+              return (
+                <TouchableOpacity
+                  key={result.profileId}
+                  style={styles.option}
+                  onPress={() =>
+                    updateMarks(
+                      toggleTrusted(marks, result.profileId, result.name),
+                    )
+                  }
+                >
+                  <Ionicons
+                    name={isTrusted ? "checkbox" : "square-outline"}
+                    size={22}
+                    color={
+                      isTrusted ? AppColors.success : AppColors.secondaryText
+                    }
+                  />
+                  <ThemedText style={styles.optionText}>
+                    Always OK for {result.name}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={styles.option}
+              onPress={() => updateMarks(toggleBlocked(marks))}
+            >
+              <Ionicons
+                name={marks.blockedAt ? "checkbox" : "square-outline"}
+                size={22}
+                color={
+                  marks.blockedAt
+                    ? AppColors.destructive
+                    : AppColors.secondaryText
+                }
+              />
+              <ThemedText style={styles.optionText}>Never buy</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  conflictCard: {
+    backgroundColor: AppColors.destructive,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  conflictHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  conflictTitle: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  conflictText: {
+    color: "#fff",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  markRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  markText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  markButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  markButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  modalContent: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  modalDescription: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.lg,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,395 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { RuleProfileResult } from "@/services/labelRules";
+import { ALLERGY_SEVERITY_LABELS, AllergySeverity } from "@/services/profiles";
+
+interface ResultCardProps {
+  result: RuleProfileResult;
+}
+
+function SeverityLabel({
+  severity,
+  color,
+}: {
+  severity?: AllergySeverity;
+  color: string;
+}) {
+  if (!severity) return null;
+
+  return (
+    <ThemedText style={[styles.severityText, { color }]}>
+      · {ALLERGY_SEVERITY_LABELS[severity]}
+    </ThemedText>
+  );
+}
+
+export function ResultCard({ result }: ResultCardProps) {
+  const config = {
+    safe: {
+      color: AppColors.success,
+      bg: "#1a3d2e",
+    },
+    caution: {
+      color: AppColors.warning,
+      bg: "#3d3a1a",
+    },
+    unsafe: {
+      color: AppColors.destructive,
+      bg: "#3d1a1a",
+    },
+  };
+
+  const c = config[result.status];
+
+  return (
+    <View
+      style={[
+        styles.resultCard,
+        { backgroundColor: c.bg, borderColor: c.color },
+      ]}
+    >
+      <View style={styles.resultHeader}>
+        <View style={[styles.iconCircle, { backgroundColor: c.color + "30" }]}>
+          <Ionicons
+            name={
+              result.status === "safe"
+                ? "checkmark-circle"
+                : result.status === "caution"
+                  ? "warning"
+                  : "close-circle"
+            }
+            size={32}
+            color={c.color}
+          />
+        </View>
+        <View style={styles.resultInfo}>
+          <ThemedText style={styles.profileName}>{result.name}</ThemedText>
+          <ThemedText style={[styles.statusText, { color: c.color }]}>
+            {result.status.charAt(0).toUpperCase() + result.status.slice(1)}
+          </ThemedText>
+        </View>
+      </View>
+
+      <View style={styles.resultBody}>
+        {result.status === "safe" ? (
+          <ThemedText style={styles.safeMessage}>
+            No allergens, forbidden keywords, or restricted ingredients
+            detected.
+          </ThemedText>
+        ) : (
+          <View style={styles.issuesList}>
+            {result.matchedAllergens.length > 0 ? (
+              <View style={styles.issueSection}>
+                <ThemedText
+                  style={[
+                    styles.issueSectionTitle,
+                    { color: AppColors.destructive },
+                  ]}
+                >
+                  Allergens Found:
+                </ThemedText>
+                <View style={styles.tagsContainer}>
+                  {result.matchedAllergens.map((allergen, index) => (
+                    <View
+                      key={index}
+                      style={[
+                        styles.tag,
+                        { backgroundColor: AppColors.destructive + "30" },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.tagText,
+                          { color: AppColors.destructive },
+                        ]}
+                      >
+                        {allergen}
+                      </ThemedText>
+                      <SeverityLabel
+                        severity={result.allergySeverities?.[allergen]}
+                        color={AppColors.destructive}
+                      />
+                    </View>
+                  ))}
+                </View>
+              </View>
+            ) : null}
+
+            {result.matchedKeywords.length > 0 ? (
+              <View style={styles.issueSection}>
+                <ThemedText
+                  style={[
+                    styles.issueSectionTitle,
+                    { color: AppColors.destructive },
+                  ]}
+                >
+                  Forbidden Keywords:
+                </ThemedText>
+                <View style={styles.tagsContainer}>
+                  {result.matchedKeywords.map((keyword, index) => (
+                    <View
+                      key={index}
+                      style={[
+                        styles.tag,
+                        { backgroundColor: AppColors.destructive + "30" },
+                      ]}
+                    >
+                      <Ionicons
+                        name="ban"
+                        size={12}
+                        color={AppColors.destructive}
+                      />
+                      <ThemedText
+                        style={[
+                          styles.tagText,
+                          { color: AppColors.destructive },
+                        ]}
+                      >
+                        {keyword}
+                      </ThemedText>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            ) : null}
+
+            {result.matchedPreferences.length > 0 ? (
+              <View style={styles.issueSection}>
+                <ThemedText
+                  style={[
+                    styles.issueSectionTitle,
+                    { color: AppColors.warning },
+                  ]}
+                >
+                  Dietary Conflicts:
+                </ThemedText>
+                <View style={styles.tagsContainer}>
+                  {result.matchedPreferences.map((pref, index) => (
+                    <View
+                      key={index}
+                      style={[
+                        styles.tag,
+                        { backgroundColor: AppColors.warning + "30" },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[styles.tagText, { color: AppColors.warning }]}
+                      >
+                        {pref}
+                      </ThemedText>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            ) : null}
+
+            {result.advisories && result.advisories.length > 0 ? (
+              <View style={styles.issueSection}>
+                <ThemedText
+                  style={[
+                    styles.issueSectionTitle,
+                    { color: AppColors.warning },
+                  ]}
+                >
+                  May Contain:
+                </ThemedText>
+                <View style={styles.tagsContainer}>
+                  {result.advisories.map((advisory, index) => (
+                    <View
+                      key={index}
+                      style={[
+                        styles.tag,
+                        { backgroundColor: AppColors.warning + "30" },
+                      ]}
+                    >
+                      <Ionicons
+                        name="warning"
+                        size={12}
+                        color={AppColors.warning}
+                      />
+                      <ThemedText
+                        style={[styles.tagText, { color: AppColors.warning }]}
+                      >
+                        {advisory.allergen}
+                      </ThemedText>
+                      <SeverityLabel
+                        severity={advisory.severity}
+                        color={AppColors.warning}
+                      />
+                    </View>
+                  ))}
+                </View>
+                {Array.from(
+                  new Set(result.advisories.map((a) => a.statement)),
+                ).map((statement, index) => (
+                  <ThemedText
+                    key={index}
+                    style={[
+                      styles.reasonText,
+                      styles.advisoryStatement,
+                      { color: AppColors.secondaryText },
+                    ]}
+                  >
+                    &quot;{statement}&quot;
+                  </ThemedText>
+                ))}
+              </View>
+            ) : null}
+
+            {result.ageGuidance && result.ageGuidance.length > 0 ? (
+              <View style={styles.issueSection}>
+                <ThemedText
+                  style={[styles.issueSectionTitle, { color: AppColors.info }]}
+                >
+                  Age Guidance:
+                </ThemedText>
+                <View style={styles.tagsContainer}>
+                  {result.ageGuidance.map((guidance, index) => {
+                    const color =
+                      guidance.level === "unsafe"
+                        ? AppColors.destructive
+                        : AppColors.warning;
+                    return (
+                      <View
+                        key={index}
+                        style={[styles.tag, { backgroundColor: color + "30" }]}
+                      >
+                        <Ionicons name="body" size={12} color={color} />
+                        <ThemedText style={[styles.tagText, { color }]}>
+                          {guidance.label}
+                        </ThemedText>
+                      </View>
+                    );
+                  })}
+                </View>
+                {result.ageGuidance.map((guidance, index) => (
+                  <ThemedText
+                    key={index}
+                    style={[
+                      styles.reasonText,
+                      styles.advisoryStatement,
+                      { color: AppColors.secondaryText },
+                    ]}
+                  >
+                    {guidance.message} (&quot;{guidance.matchedText}&quot;)
+                  </ThemedText>
+                ))}
+              </View>
+            ) : null}
+
+            <View style={styles.reasonsList}>
+              {result.reasons.map((reason, index) => (
+                <View key={index} style={styles.reasonRow}>
+                  <Ionicons name="alert-circle" size={14} color={c.color} />
+                  <ThemedText
+                    style={[
+                      styles.reasonText,
+                      { color: AppColors.secondaryText },
+                    ]}
+                  >
+                    {reason}
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  resultCard: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.lg,
+    overflow: "hidden",
+  },
+  resultHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  resultInfo: {
+    marginLeft: Spacing.md,
+  },
+  profileName: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginTop: 2,
+  },
+  resultBody: {
+    marginTop: Spacing.sm,
+  },
+  safeMessage: {
+    fontSize: 14,
+    color: AppColors.secondaryText,
+    lineHeight: 20,
+  },
+  issuesList: {
+    gap: Spacing.md,
+  },
+  issueSection: {
+    gap: Spacing.sm,
+  },
+  issueSectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  tagsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  tag: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.sm,
+    gap: 4,
+  },
+  tagText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  severityText: {
+    fontSize: 11,
+    fontWeight: "400",
+  },
+  reasonsList: {
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  reasonRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  reasonText: {
+    fontSize: 13,
+    flex: 1,
+    lineHeight: 18,
+  },
+  advisoryStatement: {
+    fontStyle: "italic",
+    marginTop: Spacing.sm,
+  },
+});
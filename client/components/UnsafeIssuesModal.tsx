@@ -13,7 +13,12 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { ProfileResult } from "@/services/ai";
+import {
+  MatchedIngredient,
+  RuleProfileResult,
+  describeMatchReason,
+} from "@/services/labelRules";
+import { ALLERGY_SEVERITY_LABELS, AllergySeverity } from "@/services/profiles";
 
 const ISSUE_RED = "#ff5252";
 const MODAL_BG = "#1e1e1e";
@@ -21,22 +26,58 @@ const MODAL_BG = "#1e1e1e";
 interface UnsafeIssuesModalProps {
   visible: boolean;
   onClose: () => void;
-  results: ProfileResult[];
+  results: RuleProfileResult[];
+  matchedIngredients?: MatchedIngredient[];
   fullIngredients: string[];
   isFamilyChecked?: boolean;
 }
 
 interface IssueItem {
   person: string;
-  type: "allergen" | "keyword" | "preference";
+  type: "allergen" | "keyword" | "preference" | "advisory" | "age";
   item: string;
   reason?: string;
+  /** Which label text triggered the issue and how, when known. */
+  detail?: string;
+  severity?: AllergySeverity;
+}
+
+function withSeverity(text: string, severity?: AllergySeverity): string {
+  return severity
+    ? `${text}, ${ALLERGY_SEVERITY_LABELS[severity].toLowerCase()}`
+    : text;
+}
+
+function explainIssue(
+  matchedIngredients: MatchedIngredient[],
+  profileId: string,
+  type: IssueItem["type"],
+  item: string,
+): string | undefined {
+  const lowerItem = item.toLowerCase();
+  const reasons = matchedIngredients
+    .filter((m) => {
+      if (!m.profileIds?.includes(profileId)) return false;
+      if (type === "keyword") {
+        return m.type === "keyword" && m.name.toLowerCase().includes(lowerItem);
+      }
+      return (
+        m.allergen?.toLowerCase() === lowerItem &&
+        (m.rule === "advisory") === (type === "advisory")
+      );
+    })
+    .map(describeMatchReason);
+
+  return reasons.length > 0
+    ? Array.from(new Set(reasons)).join("; ")
+    : undefined;
 }
 
 export function UnsafeIssuesModal({
   visible,
   onClose,
   results,
+  matchedIngredients = [],
   fullIngredients,
   isFamilyChecked = false,
 }: UnsafeIssuesModalProps) {
@@ -52,6 +93,13 @@ export function UnsafeIssuesModal({
         person: result.name,
         type: "allergen",
         item: allergen,
+        severity: result.allergySeverities?.[allergen],
+        detail: explainIssue(
+          matchedIngredients,
+          result.profileId,
+          "allergen",
+          allergen,
+        ),
       });
     });
 
@@ -60,6 +108,12 @@ export function UnsafeIssuesModal({
         person: result.name,
         type: "keyword",
         item: keyword,
+        detail: explainIssue(
+          matchedIngredients,
+          result.profileId,
+          "keyword",
+          keyword,
+        ),
       });
     });
 
@@ -71,11 +125,38 @@ export function UnsafeIssuesModal({
         reason: `violates ${pref} preference`,
       });
     });
+
+    result.advisories?.forEach((advisory) => {
+      allIssues.push({
+        person: result.name,
+        type: "advisory",
+        item: advisory.allergen,
+        severity: advisory.severity,
+        detail: explainIssue(
+          matchedIngredients,
+          result.profileId,
+          "advisory",
+          advisory.allergen,
+        ),
+      });
+    });
+
+    result.ageGuidance?.forEach((guidance) => {
+      allIssues.push({
+        person: result.name,
+        type: "age",
+        item: guidance.label,
+        reason: guidance.message,
+        detail: `${guidance.matchedText} (age guidance)`,
+      });
+    });
   });
 
   const allergenIssues = allIssues.filter((i) => i.type === "allergen");
   const keywordIssues = allIssues.filter((i) => i.type === "keyword");
   const preferenceIssues = allIssues.filter((i) => i.type === "preference");
+  const advisoryIssues = allIssues.filter((i) => i.type === "advisory");
+  const ageIssues = allIssues.filter((i) => i.type === "age");
 
   const handleClose = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -183,7 +264,18 @@ export function UnsafeIssuesModal({
                           <ThemedText style={styles.issueHighlight}>
                             {issue.item}
                           </ThemedText>{" "}
-                          (allergen for {issue.person})
+                          (
+                          {withSeverity(
+                            `allergen for ${issue.person}`,
+                            issue.severity,
+                          )}
+                          )
+                          {issue.detail ? (
+                            <ThemedText style={styles.issueDetail}>
+                              {"\n"}
+                              {issue.detail}
+                            </ThemedText>
+                          ) : null}
                         </ThemedText>
                       </View>
                     ))}
@@ -207,6 +299,12 @@ export function UnsafeIssuesModal({
                             {issue.item}
                           </ThemedText>{" "}
                           (forbidden for {issue.person})
+                          {issue.detail ? (
+                            <ThemedText style={styles.issueDetail}>
+                              {"\n"}
+                              {issue.detail}
+                            </ThemedText>
+                          ) : null}
                         </ThemedText>
                       </View>
                     ))}
@@ -257,6 +355,99 @@ export function UnsafeIssuesModal({
                     ))}
                   </View>
                 ) : null}
+
+                {advisoryIssues.length > 0 ? (
+                  <View style={styles.issueSection}>
+                    <View style={styles.sectionHeader}>
+                      <Ionicons
+                        name="warning"
+                        size={18}
+                        color={AppColors.warning}
+                      />
+                      <ThemedText
+                        style={[
+                          styles.sectionTitle,
+                          { color: AppColors.warning },
+                        ]}
+                      >
+                        Precautionary Warnings
+                      </ThemedText>
+                    </View>
+                    {advisoryIssues.map((issue, index) => (
+                      <View key={`advisory-${index}`} style={styles.issueRow}>
+                        <View
+                          style={[
+                            styles.bullet,
+                            { backgroundColor: AppColors.warning },
+                          ]}
+                        />
+                        <ThemedText style={styles.issueText}>
+                          May contain{" "}
+                          <ThemedText
+                            style={[
+                              styles.issueHighlight,
+                              { color: AppColors.warning },
+                            ]}
+                          >
+                            {issue.item}
+                          </ThemedText>{" "}
+                          (
+                          {withSeverity(
+                            `advisory for ${issue.person}`,
+                            issue.severity,
+                          )}
+                          )
+                          {issue.detail ? (
+                            <ThemedText style={styles.issueDetail}>
+                              {"\n"}
+                              {issue.detail}
+                            </ThemedText>
+                          ) : null}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ) : null}
+
+                {ageIssues.length > 0 ? (
+                  <View style={styles.issueSection}>
+                    <View style={styles.sectionHeader}>
+                      <Ionicons name="body" size={18} color={AppColors.info} />
+                      <ThemedText
+                        style={[styles.sectionTitle, { color: AppColors.info }]}
+                      >
+                        Age Guidance
+                      </ThemedText>
+                    </View>
+                    {ageIssues.map((issue, index) => (
+                      <View key={`age-${index}`} style={styles.issueRow}>
+                        <View
+                          style={[
+                            styles.bullet,
+                            { backgroundColor: AppColors.info },
+                          ]}
+                        />
+                        <ThemedText style={styles.issueText}>
+                          <ThemedText
+                            style={[
+                              styles.issueHighlight,
+                              { color: AppColors.info },
+                            ]}
+                          >
+                            {issue.item}
+                          </ThemedText>{" "}
+                          for {issue.person}: {issue.reason}
+                          {issue.detail ? (
+                            <ThemedText style={styles.issueDetail}>
+                              {"\n"}
+                              {issue.detail}
+                            </ThemedText>
+                          ) : null}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ) : null}
               </ScrollView>
 
               <View style={styles.footer}>
@@ -384,6 +575,10 @@ const styles = StyleSheet.create({
     color: ISSUE_RED,
     fontWeight: "600",
   },
+  issueDetail: {
+    fontSize: 12,
+    color: AppColors.secondaryText,
+  },
   footer: {
     flexDirection: "column",
     paddingHorizontal: Spacing.lg,
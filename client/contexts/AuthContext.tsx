@@ -9,6 +9,17 @@ import {
   User,
   isFirebaseConfigured,
 } from "@/services/firebase";
+import {
+  AdvisoryHandling,
+  AllergySeverity,
+  toAdvisoryHandling,
+  toAllergySeverities,
+} from "@/services/profiles";
+import {
+  HouseholdMembership,
+  HouseholdRole,
+  resolveHousehold,
+} from "@/services/household";
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -38,6 +49,8 @@ export interface UserProfile {
     none: boolean;
   };
   forbiddenKeywords: string[];
+  advisoryHandling?: AdvisoryHandling;
+  allergySeverities?: Record<string, AllergySeverity>;
 }
 
 interface AuthContextType {
@@ -47,6 +60,9 @@ interface AuthContextType {
   isOnboarded: boolean;
   isFirebaseReady: boolean;
   isDemoMode: boolean;
+  /** Owner uid of the household whose profiles and scan history are shown. */
+  householdId: string | null;
+  householdRole: HouseholdRole;
   setIsOnboarded: (value: boolean) => void;
   logout: () => Promise<void>;
   loginAsDemo: () => void;
@@ -74,6 +90,8 @@ const AuthContext = createContext<AuthContextType>({
   isOnboarded: false,
   isFirebaseReady: false,
   isDemoMode: false,
+  householdId: null,
+  householdRole: "parent",
   setIsOnboarded: () => {},
   logout: async () => {},
   loginAsDemo: () => {},
@@ -93,6 +111,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isOnboarded, setIsOnboardedState] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [household, setHousehold] = useState<HouseholdMembership | null>(null);
 
   // Load persisted state on mount
   useEffect(() => {
@@ -110,6 +129,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           // Load user profile and check onboarding status
           await loadUserProfile(firebaseUser.uid);
         } else {
+          setHousehold(null);
+
           // Check if we have a demo user stored
           const storedDemoMode = await AsyncStorage.getItem(STORAGE_KEYS.IS_DEMO_MODE);
           if (storedDemoMode === "true") {
@@ -188,6 +209,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       // Load main profile
       const userDoc = await getDoc(doc(db, "users", userId));
+      setHousehold(
+        await resolveHousehold(
+          userId,
+          userDoc.exists() ? userDoc.data() : null,
+        ),
+      );
 
       // Load forbidden keywords
       let forbiddenKeywords: string[] = [];
@@ -217,6 +244,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             none: mainProfile.preferences?.none || false,
           },
           forbiddenKeywords,
+          advisoryHandling: toAdvisoryHandling(mainProfile.advisoryHandling),
+          allergySeverities: toAllergySeverities(mainProfile.allergySeverities),
         };
 
         setUserProfile(profile);
@@ -305,6 +334,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       // Clear in-memory state immediately so navigator switches to Auth
       setUserProfile(null);
+      setHousehold(null);
       setIsOnboardedState(false);
       setIsDemoMode(false);
 
@@ -323,6 +353,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Force clear state even on error
       setUser(null);
       setUserProfile(null);
+      setHousehold(null);
       setIsDemoMode(false);
       setIsOnboardedState(false);
     }
@@ -376,6 +407,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                   custom: profile.preferences.custom,
                   none: profile.preferences.none,
                 },
+                advisoryHandling: toAdvisoryHandling(profile.advisoryHandling),
+                allergySeverities: profile.allergySeverities || {},
                 updatedAt: new Date().toISOString(),
               },
             },
@@ -429,6 +462,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isOnboarded,
         isFirebaseReady: isFirebaseConfigured,
         isDemoMode,
+        householdId: household?.householdId ?? user?.uid ?? null,
+        householdRole: household?.role ?? "parent",
         setIsOnboarded,
         logout,
         loginAsDemo,
@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AdvisoryHandling,
+  AllergySeverity,
+  FamilyMemberDoc,
+  deleteFamilyMember,
+  getFamilyMembers,
+  saveFamilyMember,
+} from "@/services/profiles";
+import {
+  PLAN_DETAILS,
+  SubscriptionInfo,
+  canAddFamilyMember,
+  getSubscriptionInfo,
+} from "@/services/subscription";
+import { parseBirthdate } from "@shared/ageGuidance";
+
+export interface FamilyMember {
+  id: string;
+  name: string;
+  allergies: string[];
+  preferences: string[];
+  customAllergies: string[];
+  customPreferences: string[];
+  advisoryHandling: AdvisoryHandling;
+  allergySeverities: Record<string, AllergySeverity>;
+  /** "YYYY-MM-DD", or null when not given. */
+  birthdate: string | null;
+}
+
+export type FamilyMemberDraft = Omit<FamilyMember, "id">;
+
+/** Whether another member can be added, and if not, why. */
+export type AddMemberCheck = "allowed" | "limitReached" | "upgradeRequired";
+
+const DEMO_FAMILY_MEMBERS: FamilyMember[] = [
+  {
+    id: "demo-child",
+    name: "Demo Child",
+    allergies: ["Peanuts", "Dairy"],
+    preferences: ["Vegetarian"],
+    customAllergies: [],
+    customPreferences: [],
+    advisoryHandling: "caution",
+    allergySeverities: { Peanuts: "anaphylactic", Dairy: "intolerance" },
+    birthdate: null,
+  },
+];
+
+export function emptyFamilyMemberDraft(): FamilyMemberDraft {
+  return {
+    name: "",
+    allergies: [],
+    preferences: [],
+    customAllergies: [],
+    customPreferences: [],
+    advisoryHandling: "caution",
+    allergySeverities: {},
+    birthdate: null,
+  };
+}
+
+/** Whether some plan allows more family members than `limit`. */
+function hasLargerPlan(limit: number): boolean {
+  const plans: Record<string, { maxFamilyMembers: number }> = PLAN_DETAILS;
+  return Object.values(plans).some(
+    (details) => details.maxFamilyMembers > limit,
+  );
+}
+
+function toFamilyMember({ id, data }: FamilyMemberDoc): FamilyMember {
+  return {
+    id,
+    name: data.name,
+    allergies: data.allergies,
+    preferences: data.preferences,
+    customAllergies: data.customAllergies,
+    customPreferences: data.customPreferences,
+    advisoryHandling: data.advisoryHandling,
+    allergySeverities: data.allergySeverities,
+    birthdate: data.birthdate,
+  };
+}
+
+/**
+ * Checks a member before it is saved. Returns the message to show, or null
+ * if the member is valid. Names must be unique, since results and history
+ * tell profiles apart by name.
+ */
+export function validateFamilyMember(
+  draft: FamilyMemberDraft,
+  members: FamilyMember[],
+  memberId: string | null,
+): string | null {
+  const name = draft.name.trim();
+  if (!name) {
+    return "Please enter a name for this family member.";
+  }
+
+  const isTaken = members.some(
+    (m) =>
+      m.id !== memberId && m.name.trim().toLowerCase() === name.toLowerCase(),
+  );
+  if (isTaken) {
+    return `You already have a family member called ${name}.`;
+  }
+
+  const birthdate = draft.birthdate?.trim();
+  if (birthdate) {
+    const date = parseBirthdate(birthdate);
+    if (!date) {
+      return "Please enter the birthdate as YYYY-MM-DD.";
+    }
+    if (date > new Date()) {
+      return "The birthdate can't be in the future.";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The household's family members, with the data operations shared by
+ * the onboarding and account screens. In demo mode members are kept in
+ * memory only. Whether another member can be added is decided by
+ * canAddFamilyMember; the plan is loaded only to describe the limit.
+ */
+export function useFamilyMembers() {
+  const { isDemoMode, householdId, householdRole } = useAuth();
+  const uid = householdId;
+  const isParent = householdRole === "parent";
+
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  // Members whose stored profile couldn't be read, one message each
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [plan, setPlan] = useState<SubscriptionInfo["tier"] | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    const info: SubscriptionInfo = await getSubscriptionInfo();
+    setPlan(info.tier);
+    return info.tier;
+  }, []);
+
+  useEffect(() => {
+    loadPlan().catch((error) => {
+      console.error("Error loading subscription:", error);
+    });
+  }, [loadPlan]);
+
+  // Null until the plan is known
+  const memberLimit: number | null = plan
+    ? PLAN_DETAILS[plan].maxFamilyMembers
+    : null;
+  // No plan allows another member, so not even an upgrade would help
+  const isAtMemberLimit = !hasLargerPlan(members.length);
+
+  const reload = useCallback(async () => {
+    if (isDemoMode) {
+      setMembers(DEMO_FAMILY_MEMBERS);
+      setIsLoading(false);
+      return;
+    }
+
+    if (!uid) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const read = await getFamilyMembers(uid, isParent);
+      setMembers(read.members.map(toFamilyMember));
+      setErrors(read.errors);
+    } catch (error) {
+      console.error("Error loading family members:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [uid, isDemoMode, isParent]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const checkCanAddMember = useCallback(async (): Promise<AddMemberCheck> => {
+    // The user may have upgraded since the screen opened
+    loadPlan().catch((error) => {
+      console.error("Error loading subscription:", error);
+    });
+
+    const check = await canAddFamilyMember(members.length + 1);
+    if (check.allowed) return "allowed";
+    return hasLargerPlan(members.length) ? "upgradeRequired" : "limitReached";
+  }, [members.length, loadPlan]);
+
+  /**
+   * Saves a member, adding it when memberId is null. Returns the member's
+   * id. Throws if the save fails.
+   */
+  const saveMember = useCallback(
+    async (memberId: string | null, draft: FamilyMemberDraft) => {
+      const member: FamilyMemberDraft = {
+        ...draft,
+        name: draft.name.trim(),
+        birthdate: draft.birthdate?.trim() || null,
+      };
+
+      if (isDemoMode) {
+        const id = memberId || `demo-${Date.now()}`;
+        setMembers((prev) =>
+          memberId
+            ? prev.map((m) => (m.id === memberId ? { ...member, id } : m))
+            : [...prev, { ...member, id }],
+        );
+        return id;
+      }
+
+      if (!uid) {
+        throw new Error("Not signed in");
+      }
+
+      const id = await saveFamilyMember(uid, memberId, {
+        ...member,
+        updatedAt: new Date().toISOString(),
+      });
+      reload();
+      return id;
+    },
+    [uid, isDemoMode, reload],
+  );
+
+  /** Removes a member. Throws if the delete fails. */
+  const removeMember = useCallback(
+    async (memberId: string) => {
+      if (isDemoMode) {
+        setMembers((prev) => prev.filter((m) => m.id !== memberId));
+        return;
+      }
+
+      if (!uid) return;
+      await deleteFamilyMember(uid, memberId);
+      reload();
+    },
+    [uid, isDemoMode, reload],
+  );
+
+  return {
+    members,
+    errors,
+    isLoading,
+    plan,
+    memberLimit,
+    isAtMemberLimit,
+    reload,
+    checkCanAddMember,
+    saveMember,
+    removeMember,
+  };
+}
@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { isFirebaseConfigured } from "@/services/firebase";
+import {
+  HouseholdProfile,
+  HouseholdProfilesSnapshot,
+  OWN_PROFILE_ID,
+  normalizeMainProfile,
+  subscribeToHouseholdProfiles,
+} from "@/services/profiles";
+
+/**
+ * Returns the household's main profile plus every family member as
+ * normalized HouseholdProfile objects. Backed by live Firestore listeners, so the list
+ * updates as soon as a profile is edited anywhere in the app. In demo mode
+ * (or without Firebase) the main profile comes from AuthContext.
+ *
+ * An account that joined someone else's household keeps its own allergies
+ * in its user document; that profile is added last, as OWN_PROFILE_ID.
+ */
+export function useHouseholdProfiles(): HouseholdProfilesSnapshot {
+  const { user, userProfile, isDemoMode, householdId, householdRole } =
+    useAuth();
+  const [snapshot, setSnapshot] = useState<HouseholdProfilesSnapshot>({
+    profiles: [],
+    isLoading: true,
+    error: null,
+  });
+
+  const userName = user?.displayName || user?.email?.split("@")[0] || "You";
+  const isLive = !!user && !isDemoMode && isFirebaseConfigured;
+  const isJoined = !!householdId && householdId !== user?.uid;
+  // A joined household's main profile belongs to whoever created it
+  const ownerName = isJoined ? "Parent" : userName;
+  const isParent = householdRole === "parent";
+
+  useEffect(() => {
+    if (!isLive || !householdId) return;
+    return subscribeToHouseholdProfiles(
+      householdId,
+      ownerName,
+      isParent,
+      setSnapshot,
+    );
+  }, [isLive, householdId, ownerName, isParent]);
+
+  const localProfiles = useMemo<HouseholdProfile[]>(
+    () => [
+      normalizeMainProfile(
+        userProfile
+          ? {
+              name: userProfile.name,
+              allergies: userProfile.allergies,
+              preferences: userProfile.preferences,
+              advisoryHandling: userProfile.advisoryHandling,
+              allergySeverities: userProfile.allergySeverities,
+            }
+          : null,
+        userName,
+        userProfile?.forbiddenKeywords || [],
+      ),
+    ],
+    [userProfile, userName],
+  );
+
+  const liveSnapshot = useMemo<HouseholdProfilesSnapshot>(
+    () =>
+      isJoined
+        ? {
+            ...snapshot,
+            profiles: [
+              ...snapshot.profiles,
+              { ...localProfiles[0], id: OWN_PROFILE_ID },
+            ],
+          }
+        : snapshot,
+    [isJoined, snapshot, localProfiles],
+  );
+
+  if (!isLive) {
+    return { profiles: localProfiles, isLoading: false, error: null };
+  }
+
+  return liveSnapshot;
+}
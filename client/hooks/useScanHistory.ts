@@ -0,0 +1,140 @@
+import { useCallback, useRef, useState } from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryCursor,
+  HistoryFilters,
+  StoredScan,
+  getScanHistoryPage,
+  isBeforeDateRange,
+  matchesHistoryFilters,
+} from "@/services/historyRecords";
+
+/** Upper bound on pages read for one load when filters match few scans. */
+const MAX_PAGES_PER_LOAD = 5;
+
+/**
+ * The household's scan history, read a page at a time. Filters are
+ * applied to each page as it arrives, so a load keeps reading until it has
+ * a page's worth of matches, reaches the end of the history or the start
+ * of the date range, or has read MAX_PAGES_PER_LOAD pages. A load that has
+ * found nothing yet keeps reading past that limit: the screen shows its
+ * empty state instead of the list, so no further load would be asked for.
+ * Nothing is read until reload() is called.
+ */
+export function useScanHistory(filters: HistoryFilters) {
+  const { isDemoMode, householdId } = useAuth();
+  const uid = householdId;
+
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cursor = useRef<HistoryCursor | null>(null);
+  // Bumped on every reset so pages of a stale load are dropped
+  const generation = useRef(0);
+  const isFetching = useRef(false);
+
+  const readPages = useCallback(
+    async (from: HistoryCursor | null) => {
+      if (!uid) return { matches: [], next: null };
+
+      const matches: StoredScan[] = [];
+      let next = from;
+      let pages = 0;
+
+      do {
+        const page = await getScanHistoryPage(uid, isDemoMode, next);
+        pages++;
+        next = page.cursor;
+
+        for (const scan of page.scans) {
+          if (isBeforeDateRange(scan, filters.dateRange)) {
+            next = null;
+            break;
+          }
+          if (matchesHistoryFilters(scan, filters)) matches.push(scan);
+        }
+      } while (
+        next &&
+        (matches.length === 0 ||
+          (matches.length < HISTORY_PAGE_SIZE && pages < MAX_PAGES_PER_LOAD))
+      );
+
+      return { matches, next };
+    },
+    [uid, isDemoMode, filters],
+  );
+
+  const reload = useCallback(
+    async (mode: "initial" | "refresh" = "initial") => {
+      const current = ++generation.current;
+      cursor.current = null;
+      isFetching.current = true;
+      if (mode === "initial") setIsLoading(true);
+      else setIsRefreshing(true);
+      setError(null);
+
+      try {
+        const { matches, next } = await readPages(null);
+        if (current !== generation.current) return;
+        cursor.current = next;
+        setScans(matches);
+        setHasMore(next !== null);
+      } catch (err) {
+        if (current !== generation.current) return;
+        console.error("Error loading history:", err);
+        setError("Failed to load history");
+      } finally {
+        if (current === generation.current) {
+          isFetching.current = false;
+          setIsLoading(false);
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [readPages],
+  );
+
+  const loadMore = useCallback(async () => {
+    if (isFetching.current || !cursor.current) return;
+
+    const current = generation.current;
+    isFetching.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const { matches, next } = await readPages(cursor.current);
+      if (current !== generation.current) return;
+      cursor.current = next;
+      setScans((prev) => [
+        ...prev,
+        ...matches.filter((m) => !prev.some((p) => p.id === m.id)),
+      ]);
+      setHasMore(next !== null);
+    } catch (err) {
+      console.error("Error loading more history:", err);
+    } finally {
+      if (current === generation.current) {
+        isFetching.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [readPages]);
+
+  return {
+    scans,
+    setScans,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    reload,
+    loadMore,
+  };
+}
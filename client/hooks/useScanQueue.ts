@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, AppState } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  ProcessedScan,
+  QueuedScan,
+  getNextAttemptAt,
+  processScanQueue,
+  removeQueuedScan,
+  subscribeToScanQueue,
+} from "@/services/scanQueue";
+
+/**
+ * Scans for the household that are still waiting for analysis.
+ */
+export function useScanQueue() {
+  const { householdId: uid } = useAuth();
+  const [allScans, setAllScans] = useState<QueuedScan[]>([]);
+
+  useEffect(() => subscribeToScanQueue(setAllScans), []);
+
+  const retryNow = useCallback(
+    () => processScanQueue(uid, { force: true }),
+    [uid],
+  );
+
+  return {
+    pendingScans: allScans.filter((scan) => scan.uid === uid),
+    retryNow,
+    discardScan: removeQueuedScan,
+  };
+}
+
+function describeResult({ scan, result }: ProcessedScan): string {
+  const unsafe = result.results.filter((r) => r.status === "unsafe");
+  const caution = result.results.filter((r) => r.status === "caution");
+  const takenAt = new Date(scan.createdAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  const verdict =
+    unsafe.length > 0
+      ? `Unsafe for ${unsafe.map((r) => r.name).join(", ")}.`
+      : caution.length > 0
+        ? `Use caution for ${caution.map((r) => r.name).join(", ")}.`
+        : "Safe for everyone checked.";
+
+  return `The label you scanned at ${takenAt} has been analyzed. ${verdict} The full result is in your scan history.`;
+}
+
+/**
+ * Works through the offline scan queue while the app is open: on mount,
+ * whenever the app returns to the foreground and when the next backoff
+ * elapses. Mount once, near the root of the signed-in navigator.
+ */
+export function useScanQueueProcessor() {
+  const { householdId: uid } = useAuth();
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const schedule = async () => {
+      if (timer.current) clearTimeout(timer.current);
+      const nextAttemptAt = await getNextAttemptAt(uid);
+      if (!isActive || nextAttemptAt === null) return;
+      timer.current = setTimeout(
+        run,
+        Math.max(nextAttemptAt - Date.now(), 1000),
+      );
+    };
+
+    const run = async () => {
+      try {
+        const processed = await processScanQueue(uid);
+        if (!isActive) return;
+
+        processed.forEach((item) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          Alert.alert("Scan Analyzed", describeResult(item));
+        });
+      } catch (error) {
+        console.error("Error processing scan queue:", error);
+        if (!isActive) return;
+      }
+      schedule().catch((error) => {
+        console.error("Error scheduling scan queue retry:", error);
+      });
+    };
+
+    run();
+
+    const unsubscribe = subscribeToScanQueue(() => {
+      schedule().catch((error) => {
+        console.error("Error scheduling scan queue retry:", error);
+      });
+    });
+    const appStateSubscription = AppState.addEventListener(
+      "change",
+      (state) => {
+        if (state === "active") run();
+      },
+    );
+
+    return () => {
+      isActive = false;
+      if (timer.current) clearTimeout(timer.current);
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [uid]);
+}
@@ -0,0 +1,73 @@
+import { useCallback } from "react";
+import { Alert } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { RuleProfile } from "@/services/labelRules";
+import {
+  MAX_REEVALUATED_SCANS,
+  reevaluateScanHistory,
+  ruleInputsChanged,
+} from "@/services/verdictChanges";
+
+/**
+ * Returns a function to call after a profile or its keywords are saved.
+ * When the edit changed the profile's allergies or keywords, it re-checks
+ * recent scan history and, if any product's verdict changed, offers to
+ * open the report. Resolves with whether the report alert was shown, so
+ * the caller can skip its own confirmation.
+ */
+export function useVerdictChangeReport() {
+  const { isDemoMode, householdId } = useAuth();
+  const navigation = useNavigation<any>();
+
+  return useCallback(
+    async (
+      before: RuleProfile | null | undefined,
+      after: RuleProfile,
+    ): Promise<boolean> => {
+      if (!householdId || !before || !ruleInputsChanged(before, after)) {
+        return false;
+      }
+
+      let report;
+      try {
+        report = await reevaluateScanHistory(
+          householdId,
+          isDemoMode,
+          before,
+          after,
+        );
+      } catch (error) {
+        console.error("Error re-checking scan history:", error);
+        return false;
+      }
+      const { changes, isCapped } = report;
+      if (changes.length === 0) return false;
+
+      const summary =
+        changes.length === 1
+          ? `1 product you scanned before now has a different result for ${after.name}.`
+          : `${changes.length} products you scanned before now have a different result for ${after.name}.`;
+      Alert.alert(
+        "Saved",
+        isCapped
+          ? `${summary} Only your last ${MAX_REEVALUATED_SCANS} scans were checked.`
+          : summary,
+        [
+          { text: "Later", style: "cancel" },
+          {
+            text: "View",
+            onPress: () =>
+              navigation.navigate("HistoryTab", {
+                screen: "VerdictChanges",
+                params: report,
+              }),
+          },
+        ],
+      );
+      return true;
+    },
+    [householdId, isDemoMode, navigation],
+  );
+}
@@ -4,6 +4,7 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import AccountScreen from "@/screens/AccountScreen";
 import ProfileEditScreen from "@/screens/ProfileEditScreen";
 import FamilyProfilesScreen from "@/screens/FamilyProfilesScreen";
+import HouseholdScreen from "@/screens/HouseholdScreen";
 import KeywordManagerScreen from "@/screens/KeywordManagerScreen";
 import TermsOfServiceScreen from "@/screens/TermsOfServiceScreen";
 import RecipesHistoryScreen from "@/screens/RecipesHistoryScreen";
@@ -15,6 +16,7 @@ export type AccountStackParamList = {
   Account: undefined;
   ProfileEdit: undefined;
   FamilyProfiles: undefined;
+  Household: undefined;
   KeywordManager: undefined;
   TermsOfService: undefined;
   RecipesHistory: undefined;
@@ -56,6 +58,14 @@ export default function AccountStackNavigator() {
           headerLeft: () => <HeaderBackButton />,
         }}
       />
+      <Stack.Screen
+        name="Household"
+        component={HouseholdScreen}
+        options={{
+          title: "Household",
+          headerLeft: () => <HeaderBackButton />,
+        }}
+      />
       <Stack.Screen
         name="KeywordManager"
         component={KeywordManagerScreen}
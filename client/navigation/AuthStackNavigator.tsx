@@ -9,6 +9,7 @@ import AllergySetupScreen from "@/screens/AllergySetupScreen";
 import DietaryPreferencesSetupScreen from "@/screens/DietaryPreferencesSetupScreen";
 import RoleSelectionScreen from "@/screens/RoleSelectionScreen";
 import FamilyManagementScreen from "@/screens/FamilyManagementScreen";
+import JoinHouseholdScreen from "@/screens/JoinHouseholdScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { HeaderBackButton } from "@/components/HeaderBackButton";
 import { AppColors } from "@/constants/colors";
@@ -20,6 +21,7 @@ export type AuthStackParamList = {
   TermsOfService: undefined;
   RoleSelection: undefined;
   FamilyManagement: undefined;
+  JoinHousehold: undefined;
   AllergySetup: undefined;
   DietaryPreferencesSetup: undefined;
 };
@@ -90,6 +92,14 @@ export default function AuthStackNavigator() {
           gestureEnabled: false,
         }}
       />
+      <Stack.Screen
+        name="JoinHousehold"
+        component={JoinHouseholdScreen}
+        options={{
+          headerShown: false,
+          gestureEnabled: false,
+        }}
+      />
       <Stack.Screen
         name="AllergySetup"
         component={AllergySetupScreen}
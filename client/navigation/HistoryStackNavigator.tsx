@@ -1,11 +1,19 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import HistoryScreen from "@/screens/HistoryScreen";
+import HistoryDetailScreen from "@/screens/HistoryDetailScreen";
+import VerdictChangesScreen from "@/screens/VerdictChangesScreen";
+import ReactionDiaryScreen from "@/screens/ReactionDiaryScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { AppColors } from "@/constants/colors";
+import { StoredScan } from "@/services/historyRecords";
+import { VerdictChangeReport } from "@/services/verdictChanges";
 
 export type HistoryStackParamList = {
   History: undefined;
+  HistoryDetail: { scan: StoredScan };
+  VerdictChanges: VerdictChangeReport;
+  ReactionDiary: { scan?: StoredScan } | undefined;
 };
 
 const Stack = createNativeStackNavigator<HistoryStackParamList>();
@@ -29,6 +37,27 @@ export default function HistoryStackNavigator() {
           title: "History",
         }}
       />
+      <Stack.Screen
+        name="HistoryDetail"
+        component={HistoryDetailScreen}
+        options={{
+          title: "Scan Details",
+        }}
+      />
+      <Stack.Screen
+        name="VerdictChanges"
+        component={VerdictChangesScreen}
+        options={{
+          title: "Verdict Changes",
+        }}
+      />
+      <Stack.Screen
+        name="ReactionDiary"
+        component={ReactionDiaryScreen}
+        options={{
+          title: "Reaction Diary",
+        }}
+      />
     </Stack.Navigator>
   );
 }
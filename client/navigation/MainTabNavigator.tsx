@@ -10,6 +10,7 @@ import RestaurantStackNavigator from "@/navigation/RestaurantStackNavigator";
 import RecipeStackNavigator from "@/navigation/RecipeStackNavigator";
 import AccountStackNavigator from "@/navigation/AccountStackNavigator";
 import { AppColors } from "@/constants/colors";
+import { useScanQueueProcessor } from "@/hooks/useScanQueue";
 
 export type MainTabParamList = {
   HomeTab: undefined;
@@ -23,6 +24,8 @@ export type MainTabParamList = {
 const Tab = createBottomTabNavigator<MainTabParamList>();
 
 export default function MainTabNavigator() {
+  useScanQueueProcessor();
+
   return (
     <Tab.Navigator
       initialRouteName="HomeTab"
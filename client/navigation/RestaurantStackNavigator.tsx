@@ -4,6 +4,7 @@ import RestaurantSearchScreen from "@/screens/RestaurantSearchScreen";
 import NearbyRestaurantsScreen from "@/screens/NearbyRestaurantsScreen";
 import MenuScanScreen from "@/screens/MenuScanScreen";
 import MenuResultsScreen from "@/screens/MenuResultsScreen";
+import ChefCardScreen from "@/screens/ChefCardScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { AppColors } from "@/constants/colors";
 import { MenuItemResult } from "@/services/ai";
@@ -13,6 +14,7 @@ export type RestaurantStackParamList = {
   NearbyRestaurants: undefined;
   MenuScan: { restaurantName?: string };
   MenuResults: { menuItems: MenuItemResult[]; restaurantName: string };
+  ChefCard: undefined;
 };
 
 const Stack = createNativeStackNavigator<RestaurantStackParamList>();
@@ -58,6 +60,13 @@ export default function RestaurantStackNavigator() {
           title: "Menu Results",
         }}
       />
+      <Stack.Screen
+        name="ChefCard"
+        component={ChefCardScreen}
+        options={{
+          title: "Chef Card",
+        }}
+      />
     </Stack.Navigator>
   );
 }
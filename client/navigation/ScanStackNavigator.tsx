@@ -6,12 +6,13 @@ import ResultsScreen from "@/screens/ResultsScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { HeaderBackButton } from "@/components/HeaderBackButton";
 import { AppColors } from "@/constants/colors";
-import { AnalysisResult } from "@/services/ai";
+import { RuleAnalysisResult } from "@/services/labelRules";
 
 export type ScanStackParamList = {
-  Scan: undefined;
+  /** `mode` opens the scanner on the label camera or the barcode reader. */
+  Scan: { mode?: "camera" | "barcode" } | undefined;
   GroceryScan: undefined;
-  Results: { analysisResult: AnalysisResult };
+  Results: { analysisResult: RuleAnalysisResult };
 };
 
 const Stack = createNativeStackNavigator<ScanStackParamList>();
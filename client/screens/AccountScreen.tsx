@@ -22,6 +22,7 @@ import { AppColors } from "@/constants/colors";
 import { AccountStackParamList } from "@/navigation/AccountStackNavigator";
 import { useAuth } from "@/contexts/AuthContext";
 import { db, isFirebaseConfigured } from "@/services/firebase";
+import { clearScanHistory } from "@/services/historyRecords";
 
 type AccountScreenNavigationProp = NativeStackNavigationProp<
   AccountStackParamList,
@@ -107,7 +108,7 @@ export default function AccountScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<AccountScreenNavigationProp>();
-  const { user, logout } = useAuth();
+  const { user, isDemoMode, householdId, householdRole, logout } = useAuth();
 
   const [allergyCount, setAllergyCount] = useState(2);
 
@@ -139,6 +140,11 @@ export default function AccountScreen() {
     navigation.navigate("FamilyProfiles");
   };
 
+  const handleHouseholdPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    navigation.navigate("Household");
+  };
+
   const handleKeywordsPress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     navigation.navigate("KeywordManager");
@@ -162,9 +168,21 @@ export default function AccountScreen() {
         {
           text: "Clear",
           style: "destructive",
-          onPress: () => {
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            Alert.alert("Success", "Scan history cleared.");
+          onPress: async () => {
+            if (!householdId) return;
+            try {
+              await clearScanHistory(householdId, isDemoMode);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              Alert.alert("Success", "Scan history cleared.");
+            } catch (error) {
+              console.error("Error clearing scan history:", error);
+              Alert.alert(
+                "Error",
+                "Failed to clear scan history. Please try again.",
+              );
+            }
           },
         },
       ],
@@ -272,6 +290,39 @@ export default function AccountScreen() {
         />
       </TouchableOpacity>
 
+      <TouchableOpacity
+        style={[styles.keywordsCard, { backgroundColor: AppColors.surface }]}
+        onPress={handleHouseholdPress}
+        activeOpacity={0.8}
+      >
+        <View style={styles.profileCardContent}>
+          <View
+            style={[
+              styles.avatarContainer,
+              { backgroundColor: AppColors.primary + "20" },
+            ]}
+          >
+            <Ionicons name="home" size={28} color={AppColors.primary} />
+          </View>
+          <View style={styles.profileTextContainer}>
+            <ThemedText style={styles.profileTitle}>Household</ThemedText>
+            <ThemedText
+              style={[
+                styles.profileSubtitle,
+                { color: AppColors.secondaryText },
+              ]}
+            >
+              Share profiles with a co-parent or teen
+            </ThemedText>
+          </View>
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={24}
+          color={AppColors.secondaryText}
+        />
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={[styles.keywordsCard, { backgroundColor: AppColors.surface }]}
         onPress={handleKeywordsPress}
@@ -403,15 +454,19 @@ export default function AccountScreen() {
 
       <SectionHeader title="DATA" />
       <View style={styles.section}>
-        <SettingsItem
-          icon="trash-outline"
-          label="Clear Scan History"
-          onPress={handleClearHistory}
-          destructive
-        />
-        <View
-          style={[styles.divider, { backgroundColor: AppColors.divider }]}
-        />
+        {householdRole === "parent" ? (
+          <>
+            <SettingsItem
+              icon="trash-outline"
+              label="Clear Scan History"
+              onPress={handleClearHistory}
+              destructive
+            />
+            <View
+              style={[styles.divider, { backgroundColor: AppColors.divider }]}
+            />
+          </>
+        ) : null}
         <SettingsItem
           icon="refresh-outline"
           label="Reset Profile"
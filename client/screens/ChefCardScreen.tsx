@@ -0,0 +1,373 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Alert,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { captureRef } from "react-native-view-shot";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Button } from "@/components/Button";
+import { ChefCardView } from "@/components/ChefCardView";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import {
+  buildChefCard,
+  isChefCardEmpty,
+  shareChefCardImage,
+  shareChefCardPdf,
+} from "@/services/chefCard";
+import { MAIN_PROFILE_ID } from "@/services/profiles";
+import {
+  CHEF_CARD_LANGUAGES,
+  ChefCardLanguage,
+} from "@shared/allergenTranslations";
+
+type ShareFormat = "image" | "pdf";
+
+export default function ChefCardScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { profiles, isLoading } = useHouseholdProfiles();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([MAIN_PROFILE_ID]);
+  const [language, setLanguage] = useState<ChefCardLanguage>("en");
+  const [isFullScreen, setIsFullScreen] = useState(false);
+  const [sharing, setSharing] = useState<ShareFormat | null>(null);
+  const cardRef = useRef<View>(null);
+
+  const card = useMemo(
+    () =>
+      buildChefCard(
+        profiles.filter((p) => selectedIds.includes(p.id)),
+        language,
+      ),
+    [profiles, selectedIds, language],
+  );
+  const isEmpty = isChefCardEmpty(card);
+
+  const toggleProfile = (profileId: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedIds((prev) => {
+      if (!prev.includes(profileId)) return [...prev, profileId];
+      // Keep at least one profile on the card
+      return prev.length > 1 ? prev.filter((id) => id !== profileId) : prev;
+    });
+  };
+
+  const selectLanguage = (code: ChefCardLanguage) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setLanguage(code);
+  };
+
+  const openFullScreen = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsFullScreen(true);
+  };
+
+  const handleShare = async (format: ShareFormat) => {
+    if (sharing) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setSharing(format);
+    try {
+      if (format === "pdf") {
+        await shareChefCardPdf(card);
+      } else {
+        const uri = await captureRef(cardRef, {
+          format: "png",
+          quality: 1,
+          result: "tmpfile",
+        });
+        await shareChefCardImage(uri);
+      }
+    } catch (error) {
+      console.error("Error sharing chef card:", error);
+      Alert.alert("Error", "Failed to share the chef card. Please try again.");
+    } finally {
+      setSharing(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color={AppColors.primary} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: insets.bottom + Spacing["4xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+      >
+        <ThemedText
+          style={[styles.description, { color: AppColors.secondaryText }]}
+        >
+          Show this card to the chef or waiter. It lists every allergy of the
+          chosen profiles, with the ingredients that contain them, in the
+          restaurant&apos;s language.
+        </ThemedText>
+
+        {profiles.length > 1 ? (
+          <>
+            <ThemedText style={styles.sectionTitle}>
+              Who&apos;s Eating
+            </ThemedText>
+            <View style={styles.chips}>
+              {profiles.map((profile) => {
+                const isSelected = selectedIds.includes(profile.id);
+                return (
+                  <TouchableOpacity
+                    key={profile.id}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: isSelected
+                          ? AppColors.primary
+                          : AppColors.surface,
+                      },
+                    ]}
+                    onPress={() => toggleProfile(profile.id)}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.chipText,
+                        {
+                          color: isSelected
+                            ? AppColors.text
+                            : AppColors.secondaryText,
+                        },
+                      ]}
+                    >
+                      {profile.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        ) : null}
+
+        <ThemedText style={styles.sectionTitle}>Language</ThemedText>
+        <View style={styles.chips}>
+          {CHEF_CARD_LANGUAGES.map((option) => {
+            const isSelected = option.code === language;
+            return (
+              <TouchableOpacity
+                key={option.code}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isSelected
+                      ? AppColors.primary
+                      : AppColors.surface,
+                  },
+                ]}
+                onPress={() => selectLanguage(option.code)}
+                accessibilityLabel={option.name}
+              >
+                <ThemedText
+                  style={[
+                    styles.chipText,
+                    {
+                      color: isSelected
+                        ? AppColors.text
+                        : AppColors.secondaryText,
+                    },
+                  ]}
+                >
+                  {option.nativeName}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {isEmpty ? (
+          <View style={styles.emptyState}>
+            <Feather
+              name="check-circle"
+              size={40}
+              color={AppColors.secondaryText}
+            />
+            <ThemedText
+              style={[styles.emptyText, { color: AppColors.secondaryText }]}
+            >
+              The selected profiles have no allergies to put on a card.
+            </ThemedText>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity
+              activeOpacity={0.9}
+              onPress={openFullScreen}
+              accessibilityHint="Shows the card full screen"
+            >
+              <View ref={cardRef} collapsable={false}>
+                <ChefCardView card={card} />
+              </View>
+            </TouchableOpacity>
+
+            <Button onPress={openFullScreen} style={styles.showButton}>
+              Show Full Screen
+            </Button>
+
+            <View style={styles.shareRow}>
+              {(["image", "pdf"] as ShareFormat[]).map((format) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[
+                    styles.shareButton,
+                    { borderColor: AppColors.primary },
+                    !!sharing && { opacity: 0.6 },
+                  ]}
+                  onPress={() => handleShare(format)}
+                  disabled={!!sharing}
+                >
+                  {sharing === format ? (
+                    <ActivityIndicator size="small" color={AppColors.primary} />
+                  ) : (
+                    <Feather
+                      name={format === "pdf" ? "file-text" : "image"}
+                      size={18}
+                      color={AppColors.primary}
+                    />
+                  )}
+                  <ThemedText
+                    style={[styles.shareText, { color: AppColors.primary }]}
+                  >
+                    {format === "pdf" ? "Share PDF" : "Share Image"}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={isFullScreen}
+        animationType="fade"
+        presentationStyle="fullScreen"
+        onRequestClose={() => setIsFullScreen(false)}
+      >
+        <View style={styles.fullScreen}>
+          <ScrollView
+            contentContainerStyle={{
+              paddingTop: insets.top + Spacing["4xl"],
+              paddingBottom: insets.bottom + Spacing.xl,
+              paddingHorizontal: Spacing.md,
+            }}
+          >
+            <ChefCardView card={card} large />
+          </ScrollView>
+          <TouchableOpacity
+            style={[styles.closeButton, { top: insets.top + Spacing.sm }]}
+            onPress={() => setIsFullScreen(false)}
+            accessibilityLabel="Close"
+          >
+            <Feather name="x" size={24} color={AppColors.buttonText} />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: Spacing["3xl"],
+    gap: Spacing.md,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: "center",
+  },
+  showButton: {
+    marginTop: Spacing.xl,
+    backgroundColor: AppColors.primaryDark,
+  },
+  shareRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  shareButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1.5,
+    backgroundColor: AppColors.surface,
+  },
+  shareText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  fullScreen: {
+    flex: 1,
+    backgroundColor: AppColors.surface,
+  },
+  closeButton: {
+    position: "absolute",
+    right: Spacing.lg,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: AppColors.text,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import {
   View,
   StyleSheet,
@@ -18,7 +18,6 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { doc, getDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
@@ -26,101 +25,26 @@ import { AppColors } from "@/constants/colors";
 import { Spacing } from "@/constants/theme";
 import { ScanStackParamList } from "@/navigation/ScanStackNavigator";
 import { groceryService, GroceryProduct } from "@/services/grocery";
-import { useAuth } from "@/contexts/AuthContext";
-import { db, isFirebaseConfigured } from "@/services/firebase";
+import { analyzeLabelText } from "@/services/labelRules";
+import { getCachedProduct, toGtin14 } from "@/services/productCache";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
 
 type GroceryScanScreenNavigationProp = NativeStackNavigationProp<
   ScanStackParamList,
   "GroceryScan"
 >;
 
-interface UserProfile {
-  allergies: string[];
-  preferences: string[];
-  forbiddenKeywords: string[];
-}
-
 export default function GroceryScanScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<GroceryScanScreenNavigationProp>();
-  const { user } = useAuth();
+  const { profiles, isLoading: profilesLoading } = useHouseholdProfiles();
   const [permission, requestPermission] = useCameraPermissions();
   const [scannedProduct, setScannedProduct] = useState<GroceryProduct | null>(
-    null
+    null,
   );
   const [isProcessing, setIsProcessing] = useState(false);
-  const [userProfile, setUserProfile] = useState<UserProfile>({
-    allergies: [],
-    preferences: [],
-    forbiddenKeywords: [],
-  });
-
-  useEffect(() => {
-    loadUserProfile();
-  }, [user]);
-
-  const loadUserProfile = async () => {
-    const defaultProfile: UserProfile = {
-      allergies: ["Dairy", "Gluten"],
-      preferences: ["Vegetarian"],
-      forbiddenKeywords: [],
-    };
-
-    if (!user || !isFirebaseConfigured || !db) {
-      setUserProfile(defaultProfile);
-      return;
-    }
-
-    try {
-      let forbiddenKeywords: string[] = [];
-      const keywordsRef = doc(
-        db,
-        "users",
-        user.uid,
-        "settings",
-        "forbiddenKeywords"
-      );
-      const keywordsSnap = await getDoc(keywordsRef);
-      if (keywordsSnap.exists()) {
-        forbiddenKeywords = keywordsSnap.data().keywords || [];
-      }
-
-      const mainProfileRef = doc(db, "users", user.uid);
-      const mainProfileSnap = await getDoc(mainProfileRef);
-      if (mainProfileSnap.exists()) {
-        const data = mainProfileSnap.data().mainProfile || {};
-        const allergiesData = data.allergies;
-        const preferencesData = data.preferences;
-
-        const allergies = Array.isArray(allergiesData)
-          ? allergiesData
-          : [
-              ...(allergiesData?.common || []),
-              ...(allergiesData?.custom || []),
-            ];
-        const preferences = Array.isArray(preferencesData)
-          ? preferencesData
-          : [
-              ...(preferencesData?.common || []),
-              ...(preferencesData?.custom || []),
-            ];
-
-        setUserProfile({
-          allergies,
-          preferences,
-          forbiddenKeywords,
-        });
-      } else {
-        setUserProfile({
-          ...defaultProfile,
-          forbiddenKeywords,
-        });
-      }
-    } catch (error) {
-      console.error("Error loading user profile:", error);
-      setUserProfile(defaultProfile);
-    }
-  };
+  // A scan checked against no profiles would always come back safe
+  const canScan = !profilesLoading && profiles.length > 0;
 
   const handleBarcodeScanned = async (result: BarcodeScanningResult) => {
     if (isProcessing) return;
@@ -130,9 +54,11 @@ export default function GroceryScanScreen() {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
     try {
-      const product = await groceryService.getProductByUPC(upc);
+      const cached = await getCachedProduct("grocery", upc, (code) =>
+        groceryService.getProductByUPC(code),
+      );
 
-      if (!product) {
+      if (!cached) {
         Alert.alert(
           "Product Not Found",
           `Barcode ${upc} was not found in our database. Try scanning the ingredients label with the main scanner instead.`,
@@ -141,31 +67,52 @@ export default function GroceryScanScreen() {
               text: "OK",
               onPress: () => setIsProcessing(false),
             },
-          ]
+          ],
         );
         return;
       }
 
+      const product = cached.product;
       setScannedProduct(product);
 
+      // The grocery service only describes the product; every household
+      // profile is checked by the same rules as the other scan paths
       const safety = await groceryService.checkProductSafety(
         product,
-        userProfile.allergies,
-        userProfile.preferences,
-        userProfile.forbiddenKeywords
+        [],
+        [],
+        [],
       );
+      const productResult = groceryService.toAnalysisResult(product, safety);
+      const ingredientText = (productResult.ingredients || []).join(", ");
 
-      const analysisResult = groceryService.toAnalysisResult(product, safety);
+      if (!ingredientText) {
+        Alert.alert(
+          "No Ingredients Listed",
+          "We found this product but not its ingredients. Scan the ingredients label with the main scanner instead.",
+          [{ text: "OK" }],
+        );
+        return;
+      }
 
       navigation.navigate("Results", {
-        analysisResult,
+        analysisResult: {
+          ...productResult,
+          ...analyzeLabelText(ingredientText, profiles),
+          productData: {
+            asOf: cached.fetchedAt,
+            fromCache: cached.fromCache,
+            barcode: toGtin14(upc) ?? upc,
+            source: "grocery",
+          },
+        },
       });
     } catch (error) {
       console.error("Grocery scan error:", error);
       Alert.alert(
         "Scan Error",
         "Failed to process the barcode. Please try again.",
-        [{ text: "OK" }]
+        [{ text: "OK" }],
       );
     } finally {
       setIsProcessing(false);
@@ -262,7 +209,9 @@ export default function GroceryScanScreen() {
         barcodeScannerSettings={{
           barcodeTypes: ["upc_a", "upc_e", "ean13", "ean8", "code128"],
         }}
-        onBarcodeScanned={isProcessing ? undefined : handleBarcodeScanned}
+        onBarcodeScanned={
+          isProcessing || !canScan ? undefined : handleBarcodeScanned
+        }
       >
         <View style={[styles.overlay, { paddingTop: insets.top }]}>
           <View style={styles.header}>
@@ -282,7 +231,9 @@ export default function GroceryScanScreen() {
             <ThemedText
               style={[styles.scanHint, { color: "rgba(255,255,255,0.9)" }]}
             >
-              Point your camera at a product barcode
+              {canScan
+                ? "Point your camera at a product barcode"
+                : "Loading profiles…"}
             </ThemedText>
           </View>
 
@@ -0,0 +1,343 @@
+import React, { useState } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Share,
+  Alert,
+} from "react-native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { Ionicons, Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ResultCard } from "@/components/ResultCard";
+import { IngredientHighlighter } from "@/components/IngredientHighlighter";
+import { UnsafeIssuesModal } from "@/components/UnsafeIssuesModal";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { HistoryStackParamList } from "@/navigation/HistoryStackNavigator";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { RuleAnalysisResult, analyzeLabelText } from "@/services/labelRules";
+import {
+  getScanKind,
+  getStoredLabelText,
+  toStoredAnalysis,
+} from "@/services/historyRecords";
+import { formatScanDate } from "@/services/scanHistory";
+
+type HistoryDetailRouteProp = RouteProp<HistoryStackParamList, "HistoryDetail">;
+
+function buildShareMessage(
+  title: string,
+  date: string,
+  analysis: RuleAnalysisResult,
+): string {
+  const lines = [`${title} (scanned ${date})`, ""];
+
+  for (const result of analysis.results) {
+    const issues = [
+      ...result.matchedAllergens,
+      ...result.matchedKeywords,
+      ...result.matchedPreferences,
+      ...(result.advisories || []).map((a) => `may contain ${a.allergen}`),
+      ...(result.ageGuidance || []).map((g) => `age guidance: ${g.label}`),
+    ];
+    const status = result.status.toUpperCase();
+    lines.push(
+      issues.length > 0
+        ? `${result.name}: ${status} (${issues.join(", ")})`
+        : `${result.name}: ${status}`,
+    );
+  }
+
+  if (analysis.ingredients.length > 0) {
+    lines.push("", `Ingredients: ${analysis.ingredients.join(", ")}`);
+  }
+  lines.push("", "Checked with Appergy. Always verify ingredients manually.");
+
+  return lines.join("\n");
+}
+
+export default function HistoryDetailScreen() {
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const navigation = useNavigation<any>();
+  const route = useRoute<HistoryDetailRouteProp>();
+  const { profiles } = useHouseholdProfiles();
+
+  const { scan } = route.params;
+  const storedAnalysis = toStoredAnalysis(scan);
+
+  const [recheckedAnalysis, setRecheckedAnalysis] =
+    useState<RuleAnalysisResult | null>(null);
+  const [showUnsafeModal, setShowUnsafeModal] = useState(false);
+
+  const analysis = recheckedAnalysis ?? storedAnalysis;
+  const title =
+    scan.productName ||
+    (scan.type === "barcode" ? "Product Scan" : "Menu/Label Scan");
+  const scanDate = formatScanDate(scan.timestamp);
+
+  const profileNames: Record<string, string> = Object.fromEntries(
+    (analysis?.results || []).map((r) => [r.profileId, r.name]),
+  );
+  const hasIssues = (analysis?.results || []).some((r) => r.status !== "safe");
+
+  const handleRescan = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const kind = getScanKind(scan);
+    if (kind === "grocery") {
+      navigation.navigate("ScanTab", { screen: "GroceryScan" });
+    } else {
+      navigation.navigate("ScanTab", {
+        screen: "Scan",
+        params: { mode: kind === "barcode" ? "barcode" : "camera" },
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const message = analysis
+      ? buildShareMessage(title, scanDate, analysis)
+      : `${title} (scanned ${scanDate})\n\nIngredients: ${scan.ingredients.join(", ")}`;
+
+    try {
+      await Share.share({ message });
+    } catch (error) {
+      console.error("Error sharing scan:", error);
+    }
+  };
+
+  const handleRecheck = () => {
+    // Current versions of the profiles this scan was checked for; scans of
+    // profiles that no longer exist are checked for the whole household
+    const scanProfileIds = (storedAnalysis?.results || []).map(
+      (r) => r.profileId,
+    );
+    const matching = profiles.filter((p) => scanProfileIds.includes(p.id));
+    const recheckProfiles = matching.length > 0 ? matching : profiles;
+
+    if (recheckProfiles.length === 0) {
+      Alert.alert(
+        "Profiles Unavailable",
+        "Your profiles could not be loaded. Please try again.",
+      );
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setRecheckedAnalysis({
+      ...analyzeLabelText(getStoredLabelText(scan), recheckProfiles),
+      productData: scan.productData,
+    });
+  };
+
+  const handleLogReaction = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("ReactionDiary", { scan });
+  };
+
+  const handleShowSaved = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setRecheckedAnalysis(null);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing["3xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        <ThemedText style={styles.title}>{title}</ThemedText>
+        <ThemedText style={[styles.meta, { color: AppColors.secondaryText }]}>
+          Scanned {scanDate}
+          {scan.textCorrection ? " · Text corrected" : ""}
+        </ThemedText>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleRescan}>
+            <Ionicons name="camera-outline" size={20} color={AppColors.text} />
+            <ThemedText style={styles.actionText}>Rescan</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleShare}>
+            <Feather name="share" size={18} color={AppColors.text} />
+            <ThemedText style={styles.actionText}>Share</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleRecheck}>
+            <Feather name="refresh-cw" size={18} color={AppColors.text} />
+            <ThemedText style={styles.actionText}>Re-check</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {recheckedAnalysis ? (
+          <View style={styles.recheckBanner}>
+            <Ionicons
+              name="information-circle"
+              size={18}
+              color={AppColors.primary}
+            />
+            <ThemedText style={styles.recheckText}>
+              Showing results for your current profiles.
+            </ThemedText>
+            <TouchableOpacity onPress={handleShowSaved}>
+              <ThemedText style={styles.recheckLink}>Show saved</ThemedText>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {scan.ingredients.length > 0 ? (
+          <IngredientHighlighter
+            rawText={analysis?.rawText ?? scan.ingredients.join(", ")}
+            matchedIngredients={analysis?.matchedIngredients || []}
+            profileNames={profileNames}
+            isCorrected={!!scan.textCorrection}
+          />
+        ) : null}
+
+        <ThemedText style={styles.sectionTitle}>Profile Results</ThemedText>
+        {analysis ? (
+          <View style={styles.resultsContainer}>
+            {analysis.results.map((result) => (
+              <ResultCard key={result.profileId} result={result} />
+            ))}
+          </View>
+        ) : (
+          <ThemedText
+            style={[styles.sectionSubtitle, { color: AppColors.secondaryText }]}
+          >
+            Per-profile results were not saved with this scan. Tap Re-check to
+            check it against your current profiles.
+          </ThemedText>
+        )}
+
+        {hasIssues ? (
+          <TouchableOpacity
+            style={styles.issuesLink}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setShowUnsafeModal(true);
+            }}
+          >
+            <Ionicons name="warning" size={16} color={AppColors.destructive} />
+            <ThemedText style={styles.issuesLinkText}>
+              Review all issues
+            </ThemedText>
+          </TouchableOpacity>
+        ) : null}
+
+        <TouchableOpacity style={styles.issuesLink} onPress={handleLogReaction}>
+          <Feather name="activity" size={16} color={AppColors.primary} />
+          <ThemedText style={styles.reactionLinkText}>
+            Log a reaction to this food
+          </ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {analysis ? (
+        <UnsafeIssuesModal
+          visible={showUnsafeModal}
+          onClose={() => setShowUnsafeModal(false)}
+          results={analysis.results}
+          matchedIngredients={analysis.matchedIngredients}
+          fullIngredients={analysis.ingredients}
+          isFamilyChecked={analysis.results.length > 1}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.lg,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  recheckBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.primary + "20",
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  recheckText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  recheckLink: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.md,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  resultsContainer: {
+    gap: Spacing.md,
+  },
+  issuesLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  issuesLinkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.destructive,
+  },
+  reactionLinkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import {
   View,
   StyleSheet,
@@ -6,108 +6,179 @@ import {
   TouchableOpacity,
   RefreshControl,
   ActivityIndicator,
+  Alert,
+  TextInput,
+  ScrollView,
+  Modal,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
-import { Ionicons } from "@expo/vector-icons";
-import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons, Feather } from "@expo/vector-icons";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import * as Haptics from "expo-haptics";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  runOnJS,
+} from "react-native-reanimated";
 
 import { ThemedText } from "@/components/ThemedText";
+import { ExportHistoryModal } from "@/components/ExportHistoryModal";
+import { DateRangeFields } from "@/components/DateRangeFields";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/contexts/AuthContext";
+import { HistoryStackParamList } from "@/navigation/HistoryStackNavigator";
+import { formatScanDate } from "@/services/scanHistory";
 import {
-  getScanHistory,
-  ScanHistoryItem,
-  formatScanDate,
-} from "@/services/scanHistory";
+  EMPTY_HISTORY_FILTERS,
+  HistoryFilters,
+  ScanKind,
+  ScanVerdict,
+  StoredScan,
+  deleteScanFromHistory,
+  describeDateRange,
+} from "@/services/historyRecords";
+import { useScanHistory } from "@/hooks/useScanHistory";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+
+const DELETE_THRESHOLD = -80;
+const UNDO_TIMEOUT_MS = 5000;
 
 interface HistoryCardProps {
-  item: ScanHistoryItem;
+  item: StoredScan;
   onPress: () => void;
+  /** Leave out to turn off swipe-to-delete. */
+  onDelete?: () => void;
 }
 
-function HistoryCard({ item, onPress }: HistoryCardProps) {
+function HistoryCard({ item, onPress, onDelete }: HistoryCardProps) {
   const hasUnsafe = item.unsafeCount > 0;
   const statusColor = hasUnsafe ? AppColors.destructive : AppColors.success;
   const statusIcon = hasUnsafe ? "warning" : "checkmark-circle";
 
+  const translateX = useSharedValue(0);
+
+  const panGesture = Gesture.Pan()
+    .enabled(onDelete !== undefined)
+    .activeOffsetX([-10, 10])
+    .onUpdate((event) => {
+      if (event.translationX < 0) {
+        translateX.value = Math.max(event.translationX, -120);
+      }
+    })
+    .onEnd(() => {
+      if (onDelete && translateX.value < DELETE_THRESHOLD) {
+        runOnJS(onDelete)();
+      }
+      translateX.value = withSpring(0);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }],
+  }));
+
   return (
-    <TouchableOpacity
-      style={[styles.card, { backgroundColor: AppColors.surface }]}
-      onPress={onPress}
-      activeOpacity={0.7}
-    >
-      <View style={styles.cardHeader}>
-        <View
-          style={[styles.iconCircle, { backgroundColor: statusColor + "20" }]}
-        >
-          <Ionicons name={statusIcon} size={24} color={statusColor} />
+    <View style={styles.cardContainer}>
+      {onDelete ? (
+        <View style={styles.deleteBackground}>
+          <Ionicons name="trash-outline" size={24} color="#fff" />
+          <ThemedText style={styles.deleteText}>Delete</ThemedText>
         </View>
-        <View style={styles.cardInfo}>
-          <ThemedText style={styles.cardTitle} numberOfLines={1}>
-            {item.productName ||
-              (item.type === "barcode" ? "Product Scan" : "Menu/Label Scan")}
-          </ThemedText>
-          <ThemedText
-            style={[styles.cardMeta, { color: AppColors.secondaryText }]}
+      ) : null}
+      <GestureDetector gesture={panGesture}>
+        <Animated.View style={animatedStyle}>
+          <TouchableOpacity
+            style={[styles.card, { backgroundColor: AppColors.surface }]}
+            onPress={onPress}
+            activeOpacity={0.7}
           >
-            {formatScanDate(item.timestamp)} • {item.ingredients.length}{" "}
-            ingredients
-          </ThemedText>
-        </View>
-        <View style={styles.cardStatus}>
-          <View style={styles.statusBadges}>
-            <View
-              style={[
-                styles.badge,
-                { backgroundColor: AppColors.success + "20" },
-              ]}
-            >
-              <ThemedText
-                style={[styles.badgeText, { color: AppColors.success }]}
-              >
-                {item.safeCount}
-              </ThemedText>
-            </View>
-            {item.unsafeCount > 0 ? (
+            <View style={styles.cardHeader}>
               <View
                 style={[
-                  styles.badge,
-                  { backgroundColor: AppColors.destructive + "20" },
+                  styles.iconCircle,
+                  { backgroundColor: statusColor + "20" },
                 ]}
               >
+                <Ionicons name={statusIcon} size={24} color={statusColor} />
+              </View>
+              <View style={styles.cardInfo}>
+                <ThemedText style={styles.cardTitle} numberOfLines={1}>
+                  {item.productName ||
+                    (item.type === "barcode"
+                      ? "Product Scan"
+                      : "Menu/Label Scan")}
+                </ThemedText>
                 <ThemedText
-                  style={[styles.badgeText, { color: AppColors.destructive }]}
+                  style={[styles.cardMeta, { color: AppColors.secondaryText }]}
                 >
-                  {item.unsafeCount}
+                  {formatScanDate(item.timestamp)} • {item.ingredients.length}{" "}
+                  ingredients
                 </ThemedText>
               </View>
-            ) : null}
-          </View>
-        </View>
-      </View>
+              <View style={styles.cardStatus}>
+                <View style={styles.statusBadges}>
+                  <View
+                    style={[
+                      styles.badge,
+                      { backgroundColor: AppColors.success + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[styles.badgeText, { color: AppColors.success }]}
+                    >
+                      {item.safeCount}
+                    </ThemedText>
+                  </View>
+                  {item.unsafeCount > 0 ? (
+                    <View
+                      style={[
+                        styles.badge,
+                        { backgroundColor: AppColors.destructive + "20" },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.badgeText,
+                          { color: AppColors.destructive },
+                        ]}
+                      >
+                        {item.unsafeCount}
+                      </ThemedText>
+                    </View>
+                  ) : null}
+                </View>
+              </View>
+            </View>
 
-      {item.ingredients.length > 0 ? (
-        <View style={styles.ingredientsPreview}>
-          <ThemedText
-            style={[styles.ingredientsText, { color: AppColors.secondaryText }]}
-            numberOfLines={1}
-          >
-            {item.ingredients.slice(0, 5).join(", ")}
-            {item.ingredients.length > 5
-              ? ` +${item.ingredients.length - 5} more`
-              : ""}
-          </ThemedText>
-        </View>
-      ) : null}
-    </TouchableOpacity>
+            {item.ingredients.length > 0 ? (
+              <View style={styles.ingredientsPreview}>
+                <ThemedText
+                  style={[
+                    styles.ingredientsText,
+                    { color: AppColors.secondaryText },
+                  ]}
+                  numberOfLines={1}
+                >
+                  {item.ingredients.slice(0, 5).join(", ")}
+                  {item.ingredients.length > 5
+                    ? ` +${item.ingredients.length - 5} more`
+                    : ""}
+                </ThemedText>
+              </View>
+            ) : null}
+          </TouchableOpacity>
+        </Animated.View>
+      </GestureDetector>
+    </View>
   );
 }
 
-function EmptyState() {
+function EmptyState({ isFiltered }: { isFiltered: boolean }) {
   return (
     <View style={styles.emptyState}>
       <View
@@ -118,12 +189,15 @@ function EmptyState() {
       >
         <Ionicons name="time-outline" size={48} color={AppColors.primary} />
       </View>
-      <ThemedText style={styles.emptyTitle}>No Scan History</ThemedText>
+      <ThemedText style={styles.emptyTitle}>
+        {isFiltered ? "No Matching Scans" : "No Scan History"}
+      </ThemedText>
       <ThemedText
         style={[styles.emptyDescription, { color: AppColors.secondaryText }]}
       >
-        Your scanned food labels and menus will appear here. Start scanning to
-        check for allergens!
+        {isFiltered
+          ? "Try adjusting your search or filters."
+          : "Your scanned food labels and menus will appear here. Start scanning to check for allergens!"}
       </ThemedText>
     </View>
   );
@@ -173,82 +247,235 @@ function ErrorState({ onRetry }: { onRetry: () => void }) {
   );
 }
 
+type FilterPicker = "verdict" | "kind" | "profileId" | "dateRange";
+type OptionPicker = Exclude<FilterPicker, "dateRange">;
+
+const VERDICT_OPTIONS: { label: string; value: ScanVerdict | null }[] = [
+  { label: "All Results", value: null },
+  { label: "Safe", value: "safe" },
+  { label: "Caution", value: "caution" },
+  { label: "Unsafe", value: "unsafe" },
+];
+
+const KIND_OPTIONS: { label: string; value: ScanKind | null }[] = [
+  { label: "All Types", value: null },
+  { label: "Barcode", value: "barcode" },
+  { label: "Label", value: "label" },
+  { label: "Menu", value: "menu" },
+  { label: "Grocery", value: "grocery" },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function HistoryScreen() {
   useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
-  const { user } = useAuth();
-
-  const [history, setHistory] = useState<ScanHistoryItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const loadHistory = useCallback(
-    async (showLoader = true) => {
-      if (!user) {
-        setHistory([]);
-        setIsLoading(false);
-        return;
-      }
+  const { isDemoMode, householdId, householdRole } = useAuth();
+  // Only parents can delete scans; firestore.rules enforces it
+  const canDelete = householdRole === "parent";
+  const { profiles } = useHouseholdProfiles();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<HistoryStackParamList>>();
 
-      if (showLoader) setIsLoading(true);
-      setError(null);
-
-      try {
-        const items = await getScanHistory(user.uid);
-        setHistory(items);
-      } catch (err) {
-        console.error("Error loading history:", err);
-        setError("Failed to load history");
-      } finally {
-        setIsLoading(false);
-        setIsRefreshing(false);
-      }
-    },
-    [user],
-  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [openPicker, setOpenPicker] = useState<FilterPicker | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+
+  const {
+    scans,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    isRefreshing,
+    error,
+    reload,
+    loadMore,
+  } = useScanHistory(filters);
+
+  // A swiped-away scan is only deleted once its undo window has passed
+  const [pendingDelete, setPendingDelete] = useState<StoredScan | null>(null);
+  const pendingDeleteRef = useRef<StoredScan | null>(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) =>
+        prev.search === searchQuery ? prev : { ...prev, search: searchQuery },
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   useFocusEffect(
     useCallback(() => {
-      loadHistory();
-    }, [loadHistory]),
+      reload();
+    }, [reload]),
   );
 
   const handleRefresh = useCallback(() => {
-    setIsRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    loadHistory(false);
-  }, [loadHistory]);
+    reload("refresh");
+  }, [reload]);
+
+  const commitDelete = useCallback(() => {
+    const pending = pendingDeleteRef.current;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    undoTimer.current = null;
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+    if (!pending || !householdId) return;
+
+    deleteScanFromHistory(householdId, pending.id, isDemoMode)
+      .then(() => reload("refresh"))
+      .catch((err) => {
+        console.error("Error deleting scan:", err);
+        Alert.alert("Error", "Failed to delete scan. Please try again.");
+      });
+  }, [householdId, isDemoMode, reload]);
+
+  // The timer and the unmount cleanup call the latest commitDelete, which
+  // changes with the filters
+  const commitDeleteRef = useRef(commitDelete);
+  useEffect(() => {
+    commitDeleteRef.current = commitDelete;
+  }, [commitDelete]);
+
+  // Leaving the screen ends the undo window
+  useEffect(() => () => commitDeleteRef.current(), []);
+
+  const handleDelete = (item: StoredScan) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    commitDelete();
+
+    pendingDeleteRef.current = item;
+    setPendingDelete(item);
+    undoTimer.current = setTimeout(
+      () => commitDeleteRef.current(),
+      UNDO_TIMEOUT_MS,
+    );
+  };
+
+  const handleUndo = () => {
+    if (!pendingDeleteRef.current) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    undoTimer.current = null;
+    pendingDeleteRef.current = null;
+    setPendingDelete(null);
+  };
+
+  const handleItemPress = (item: StoredScan) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("HistoryDetail", { scan: item });
+  };
 
-  const handleItemPress = (item: ScanHistoryItem) => {
+  const handleSelectFilter = <K extends OptionPicker>(
+    key: K,
+    value: HistoryFilters[K],
+  ) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setOpenPicker(null);
   };
 
-  const renderItem = ({ item }: { item: ScanHistoryItem }) => (
-    <HistoryCard item={item} onPress={() => handleItemPress(item)} />
+  const memberOptions: { label: string; value: string | null }[] = [
+    { label: "Everyone", value: null },
+    ...profiles.map((p) => ({ label: p.name, value: p.id })),
+  ];
+
+  const pickerOptions: Record<
+    OptionPicker,
+    { title: string; options: { label: string; value: unknown }[] }
+  > = {
+    verdict: { title: "Result", options: VERDICT_OPTIONS },
+    kind: { title: "Scan Type", options: KIND_OPTIONS },
+    profileId: { title: "Affected Member", options: memberOptions },
+  };
+
+  const dateRangeLabel = describeDateRange(filters.dateRange);
+
+  const labelFor = (key: FilterPicker) =>
+    key === "dateRange"
+      ? (dateRangeLabel ?? "Any Time")
+      : (pickerOptions[key].options.find((o) => o.value === filters[key])
+          ?.label ?? pickerOptions[key].options[0].label);
+
+  const isFiltered =
+    filters.search.trim().length > 0 ||
+    filters.verdict !== null ||
+    filters.kind !== null ||
+    filters.profileId !== null ||
+    dateRangeLabel !== null;
+
+  const visibleScans = scans.filter((scan) => scan.id !== pendingDelete?.id);
+
+  const renderItem = ({ item }: { item: StoredScan }) => (
+    <HistoryCard
+      item={item}
+      onPress={() => handleItemPress(item)}
+      onDelete={canDelete ? () => handleDelete(item) : undefined}
+    />
   );
 
+  const renderFilterChip = (key: FilterPicker) => {
+    const isActive =
+      key === "dateRange" ? dateRangeLabel !== null : filters[key] !== null;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.filterChip,
+          {
+            backgroundColor: isActive
+              ? AppColors.primary
+              : AppColors.surfaceSecondary,
+          },
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setOpenPicker(key);
+        }}
+      >
+        <ThemedText
+          style={[
+            styles.filterChipText,
+            { color: isActive ? "#fff" : AppColors.text },
+          ]}
+        >
+          {labelFor(key)}
+        </ThemedText>
+        <Ionicons
+          name="chevron-down"
+          size={14}
+          color={isActive ? "#fff" : AppColors.secondaryText}
+        />
+      </TouchableOpacity>
+    );
+  };
+
   const renderContent = () => {
     if (isLoading) {
       return <LoadingState />;
     }
 
     if (error) {
-      return <ErrorState onRetry={() => loadHistory()} />;
+      return <ErrorState onRetry={() => reload()} />;
     }
 
-    if (history.length === 0) {
-      return <EmptyState />;
+    if (visibleScans.length === 0) {
+      return <EmptyState isFiltered={isFiltered} />;
     }
 
     return (
       <FlatList
-        data={history}
+        data={visibleScans}
         renderItem={renderItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={{
-          paddingTop: headerHeight + Spacing.lg,
+          paddingTop: Spacing.sm,
           paddingBottom: tabBarHeight + Spacing["3xl"],
           paddingHorizontal: Spacing.lg,
         }}
@@ -260,6 +487,18 @@ export default function HistoryScreen() {
             tintColor={AppColors.primary}
           />
         }
+        onEndReached={() => {
+          if (hasMore) loadMore();
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoadingMore ? (
+            <ActivityIndicator
+              style={styles.footerLoader}
+              color={AppColors.primary}
+            />
+          ) : null
+        }
         ItemSeparatorComponent={() => <View style={{ height: Spacing.md }} />}
       />
     );
@@ -267,7 +506,171 @@ export default function HistoryScreen() {
 
   return (
     <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <View
+        style={[styles.filterBar, { paddingTop: headerHeight + Spacing.md }]}
+      >
+        <View style={styles.searchRow}>
+          <View
+            style={[styles.searchBar, { backgroundColor: AppColors.surface }]}
+          >
+            <Feather name="search" size={18} color={AppColors.secondaryText} />
+            <TextInput
+              style={[styles.searchInput, { color: AppColors.text }]}
+              placeholder="Search products and ingredients..."
+              placeholderTextColor={AppColors.secondaryText}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCorrect={false}
+            />
+            {searchQuery.length > 0 ? (
+              <TouchableOpacity onPress={() => setSearchQuery("")}>
+                <Ionicons
+                  name="close-circle"
+                  size={18}
+                  color={AppColors.secondaryText}
+                />
+              </TouchableOpacity>
+            ) : null}
+          </View>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              { backgroundColor: AppColors.surface },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setShowExportModal(true);
+            }}
+          >
+            <Feather name="share" size={18} color={AppColors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              { backgroundColor: AppColors.surface },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              navigation.navigate("ReactionDiary");
+            }}
+          >
+            <Feather name="activity" size={18} color={AppColors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterContainer}
+        >
+          {renderFilterChip("verdict")}
+          {renderFilterChip("kind")}
+          {renderFilterChip("profileId")}
+          {renderFilterChip("dateRange")}
+        </ScrollView>
+      </View>
+
       {renderContent()}
+
+      {pendingDelete ? (
+        <View
+          style={[
+            styles.undoBar,
+            {
+              bottom: tabBarHeight + Spacing.md,
+              backgroundColor: AppColors.surfaceSecondary,
+            },
+          ]}
+        >
+          <ThemedText style={styles.undoText}>Scan deleted</ThemedText>
+          <TouchableOpacity onPress={handleUndo}>
+            <ThemedText
+              style={[styles.undoAction, { color: AppColors.primary }]}
+            >
+              Undo
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
+      <ExportHistoryModal
+        visible={showExportModal}
+        onClose={() => setShowExportModal(false)}
+      />
+
+      <Modal
+        visible={openPicker !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setOpenPicker(null)}
+      >
+        <TouchableOpacity
+          style={styles.pickerOverlay}
+          activeOpacity={1}
+          onPress={() => setOpenPicker(null)}
+        >
+          {openPicker === "dateRange" ? (
+            <View
+              style={[
+                styles.pickerContent,
+                { backgroundColor: AppColors.surface },
+              ]}
+            >
+              <ThemedText style={styles.pickerTitle}>Date</ThemedText>
+              <View style={styles.pickerDateRange}>
+                <DateRangeFields
+                  value={filters.dateRange}
+                  onChange={(dateRange) =>
+                    setFilters((prev) => ({ ...prev, dateRange }))
+                  }
+                />
+              </View>
+            </View>
+          ) : openPicker ? (
+            <View
+              style={[
+                styles.pickerContent,
+                { backgroundColor: AppColors.surface },
+              ]}
+            >
+              <ThemedText style={styles.pickerTitle}>
+                {pickerOptions[openPicker].title}
+              </ThemedText>
+              {pickerOptions[openPicker].options.map((option) => {
+                const isSelected = filters[openPicker] === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={styles.pickerOption}
+                    onPress={() =>
+                      handleSelectFilter(
+                        openPicker,
+                        option.value as HistoryFilters[typeof openPicker],
+                      )
+                    }
+                  >
+                    <ThemedText
+                      style={[
+                        styles.pickerOptionText,
+                        isSelected && { color: AppColors.primary },
+                      ]}
+                    >
+                      {option.label}
+                    </ThemedText>
+                    {isSelected ? (
+                      <Ionicons
+                        name="checkmark"
+                        size={20}
+                        color={AppColors.primary}
+                      />
+                    ) : null}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : null}
+        </TouchableOpacity>
+      </Modal>
     </View>
   );
 }
@@ -276,6 +679,27 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  cardContainer: {
+    position: "relative",
+  },
+  deleteBackground: {
+    position: "absolute",
+    right: 0,
+    top: 0,
+    bottom: 0,
+    width: 100,
+    backgroundColor: AppColors.destructive,
+    borderRadius: BorderRadius.md,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+  },
+  deleteText: {
+    color: "#fff",
+    fontWeight: "600",
+    fontSize: 13,
+  },
   card: {
     borderRadius: BorderRadius.md,
     padding: Spacing.lg,
@@ -375,4 +799,101 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  undoBar: {
+    position: "absolute",
+    left: Spacing.lg,
+    right: Spacing.lg,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  undoText: {
+    fontSize: 14,
+  },
+  undoAction: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  filterBar: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  searchRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  exportButton: {
+    width: 44,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: BorderRadius.md,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 4,
+  },
+  filterContainer: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+    paddingRight: Spacing.md,
+  },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  footerLoader: {
+    paddingVertical: Spacing.lg,
+  },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    padding: Spacing.xl,
+  },
+  pickerContent: {
+    borderRadius: BorderRadius.lg,
+    paddingVertical: Spacing.md,
+  },
+  pickerTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
+  pickerOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  pickerOptionText: {
+    fontSize: 15,
+  },
+  pickerDateRange: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+  },
 });
@@ -1,22 +1,73 @@
-import React from "react";
+import React, { useCallback, useState } from "react";
 import { View, StyleSheet, TouchableOpacity, Image } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { Feather, Ionicons } from "@expo/vector-icons";
-import { useNavigation } from "@react-navigation/native";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  StoredScan,
+  ScanVerdict,
+  getScanVerdict,
+} from "@/services/historyRecords";
+import { formatScanDate } from "@/services/scanHistory";
+import {
+  ScanInsights,
+  computeScanInsights,
+  getInsightScans,
+} from "@/services/scanInsights";
+
+const VERDICT_ICONS: Record<
+  ScanVerdict,
+  { name: "checkmark-circle" | "warning" | "close-circle"; color: string }
+> = {
+  safe: { name: "checkmark-circle", color: AppColors.success },
+  caution: { name: "warning", color: AppColors.warning },
+  unsafe: { name: "close-circle", color: AppColors.destructive },
+};
+
+function scanTitle(scan: StoredScan): string {
+  return (
+    scan.productName ||
+    (scan.type === "barcode" ? "Product Scan" : "Menu/Label Scan")
+  );
+}
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<any>();
+  const { isDemoMode, householdId } = useAuth();
+  const [insights, setInsights] = useState<ScanInsights | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!householdId) return;
+
+      let isActive = true;
+      getInsightScans(householdId, isDemoMode)
+        .then((scans) => {
+          if (isActive) setInsights(computeScanInsights(scans));
+        })
+        .catch((error) => {
+          console.error("Error loading scan insights:", error);
+        });
+
+      return () => {
+        isActive = false;
+      };
+    }, [householdId, isDemoMode]),
+  );
+
+  const hasHistory = !!insights && insights.recentScans.length > 0;
 
   const handleNearbyRestaurants = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -41,6 +92,26 @@ export default function HomeScreen() {
     });
   };
 
+  const handleOpenScan = (scan: StoredScan) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate("HistoryTab", {
+      screen: "HistoryDetail",
+      params: { scan },
+    });
+  };
+
+  const handleRescanLast = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    if (insights?.lastProduct?.productData?.source === "grocery") {
+      navigation.navigate("ScanTab", { screen: "GroceryScan" });
+    } else {
+      navigation.navigate("ScanTab", {
+        screen: "Scan",
+        params: { mode: "barcode" },
+      });
+    }
+  };
+
   const handleFindRecipes = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     navigation.navigate("RecipesTab");
@@ -57,20 +128,152 @@ export default function HomeScreen() {
       }}
       scrollIndicatorInsets={{ bottom: insets.bottom }}
     >
-      <View style={styles.header}>
-        <Image
-          source={require("../../assets/images/login-logo.png")}
-          style={styles.logo}
-          resizeMode="contain"
-        />
-        <ThemedText style={styles.title}>Welcome to Appergy</ThemedText>
-        <ThemedText
-          style={[styles.description, { color: AppColors.secondaryText }]}
-        >
-          Scan food labels and menus to check for allergens. Your safety is our
-          priority.
-        </ThemedText>
-      </View>
+      {insights && hasHistory ? (
+        <View style={styles.dashboard}>
+          <View style={styles.statsRow}>
+            <View
+              style={[styles.statCard, { backgroundColor: AppColors.surface }]}
+            >
+              <ThemedText style={styles.statNumber}>
+                {insights.scansThisMonth}
+              </ThemedText>
+              <ThemedText
+                style={[styles.statLabel, { color: AppColors.secondaryText }]}
+              >
+                Scans this month
+              </ThemedText>
+            </View>
+            <View
+              style={[styles.statCard, { backgroundColor: AppColors.surface }]}
+            >
+              <ThemedText
+                style={[styles.statNumber, { color: AppColors.destructive }]}
+              >
+                {insights.unsafeThisMonth}
+              </ThemedText>
+              <ThemedText
+                style={[styles.statLabel, { color: AppColors.secondaryText }]}
+              >
+                Unsafe items caught
+              </ThemedText>
+            </View>
+          </View>
+
+          {insights.lastProduct ? (
+            <TouchableOpacity
+              style={[
+                styles.actionCard,
+                { backgroundColor: AppColors.surface },
+              ]}
+              onPress={handleRescanLast}
+              activeOpacity={0.7}
+            >
+              <View
+                style={[
+                  styles.actionIcon,
+                  { backgroundColor: AppColors.primary + "20" },
+                ]}
+              >
+                <Ionicons name="refresh" size={28} color={AppColors.primary} />
+              </View>
+              <View style={styles.actionContent}>
+                <ThemedText style={styles.actionTitle}>
+                  Rescan Last Product
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.actionDescription,
+                    { color: AppColors.secondaryText },
+                  ]}
+                  numberOfLines={1}
+                >
+                  {scanTitle(insights.lastProduct)}
+                </ThemedText>
+              </View>
+              <Feather
+                name="chevron-right"
+                size={20}
+                color={AppColors.secondaryText}
+              />
+            </TouchableOpacity>
+          ) : null}
+
+          <ThemedText style={styles.sectionTitle}>Recent Scans</ThemedText>
+          <View
+            style={[styles.recentList, { backgroundColor: AppColors.surface }]}
+          >
+            {insights.recentScans.map((scan) => {
+              const icon = VERDICT_ICONS[getScanVerdict(scan)];
+              return (
+                <TouchableOpacity
+                  key={scan.id}
+                  style={styles.recentRow}
+                  onPress={() => handleOpenScan(scan)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name={icon.name} size={20} color={icon.color} />
+                  <ThemedText style={styles.recentTitle} numberOfLines={1}>
+                    {scanTitle(scan)}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      styles.recentDate,
+                      { color: AppColors.secondaryText },
+                    ]}
+                  >
+                    {formatScanDate(scan.timestamp)}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {insights.topFlagged.length > 0 ? (
+            <>
+              <ThemedText style={styles.sectionTitle}>
+                Most Often Flagged
+              </ThemedText>
+              {insights.topFlagged.map((profile) => (
+                <View
+                  key={profile.profileId}
+                  style={[
+                    styles.flaggedCard,
+                    { backgroundColor: AppColors.surface },
+                  ]}
+                >
+                  <ThemedText style={styles.flaggedName}>
+                    {profile.name}
+                  </ThemedText>
+                  <View style={styles.flaggedChips}>
+                    {profile.ingredients.map((ingredient) => (
+                      <View key={ingredient.name} style={styles.flaggedChip}>
+                        <ThemedText style={styles.flaggedChipText}>
+                          {ingredient.name} ×{ingredient.count}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              ))}
+            </>
+          ) : null}
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <Image
+            source={require("../../assets/images/login-logo.png")}
+            style={styles.logo}
+            resizeMode="contain"
+          />
+          <ThemedText style={styles.title}>Welcome to Appergy</ThemedText>
+          <ThemedText
+            style={[styles.description, { color: AppColors.secondaryText }]}
+          >
+            Scan food labels and menus to check for allergens. Your safety is
+            our priority.
+          </ThemedText>
+        </View>
+      )}
 
       <View style={styles.quickActions}>
         <ThemedText style={styles.sectionTitle}>Quick Actions</ThemedText>
@@ -277,6 +480,70 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     paddingHorizontal: Spacing.lg,
   },
+  dashboard: {
+    marginBottom: Spacing.lg,
+  },
+  statsRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  statCard: {
+    flex: 1,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  statNumber: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  statLabel: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+  },
+  recentList: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  recentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+  recentTitle: {
+    flex: 1,
+    fontSize: 15,
+  },
+  recentDate: {
+    fontSize: 13,
+  },
+  flaggedCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  flaggedName: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: Spacing.sm,
+  },
+  flaggedChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  flaggedChip: {
+    backgroundColor: AppColors.destructive + "20",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+  },
+  flaggedChipText: {
+    fontSize: 13,
+    color: AppColors.destructive,
+  },
   quickActions: {
     flex: 1,
   },
@@ -0,0 +1,540 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { JoinHouseholdForm } from "@/components/JoinHouseholdForm";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { isFirebaseConfigured } from "@/services/firebase";
+import {
+  HOUSEHOLD_ROLES,
+  HOUSEHOLD_ROLE_LABELS,
+  HouseholdInvite,
+  HouseholdMember,
+  HouseholdRole,
+  createInvite,
+  getHouseholdInvites,
+  getHouseholdMembers,
+  leaveHousehold,
+  removeHouseholdMember,
+  revokeInvite,
+} from "@/services/household";
+
+function formatExpiry(date: Date): string {
+  return date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function shareInvite(invite: HouseholdInvite) {
+  Share.share({
+    message: `Join our household on Appergy with the invite code ${invite.code}. It expires on ${formatExpiry(invite.expiresAt)}.`,
+  }).catch((error) => {
+    console.error("Error sharing invite:", error);
+  });
+}
+
+export default function HouseholdScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { user, isDemoMode, householdId, householdRole, refreshUserProfile } =
+    useAuth();
+  const { profiles } = useHouseholdProfiles();
+
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>("member");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
+
+  const isLive = !!user && !isDemoMode && isFirebaseConfigured;
+  const canEdit = householdRole === "parent";
+  const isOwnHousehold = !!user && householdId === user.uid;
+  const ownerName = profiles[0]?.name || "Parent";
+
+  const loadHousehold = useCallback(async () => {
+    if (!isLive || !householdId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [loadedMembers, loadedInvites] = await Promise.all([
+        getHouseholdMembers(householdId),
+        canEdit ? getHouseholdInvites(householdId) : Promise.resolve([]),
+      ]);
+      setMembers(loadedMembers);
+      setInvites(loadedInvites);
+    } catch (error) {
+      console.error("Error loading household:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isLive, householdId, canEdit]);
+
+  useEffect(() => {
+    loadHousehold();
+  }, [loadHousehold]);
+
+  const handleCreateInvite = async () => {
+    if (!user || !householdId) return;
+
+    const email = inviteEmail.trim();
+    if (email && !email.includes("@")) {
+      Alert.alert("Invalid Email", "Please enter a valid email address.");
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsCreatingInvite(true);
+    try {
+      const invite = await createInvite(
+        householdId,
+        `${ownerName}'s household`,
+        user.uid,
+        inviteRole,
+        email || null,
+      );
+      setInvites((prev) => [...prev, invite]);
+      setInviteEmail("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      shareInvite(invite);
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      Alert.alert("Error", "Failed to create the invite. Please try again.");
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const handleRevokeInvite = (invite: HouseholdInvite) => {
+    Alert.alert("Revoke Invite", `Cancel invite ${invite.code}?`, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Revoke",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await revokeInvite(invite.code);
+            setInvites((prev) => prev.filter((i) => i.code !== invite.code));
+          } catch (error) {
+            console.error("Error revoking invite:", error);
+            Alert.alert("Error", "Failed to revoke the invite.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRemoveMember = (member: HouseholdMember) => {
+    if (!householdId) return;
+
+    Alert.alert(
+      "Remove from Household",
+      `${member.name} will no longer see your family's profiles and scan history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await removeHouseholdMember(householdId, member.uid);
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              setMembers((prev) => prev.filter((m) => m.uid !== member.uid));
+            } catch (error) {
+              console.error("Error removing household member:", error);
+              Alert.alert("Error", "Failed to remove this member.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleLeave = () => {
+    if (!user || !householdId) return;
+
+    Alert.alert(
+      "Leave Household",
+      `You will stop seeing ${ownerName}'s family profiles and scan history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Leave",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await leaveHousehold(user.uid, householdId);
+              await refreshUserProfile();
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+            } catch (error) {
+              console.error("Error leaving household:", error);
+              Alert.alert("Error", "Failed to leave the household.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.loadingContainer,
+          { backgroundColor: AppColors.background },
+        ]}
+      >
+        <ActivityIndicator size="large" color={AppColors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <KeyboardAwareScrollViewCompat
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.xl,
+          paddingBottom: insets.bottom + Spacing["4xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+      >
+        <ThemedText style={styles.description}>
+          Everyone in a household sees the same family profiles and scan
+          history. Parents can change the profiles; members can scan.
+        </ThemedText>
+
+        {!isLive ? (
+          <ThemedText
+            style={[styles.emptyText, { color: AppColors.secondaryText }]}
+          >
+            Sign in with an account to share your household.
+          </ThemedText>
+        ) : (
+          <>
+            {!isOwnHousehold ? (
+              <View style={styles.joinedCard}>
+                <ThemedText style={styles.joinedText}>
+                  You&apos;re a{" "}
+                  {HOUSEHOLD_ROLE_LABELS[householdRole].toLowerCase()} in{" "}
+                  {ownerName}&apos;s household.
+                </ThemedText>
+                <TouchableOpacity onPress={handleLeave}>
+                  <ThemedText style={styles.leaveText}>
+                    Leave Household
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            ) : null}
+
+            <ThemedText style={styles.sectionTitle}>MEMBERS</ThemedText>
+            <View style={styles.list}>
+              <View style={styles.row}>
+                <Feather name="shield" size={20} color={AppColors.primary} />
+                <View style={styles.rowInfo}>
+                  <ThemedText style={styles.rowTitle}>{ownerName}</ThemedText>
+                  <ThemedText
+                    style={[styles.rowMeta, { color: AppColors.secondaryText }]}
+                  >
+                    Owner
+                  </ThemedText>
+                </View>
+              </View>
+              {members.map((member) => (
+                <View key={member.uid} style={styles.row}>
+                  <Feather
+                    name={member.role === "parent" ? "shield" : "user"}
+                    size={20}
+                    color={AppColors.primary}
+                  />
+                  <View style={styles.rowInfo}>
+                    <ThemedText style={styles.rowTitle}>
+                      {member.name}
+                      {member.uid === user?.uid ? " (you)" : ""}
+                    </ThemedText>
+                    <ThemedText
+                      style={[
+                        styles.rowMeta,
+                        { color: AppColors.secondaryText },
+                      ]}
+                    >
+                      {HOUSEHOLD_ROLE_LABELS[member.role]}
+                      {member.email ? ` · ${member.email}` : ""}
+                    </ThemedText>
+                  </View>
+                  {canEdit && member.uid !== user?.uid ? (
+                    <TouchableOpacity
+                      onPress={() => handleRemoveMember(member)}
+                      style={styles.iconButton}
+                    >
+                      <Feather
+                        name="user-x"
+                        size={18}
+                        color={AppColors.destructive}
+                      />
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              ))}
+            </View>
+
+            {canEdit ? (
+              <>
+                <ThemedText style={styles.sectionTitle}>INVITE</ThemedText>
+                <View style={styles.roleOptions}>
+                  {HOUSEHOLD_ROLES.map((role) => {
+                    const isSelected = role === inviteRole;
+                    return (
+                      <TouchableOpacity
+                        key={role}
+                        style={[
+                          styles.roleChip,
+                          {
+                            backgroundColor: isSelected
+                              ? AppColors.primary
+                              : AppColors.surface,
+                          },
+                        ]}
+                        onPress={() => {
+                          Haptics.impactAsync(
+                            Haptics.ImpactFeedbackStyle.Light,
+                          );
+                          setInviteRole(role);
+                        }}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.roleChipText,
+                            {
+                              color: isSelected
+                                ? AppColors.text
+                                : AppColors.secondaryText,
+                            },
+                          ]}
+                        >
+                          {HOUSEHOLD_ROLE_LABELS[role]}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <ThemedText
+                  style={[styles.hint, { color: AppColors.secondaryText }]}
+                >
+                  {inviteRole === "parent"
+                    ? "Parents can edit profiles and invite others."
+                    : "Members can see profiles and scan, but not edit them."}
+                </ThemedText>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: AppColors.surface,
+                      color: AppColors.text,
+                    },
+                  ]}
+                  placeholder="Email (optional)"
+                  placeholderTextColor={AppColors.secondaryText}
+                  value={inviteEmail}
+                  onChangeText={setInviteEmail}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                />
+                <Button
+                  onPress={handleCreateInvite}
+                  disabled={isCreatingInvite}
+                  style={styles.inviteButton}
+                >
+                  {isCreatingInvite ? "Creating..." : "Create Invite"}
+                </Button>
+
+                {invites.map((invite) => (
+                  <View key={invite.code} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <ThemedText style={styles.inviteCode}>
+                        {invite.code}
+                      </ThemedText>
+                      <ThemedText
+                        style={[
+                          styles.rowMeta,
+                          { color: AppColors.secondaryText },
+                        ]}
+                      >
+                        {HOUSEHOLD_ROLE_LABELS[invite.role]} ·{" "}
+                        {invite.email || "anyone with the code"} · expires{" "}
+                        {formatExpiry(invite.expiresAt)}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => shareInvite(invite)}
+                      style={styles.iconButton}
+                    >
+                      <Feather
+                        name="share"
+                        size={18}
+                        color={AppColors.primary}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleRevokeInvite(invite)}
+                      style={styles.iconButton}
+                    >
+                      <Feather
+                        name="x"
+                        size={18}
+                        color={AppColors.destructive}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            ) : null}
+
+            {isOwnHousehold ? (
+              <>
+                <ThemedText style={styles.sectionTitle}>
+                  JOIN A HOUSEHOLD
+                </ThemedText>
+                <ThemedText
+                  style={[styles.hint, { color: AppColors.secondaryText }]}
+                >
+                  Joining another household shows its profiles and scan history
+                  instead of yours until you leave.
+                </ThemedText>
+                <JoinHouseholdForm />
+              </>
+            ) : null}
+          </>
+        )}
+      </KeyboardAwareScrollViewCompat>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: Spacing.xl,
+  },
+  emptyText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  joinedCard: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    gap: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  joinedText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  leaveText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: AppColors.destructive,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.secondaryText,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  list: {
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 13,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  roleOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  roleChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  roleChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    fontSize: 16,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  inviteButton: {
+    backgroundColor: AppColors.primaryDark,
+    marginBottom: Spacing.xl,
+  },
+  inviteCode: {
+    fontSize: 18,
+    fontWeight: "700",
+    letterSpacing: 2,
+  },
+});
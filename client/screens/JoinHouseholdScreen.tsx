@@ -0,0 +1,114 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { JoinHouseholdForm } from "@/components/JoinHouseholdForm";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { AppColors } from "@/constants/colors";
+import { Spacing } from "@/constants/theme";
+
+type JoinHouseholdNavigationProp = NativeStackNavigationProp<any>;
+
+export default function JoinHouseholdScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation<JoinHouseholdNavigationProp>();
+
+  const handleContinue = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    navigation.navigate("AllergySetup");
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <KeyboardAwareScrollViewCompat
+        style={styles.scrollView}
+        contentContainerStyle={{
+          paddingTop: insets.top + Spacing["3xl"],
+          paddingBottom: insets.bottom + Spacing["4xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+      >
+        <View style={styles.header}>
+          <View
+            style={[
+              styles.headerIcon,
+              { backgroundColor: AppColors.primary + "20" },
+            ]}
+          >
+            <Feather name="home" size={40} color={AppColors.primary} />
+          </View>
+          <ThemedText style={styles.title}>Join Your Household</ThemedText>
+          <ThemedText
+            style={[styles.subtitle, { color: AppColors.secondaryText }]}
+          >
+            Enter the invite code a parent shared with you, or accept an invite
+            sent to your email. You&apos;ll see the family&apos;s profiles and
+            scan history.
+          </ThemedText>
+        </View>
+
+        <JoinHouseholdForm
+          onJoined={() =>
+            navigation.reset({ index: 0, routes: [{ name: "AllergySetup" }] })
+          }
+        />
+      </KeyboardAwareScrollViewCompat>
+
+      <View
+        style={[styles.footer, { paddingBottom: insets.bottom + Spacing.lg }]}
+      >
+        <Button onPress={handleContinue} style={styles.continueButton}>
+          Skip for Now
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  headerIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  footer: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: AppColors.divider,
+    backgroundColor: AppColors.background,
+  },
+  continueButton: {
+    backgroundColor: AppColors.primaryDark,
+  },
+});
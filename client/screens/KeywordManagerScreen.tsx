@@ -11,7 +11,6 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { Feather, Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
-import { doc, getDoc, setDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
@@ -19,6 +18,15 @@ import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { db, isFirebaseConfigured } from "@/services/firebase";
 import { useAuth } from "@/contexts/AuthContext";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { useVerdictChangeReport } from "@/hooks/useVerdictChangeReport";
+import {
+  MAIN_PROFILE_ID,
+  OWN_PROFILE_ID,
+  getForbiddenKeywords,
+  locateProfile,
+  saveForbiddenKeywords,
+} from "@/services/profiles";
 
 const SUGGESTED_KEYWORDS = [
   "MSG",
@@ -38,8 +46,14 @@ const SUGGESTED_KEYWORDS = [
 export default function KeywordManagerScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
-  const { user, isDemoMode, refreshUserProfile } = useAuth();
+  const { user, isDemoMode, householdId, householdRole, refreshUserProfile } =
+    useAuth();
+  const { profiles } = useHouseholdProfiles();
+  const reportVerdictChanges = useVerdictChangeReport();
 
+  const [profileId, setProfileId] = useState(MAIN_PROFILE_ID);
+  // Everyone can edit their own profile's keywords
+  const canEdit = householdRole === "parent" || profileId === OWN_PROFILE_ID;
   const [keywords, setKeywords] = useState<string[]>([]);
   const [newKeyword, setNewKeyword] = useState("");
   const [isLoading, setIsLoading] = useState(true);
@@ -48,40 +62,31 @@ export default function KeywordManagerScreen() {
 
   useEffect(() => {
     loadKeywords();
-  }, [user]);
+  }, [householdId, profileId]);
 
   const loadKeywords = async () => {
     setIsLoading(true);
     setError(null);
 
     if (isDemoMode) {
-      setKeywords(["MSG", "Aspartame", "Artificial Sweetener"]);
+      setKeywords(
+        profileId === MAIN_PROFILE_ID
+          ? ["MSG", "Aspartame", "Artificial Sweetener"]
+          : [],
+      );
       setIsLoading(false);
       return;
     }
 
-    if (!user?.uid || !db || !isFirebaseConfigured) {
+    if (!householdId || !user || !db || !isFirebaseConfigured) {
       setKeywords([]);
       setIsLoading(false);
       return;
     }
 
     try {
-      const docRef = doc(
-        db,
-        "users",
-        user.uid,
-        "settings",
-        "forbiddenKeywords",
-      );
-      const docSnap = await getDoc(docRef);
-
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        setKeywords(data.keywords || []);
-      } else {
-        setKeywords([]);
-      }
+      const stored = locateProfile(householdId, user.uid, profileId);
+      setKeywords(await getForbiddenKeywords(stored.uid, stored.profileId));
     } catch (err: any) {
       console.error("Error loading keywords:", err);
       setError("Failed to load keywords");
@@ -96,24 +101,27 @@ export default function KeywordManagerScreen() {
       return;
     }
 
-    if (!user?.uid || !db || !isFirebaseConfigured) return;
+    if (!householdId || !user || !db || !isFirebaseConfigured) return;
 
     setIsSaving(true);
     try {
-      const docRef = doc(
-        db,
-        "users",
-        user.uid,
-        "settings",
-        "forbiddenKeywords",
+      const stored = locateProfile(householdId, user.uid, profileId);
+      await saveForbiddenKeywords(
+        stored.uid,
+        stored.profileId,
+        updatedKeywords,
       );
-      await setDoc(docRef, {
-        keywords: updatedKeywords,
-        updatedAt: new Date().toISOString(),
-      });
       setKeywords(updatedKeywords);
       // Sync keywords back to AuthContext so scanner picks them up
-      refreshUserProfile();
+      if (stored.profileId === MAIN_PROFILE_ID) refreshUserProfile();
+
+      const profile = profiles.find((p) => p.id === profileId);
+      if (profile) {
+        reportVerdictChanges(
+          { ...profile, forbiddenKeywords: keywords },
+          { ...profile, forbiddenKeywords: updatedKeywords },
+        );
+      }
     } catch (err: any) {
       console.error("Error saving keywords:", err);
       setError("Failed to save keywords");
@@ -170,19 +178,31 @@ export default function KeywordManagerScreen() {
         </View>
         <ThemedText style={styles.keywordText}>{item}</ThemedText>
       </View>
-      <TouchableOpacity
-        style={[
-          styles.deleteButton,
-          { backgroundColor: AppColors.destructive + "20" },
-        ]}
-        onPress={() => handleDeleteKeyword(item)}
-        disabled={isSaving}
-      >
-        <Feather name="trash-2" size={18} color={AppColors.destructive} />
-      </TouchableOpacity>
+      {canEdit ? (
+        <TouchableOpacity
+          style={[
+            styles.deleteButton,
+            { backgroundColor: AppColors.destructive + "20" },
+          ]}
+          onPress={() => handleDeleteKeyword(item)}
+          disabled={isSaving}
+        >
+          <Feather name="trash-2" size={18} color={AppColors.destructive} />
+        </TouchableOpacity>
+      ) : null}
     </View>
   );
 
+  const selectProfile = (id: string) => {
+    if (id === profileId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setNewKeyword("");
+    setProfileId(id);
+  };
+
+  const profileName =
+    profiles.find((p) => p.id === profileId)?.name || "this profile";
+
   const availableSuggestions = SUGGESTED_KEYWORDS.filter(
     (s) => !keywords.some((k) => k.toLowerCase() === s.toLowerCase()),
   );
@@ -226,80 +246,134 @@ export default function KeywordManagerScreen() {
               </ThemedText>
             </View>
 
-            <View style={styles.inputSection}>
-              <View
-                style={[
-                  styles.inputContainer,
-                  { backgroundColor: AppColors.surface },
-                ]}
-              >
-                <TextInput
-                  style={[styles.input, { color: AppColors.text }]}
-                  placeholder="Add keyword (e.g., MSG, Aspartame)"
-                  placeholderTextColor={AppColors.secondaryText}
-                  value={newKeyword}
-                  onChangeText={(text) => {
-                    setNewKeyword(text);
-                    setError(null);
-                  }}
-                  onSubmitEditing={handleAddKeyword}
-                  returnKeyType="done"
-                  autoCapitalize="words"
-                />
-                <TouchableOpacity
-                  style={[
-                    styles.addButton,
-                    { backgroundColor: AppColors.primaryDark },
-                    (!newKeyword.trim() || isSaving) && { opacity: 0.5 },
-                  ]}
-                  onPress={handleAddKeyword}
-                  disabled={!newKeyword.trim() || isSaving}
-                >
-                  {isSaving ? (
-                    <ActivityIndicator size="small" color={AppColors.text} />
-                  ) : (
-                    <Feather name="plus" size={20} color={AppColors.text} />
-                  )}
-                </TouchableOpacity>
-              </View>
-              {error ? (
-                <ThemedText style={styles.errorText}>{error}</ThemedText>
-              ) : null}
-            </View>
-
-            {availableSuggestions.length > 0 ? (
-              <View style={styles.suggestionsSection}>
-                <ThemedText style={styles.suggestionsTitle}>
-                  Suggestions
-                </ThemedText>
-                <View style={styles.suggestionsContainer}>
-                  {availableSuggestions.slice(0, 6).map((suggestion) => (
+            {profiles.length > 1 ? (
+              <View style={styles.profilePicker}>
+                {profiles.map((profile) => {
+                  const isSelected = profile.id === profileId;
+                  return (
                     <TouchableOpacity
-                      key={suggestion}
+                      key={profile.id}
                       style={[
-                        styles.suggestionChip,
-                        { backgroundColor: AppColors.surface },
+                        styles.profileChip,
+                        {
+                          backgroundColor: isSelected
+                            ? AppColors.primary
+                            : AppColors.surface,
+                        },
                       ]}
-                      onPress={() => handleAddSuggested(suggestion)}
-                      disabled={isSaving}
+                      onPress={() => selectProfile(profile.id)}
                     >
-                      <ThemedText style={styles.suggestionText}>
-                        {suggestion}
+                      <ThemedText
+                        style={[
+                          styles.profileChipText,
+                          {
+                            color: isSelected
+                              ? AppColors.text
+                              : AppColors.secondaryText,
+                          },
+                        ]}
+                      >
+                        {profile.name}
                       </ThemedText>
-                      <Feather
-                        name="plus"
-                        size={14}
-                        color={AppColors.primary}
-                      />
                     </TouchableOpacity>
-                  ))}
-                </View>
+                  );
+                })}
               </View>
             ) : null}
 
+            {canEdit ? (
+              <>
+                <View style={styles.inputSection}>
+                  <View
+                    style={[
+                      styles.inputContainer,
+                      { backgroundColor: AppColors.surface },
+                    ]}
+                  >
+                    <TextInput
+                      style={[styles.input, { color: AppColors.text }]}
+                      placeholder="Add keyword (e.g., MSG, Aspartame)"
+                      placeholderTextColor={AppColors.secondaryText}
+                      value={newKeyword}
+                      onChangeText={(text) => {
+                        setNewKeyword(text);
+                        setError(null);
+                      }}
+                      onSubmitEditing={handleAddKeyword}
+                      returnKeyType="done"
+                      autoCapitalize="words"
+                    />
+                    <TouchableOpacity
+                      style={[
+                        styles.addButton,
+                        { backgroundColor: AppColors.primaryDark },
+                        (!newKeyword.trim() || isSaving) && { opacity: 0.5 },
+                      ]}
+                      onPress={handleAddKeyword}
+                      disabled={!newKeyword.trim() || isSaving}
+                    >
+                      {isSaving ? (
+                        <ActivityIndicator
+                          size="small"
+                          color={AppColors.text}
+                        />
+                      ) : (
+                        <Feather name="plus" size={20} color={AppColors.text} />
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                  {error ? (
+                    <ThemedText style={styles.errorText}>{error}</ThemedText>
+                  ) : null}
+                </View>
+
+                {availableSuggestions.length > 0 ? (
+                  <View style={styles.suggestionsSection}>
+                    <ThemedText style={styles.suggestionsTitle}>
+                      Suggestions
+                    </ThemedText>
+                    <View style={styles.suggestionsContainer}>
+                      {availableSuggestions.slice(0, 6).map((suggestion) => (
+                        <TouchableOpacity
+                          key={suggestion}
+                          style={[
+                            styles.suggestionChip,
+                            { backgroundColor: AppColors.surface },
+                          ]}
+                          onPress={() => handleAddSuggested(suggestion)}
+                          disabled={isSaving}
+                        >
+                          <ThemedText style={styles.suggestionText}>
+                            {suggestion}
+                          </ThemedText>
+                          <Feather
+                            name="plus"
+                            size={14}
+                            color={AppColors.primary}
+                          />
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                ) : null}
+              </>
+            ) : (
+              <ThemedText
+                style={[
+                  styles.readOnlyText,
+                  { color: AppColors.secondaryText },
+                ]}
+              >
+                Only parents in your household can change forbidden keywords.
+              </ThemedText>
+            )}
+
             <View style={styles.listHeader}>
               <ThemedText style={styles.listTitle}>
-                Your Keywords ({keywords.length})
+                {profiles.length > 1
+                  ? `${profileName}'s Keywords`
+                  : "Your Keywords"}{" "}
+                ({keywords.length})
               </ThemedText>
             </View>
           </>
@@ -357,6 +431,26 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     paddingHorizontal: Spacing.md,
   },
+  profilePicker: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  profileChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  profileChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  readOnlyText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: Spacing.xl,
+  },
   inputSection: {
     marginBottom: Spacing.xl,
   },
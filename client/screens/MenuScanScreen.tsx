@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef } from "react";
 import {
   View,
   StyleSheet,
@@ -16,7 +16,6 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { doc, getDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
@@ -24,8 +23,7 @@ import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { RestaurantStackParamList } from "@/navigation/RestaurantStackNavigator";
 import { analyzeMenu } from "@/services/ai";
-import { useAuth } from "@/contexts/AuthContext";
-import { db, isFirebaseConfigured } from "@/services/firebase";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
 
 type MenuScanScreenNavigationProp = NativeStackNavigationProp<
   RestaurantStackParamList,
@@ -38,18 +36,11 @@ interface CapturedImage {
   base64: string;
 }
 
-interface UserProfile {
-  allergies: string[];
-  customAllergies: string[];
-  preferences: string[];
-  forbiddenKeywords: string[];
-}
-
 export default function MenuScanScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<MenuScanScreenNavigationProp>();
   const route = useRoute<MenuScanScreenRouteProp>();
-  const { user } = useAuth();
+  const { profiles } = useHouseholdProfiles();
   const [permission, requestPermission] = useCameraPermissions();
   const [facing, setFacing] = useState<"back" | "front">("back");
   const [capturedImage, setCapturedImage] = useState<CapturedImage | null>(
@@ -57,95 +48,10 @@ export default function MenuScanScreen() {
   );
   const [isCapturing, setIsCapturing] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [userProfile, setUserProfile] = useState<UserProfile>({
-    allergies: [],
-    customAllergies: [],
-    preferences: [],
-    forbiddenKeywords: [],
-  });
   const cameraRef = useRef<CameraView>(null);
 
   const restaurantName = route.params?.restaurantName || "Restaurant";
 
-  useEffect(() => {
-    loadUserProfile();
-  }, [user]);
-
-  const loadUserProfile = async () => {
-    if (!user || !isFirebaseConfigured || !db) {
-      // Demo mode - use demo profile data
-      setUserProfile({
-        allergies: ["Dairy", "Peanuts"],
-        customAllergies: [],
-        preferences: ["Vegetarian"],
-        forbiddenKeywords: ["MSG", "Artificial colors"],
-      });
-      return;
-    }
-
-    try {
-      // Load forbidden keywords
-      let forbiddenKeywords: string[] = [];
-      const keywordsRef = doc(
-        db,
-        "users",
-        user.uid,
-        "settings",
-        "forbiddenKeywords",
-      );
-      const keywordsSnap = await getDoc(keywordsRef);
-      if (keywordsSnap.exists()) {
-        forbiddenKeywords = keywordsSnap.data().keywords || [];
-      }
-
-      // Load main profile from Firestore
-      const profileRef = doc(db, "users", user.uid);
-      const profileSnap = await getDoc(profileRef);
-      if (profileSnap.exists()) {
-        const data = profileSnap.data().mainProfile || {};
-
-        // Extract allergies from structured format
-        const allergiesData = data.allergies || {};
-        const commonAllergies = allergiesData.common || [];
-        const customAllergies = allergiesData.custom || [];
-
-        // Extract preferences from structured format
-        const preferencesData = data.preferences || {};
-        const commonPreferences = preferencesData.common || [];
-        const customPreferences = preferencesData.custom || [];
-
-        setUserProfile({
-          allergies: commonAllergies,
-          customAllergies: customAllergies,
-          preferences: [...commonPreferences, ...customPreferences],
-          forbiddenKeywords,
-        });
-
-        console.log("MenuScan: Loaded profile with", {
-          allergies: commonAllergies.length + customAllergies.length,
-          preferences: commonPreferences.length + customPreferences.length,
-        });
-      } else {
-        // User exists but no profile - use empty
-        setUserProfile({
-          allergies: [],
-          customAllergies: [],
-          preferences: [],
-          forbiddenKeywords,
-        });
-      }
-    } catch (error) {
-      console.error("Error loading profile:", error);
-      // Fallback to empty profile
-      setUserProfile({
-        allergies: [],
-        customAllergies: [],
-        preferences: [],
-        forbiddenKeywords: [],
-      });
-    }
-  };
-
   if (!permission) {
     return (
       <View
@@ -250,7 +156,13 @@ export default function MenuScanScreen() {
           setIsAnalyzing(true);
 
           try {
-            const result = await analyzeMenu(manipulated.base64, userProfile);
+            const mainProfile = profiles[0];
+            const result = await analyzeMenu(manipulated.base64, {
+              allergies: mainProfile?.allergies || [],
+              customAllergies: [],
+              preferences: mainProfile?.preferences || [],
+              forbiddenKeywords: mainProfile?.forbiddenKeywords || [],
+            });
             setIsAnalyzing(false);
             setCapturedImage(null);
             navigation.navigate("MenuResults", {
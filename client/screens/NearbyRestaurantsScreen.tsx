@@ -16,14 +16,12 @@ import { Feather, Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
 import * as Haptics from "expo-haptics";
 import { useNavigation } from "@react-navigation/native";
-import { doc, getDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { db, isFirebaseConfigured } from "@/services/firebase";
-import { useAuth } from "@/contexts/AuthContext";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
 import { getSafeDishSuggestions } from "@/services/dishSuggestions";
 
 const GOOGLE_PLACES_API_KEY =
@@ -58,7 +56,7 @@ export default function NearbyRestaurantsScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<any>();
-  const { user, isDemoMode } = useAuth();
+  const { profiles } = useHouseholdProfiles();
 
   const [locationPermission, setLocationPermission] =
     useState<Location.PermissionStatus | null>(null);
@@ -199,7 +197,7 @@ export default function NearbyRestaurantsScreen() {
     setError(null);
 
     try {
-      const profile = await getUserProfile();
+      const profile = getUserProfile();
       const keyword = buildKeywordFromPreferences(profile);
 
       const url = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${latitude},${longitude}&radius=8000&type=restaurant&keyword=${encodeURIComponent(keyword)}&key=${GOOGLE_PLACES_API_KEY}`;
@@ -270,32 +268,12 @@ export default function NearbyRestaurantsScreen() {
     }
   };
 
-  const getUserProfile = async (): Promise<UserProfile> => {
-    if (isDemoMode) {
-      return {
-        allergies: ["Peanuts", "Dairy"],
-        preferences: ["Vegetarian"],
-      };
-    }
-
-    if (!user?.uid || !db || !isFirebaseConfigured) {
-      return { allergies: [], preferences: [] };
-    }
-
-    try {
-      const profileDoc = await getDoc(doc(db, "users", user.uid));
-      if (profileDoc.exists()) {
-        const data = profileDoc.data().mainProfile || {};
-        return {
-          allergies: data.allergies || [],
-          preferences: data.preferences || [],
-        };
-      }
-    } catch (err) {
-      console.error("Error fetching profile:", err);
-    }
-
-    return { allergies: [], preferences: [] };
+  const getUserProfile = (): UserProfile => {
+    const mainProfile = profiles[0];
+    return {
+      allergies: mainProfile?.allergies || [],
+      preferences: mainProfile?.preferences || [],
+    };
   };
 
   const handleRestaurantPress = (restaurant: Restaurant) => {
@@ -313,6 +291,12 @@ export default function NearbyRestaurantsScreen() {
     });
   };
 
+  const handleChefCard = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setModalVisible(false);
+    navigation.navigate("ChefCard");
+  };
+
   const handleSuggestSafeDishes = async () => {
     if (!selectedRestaurant) return;
 
@@ -321,7 +305,7 @@ export default function NearbyRestaurantsScreen() {
     setSuggestions([]);
 
     try {
-      const profile = await getUserProfile();
+      const profile = getUserProfile();
 
       if (profile.allergies.length === 0 && profile.preferences.length === 0) {
         setSuggestionsError(
@@ -464,6 +448,25 @@ export default function NearbyRestaurantsScreen() {
             : "Find Restaurants Near Me"}
         </ThemedText>
       </TouchableOpacity>
+      <TouchableOpacity
+        style={[
+          styles.secondaryButton,
+          styles.chefCardButton,
+          {
+            backgroundColor: AppColors.surface,
+            borderColor: AppColors.primary,
+          },
+        ]}
+        onPress={handleChefCard}
+        activeOpacity={0.8}
+      >
+        <Feather name="credit-card" size={18} color={AppColors.primary} />
+        <ThemedText
+          style={[styles.secondaryButtonText, { color: AppColors.primary }]}
+        >
+          Show Chef Card
+        </ThemedText>
+      </TouchableOpacity>
     </View>
   );
 
@@ -541,24 +544,40 @@ export default function NearbyRestaurantsScreen() {
               <ThemedText style={styles.resultsCount}>
                 {restaurants.length} restaurants found
               </ThemedText>
-              <TouchableOpacity
-                style={[
-                  styles.refreshButton,
-                  { backgroundColor: AppColors.surface },
-                ]}
-                onPress={handleFindRestaurants}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <ActivityIndicator size="small" color={AppColors.primary} />
-                ) : (
+              <View style={styles.listHeaderActions}>
+                <TouchableOpacity
+                  style={[
+                    styles.refreshButton,
+                    { backgroundColor: AppColors.surface },
+                  ]}
+                  onPress={handleChefCard}
+                  accessibilityLabel="Show Chef Card"
+                >
                   <Feather
-                    name="refresh-cw"
+                    name="credit-card"
                     size={16}
                     color={AppColors.primary}
                   />
-                )}
-              </TouchableOpacity>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.refreshButton,
+                    { backgroundColor: AppColors.surface },
+                  ]}
+                  onPress={handleFindRestaurants}
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <ActivityIndicator size="small" color={AppColors.primary} />
+                  ) : (
+                    <Feather
+                      name="refresh-cw"
+                      size={16}
+                      color={AppColors.primary}
+                    />
+                  )}
+                </TouchableOpacity>
+              </View>
             </View>
           }
           ListEmptyComponent={
@@ -662,6 +681,31 @@ export default function NearbyRestaurantsScreen() {
                   {isLoadingSuggestions ? "Loading..." : "Suggest Safe Dishes"}
                 </ThemedText>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.secondaryButton,
+                  {
+                    backgroundColor: AppColors.surface,
+                    borderColor: AppColors.primary,
+                  },
+                ]}
+                onPress={handleChefCard}
+                activeOpacity={0.8}
+              >
+                <Feather
+                  name="credit-card"
+                  size={18}
+                  color={AppColors.primary}
+                />
+                <ThemedText
+                  style={[
+                    styles.secondaryButtonText,
+                    { color: AppColors.primary },
+                  ]}
+                >
+                  Show Chef Card
+                </ThemedText>
+              </TouchableOpacity>
             </View>
 
             {suggestionsError ? (
@@ -770,6 +814,9 @@ const styles = StyleSheet.create({
     marginBottom: Spacing["2xl"],
     paddingHorizontal: Spacing.lg,
   },
+  chefCardButton: {
+    marginTop: Spacing.md,
+  },
   findButton: {
     paddingHorizontal: Spacing["2xl"],
   },
@@ -793,6 +840,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  listHeaderActions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
   refreshButton: {
     width: 36,
     height: 36,
@@ -14,10 +14,17 @@ import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
+import { AllergySeverityPicker } from "@/components/AllergySeverityPicker";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth, type UserProfile } from "@/contexts/AuthContext";
+import { useVerdictChangeReport } from "@/hooks/useVerdictChangeReport";
+import {
+  AdvisoryHandling,
+  AllergySeverity,
+  normalizeMainProfile,
+} from "@/services/profiles";
 
 /*
  * Firestore Data Model (structured format):
@@ -28,6 +35,9 @@ import { useAuth, type UserProfile } from "@/contexts/AuthContext";
  *     name: string,
  *     allergies: { common: string[], custom: string[], none: boolean },
  *     preferences: { common: string[], custom: string[], none: boolean },
+ *     advisoryHandling: "unsafe" | "caution",
+ *     allergySeverities: { [allergy]: "anaphylactic" | "allergic" |
+ *                          "intolerance" | "avoid" },
  *     updatedAt: timestamp
  *   }
  *
@@ -72,6 +82,7 @@ export default function ProfileEditScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const { userProfile, updateUserProfile } = useAuth();
+  const reportVerdictChanges = useVerdictChangeReport();
 
   // ─── Form State ───
   const [name, setName] = useState("");
@@ -79,6 +90,9 @@ export default function ProfileEditScreen() {
   const [customAllergies, setCustomAllergies] = useState<string[]>([]);
   const [noAllergies, setNoAllergies] = useState(false);
   const [otherAllergyInput, setOtherAllergyInput] = useState("");
+  const [allergySeverities, setAllergySeverities] = useState<
+    Record<string, AllergySeverity>
+  >({});
 
   const [selectedPreferences, setSelectedPreferences] = useState<string[]>([]);
   const [customPreferences, setCustomPreferences] = useState<string[]>([]);
@@ -88,6 +102,9 @@ export default function ProfileEditScreen() {
   const [forbiddenKeywords, setForbiddenKeywords] = useState<string[]>([]);
   const [keywordInput, setKeywordInput] = useState("");
 
+  const [advisoryHandling, setAdvisoryHandling] =
+    useState<AdvisoryHandling>("caution");
+
   const [isSaving, setIsSaving] = useState(false);
 
   // ─── Load from AuthContext ───
@@ -125,6 +142,8 @@ export default function ProfileEditScreen() {
       }
 
       setForbiddenKeywords(userProfile.forbiddenKeywords || []);
+      setAdvisoryHandling(userProfile.advisoryHandling || "caution");
+      setAllergySeverities(userProfile.allergySeverities || {});
     }
   }, [userProfile]);
 
@@ -222,6 +241,12 @@ export default function ProfileEditScreen() {
     setForbiddenKeywords((prev) => prev.filter((_, i) => i !== index));
   };
 
+  // ─── Advisory Handler ───
+  const toggleAdvisoryHandling = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAdvisoryHandling((prev) => (prev === "unsafe" ? "caution" : "unsafe"));
+  };
+
   // ─── Save ───
   const handleSave = async () => {
     setIsSaving(true);
@@ -239,12 +264,26 @@ export default function ProfileEditScreen() {
           none: noPreferences,
         },
         forbiddenKeywords,
+        advisoryHandling,
+        allergySeverities,
       };
 
       await updateUserProfile(updatedProfile);
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert("Saved", "Your profile has been updated.");
+      const reported = await reportVerdictChanges(
+        userProfile
+          ? normalizeMainProfile(
+              userProfile,
+              name.trim(),
+              userProfile.forbiddenKeywords || [],
+            )
+          : null,
+        normalizeMainProfile(updatedProfile, name.trim(), forbiddenKeywords),
+      );
+      if (!reported) {
+        Alert.alert("Saved", "Your profile has been updated.");
+      }
     } catch (error: any) {
       console.error("Error saving profile:", error);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -383,6 +422,25 @@ export default function ProfileEditScreen() {
             ))}
           </View>
         ) : null}
+
+        {!noAllergies &&
+        selectedAllergies.length + customAllergies.length > 0 ? (
+          <>
+            <ThemedText
+              style={[
+                styles.subsectionTitle,
+                { color: AppColors.primary, marginTop: Spacing.lg },
+              ]}
+            >
+              Severity
+            </ThemedText>
+            <AllergySeverityPicker
+              allergies={[...selectedAllergies, ...customAllergies]}
+              severities={allergySeverities}
+              onChange={setAllergySeverities}
+            />
+          </>
+        ) : null}
       </View>
 
       {/* ── Dietary Preferences ── */}
@@ -492,6 +550,47 @@ export default function ProfileEditScreen() {
         ) : null}
       </View>
 
+      {/* ── Precautionary Labels ── */}
+      <View style={styles.section}>
+        <ThemedText style={styles.sectionTitle}>
+          Precautionary Labels
+        </ThemedText>
+        <ThemedText
+          style={[styles.sectionSubtitle, { color: AppColors.secondaryText }]}
+        >
+          &quot;May contain&quot; and shared-facility statements are shown as a
+          caution by default
+        </ThemedText>
+
+        <TouchableOpacity
+          style={styles.toggleRow}
+          onPress={toggleAdvisoryHandling}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={
+              advisoryHandling === "unsafe"
+                ? "checkmark-circle"
+                : "ellipse-outline"
+            }
+            size={28}
+            color={
+              advisoryHandling === "unsafe"
+                ? AppColors.primary
+                : AppColors.secondaryText
+            }
+          />
+          <ThemedText
+            style={[
+              styles.toggleText,
+              advisoryHandling === "unsafe" && { color: AppColors.primary },
+            ]}
+          >
+            Treat them as unsafe
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+
       {/* ── Forbidden Keywords ── */}
       <View style={styles.section}>
         <ThemedText style={styles.sectionTitle}>Forbidden Keywords</ThemedText>
@@ -0,0 +1,825 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import {
+  findSuspectedTriggers,
+  SuspectedTrigger,
+  TriggerScan,
+} from "@shared/reactionTriggers";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { useVerdictChangeReport } from "@/hooks/useVerdictChangeReport";
+import { HistoryStackParamList } from "@/navigation/HistoryStackNavigator";
+import { StoredScan } from "@/services/historyRecords";
+import {
+  MAIN_PROFILE_ID,
+  addForbiddenKeyword,
+  locateProfile,
+} from "@/services/profiles";
+import {
+  Reaction,
+  ReactionSeverity,
+  deleteReaction,
+  getReactions,
+  getTriggerBaselineScans,
+  parseMealIngredients,
+  saveReaction,
+} from "@/services/reactionDiary";
+
+type ReactionDiaryRouteProp = RouteProp<HistoryStackParamList, "ReactionDiary">;
+
+const SYMPTOM_OPTIONS = [
+  "Hives",
+  "Itching",
+  "Swelling",
+  "Rash",
+  "Stomach pain",
+  "Nausea",
+  "Vomiting",
+  "Diarrhea",
+  "Wheezing",
+  "Runny nose",
+  "Dizziness",
+  "Anaphylaxis",
+];
+
+const SEVERITY_OPTIONS: { label: string; value: ReactionSeverity }[] = [
+  { label: "Mild", value: "mild" },
+  { label: "Moderate", value: "moderate" },
+  { label: "Severe", value: "severe" },
+];
+
+const SEVERITY_COLORS: Record<ReactionSeverity, string> = {
+  mild: AppColors.warning,
+  moderate: "#ff9800",
+  severe: AppColors.destructive,
+};
+
+const ONSET_OPTIONS: { label: string; hoursAgo: number }[] = [
+  { label: "Just now", hoursAgo: 0 },
+  { label: "1 hour ago", hoursAgo: 1 },
+  { label: "3 hours ago", hoursAgo: 3 },
+  { label: "6 hours ago", hoursAgo: 6 },
+  { label: "12 hours ago", hoursAgo: 12 },
+  { label: "Yesterday", hoursAgo: 24 },
+];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? AppColors.primary : AppColors.surface,
+        },
+      ]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      activeOpacity={0.7}
+    >
+      <ThemedText
+        style={[
+          styles.chipText,
+          { color: selected ? AppColors.text : AppColors.secondaryText },
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+function formatReactionDate(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+interface ReactionCardProps {
+  reaction: Reaction;
+  onDelete: () => void;
+}
+
+function ReactionCard({ reaction, onDelete }: ReactionCardProps) {
+  const color = SEVERITY_COLORS[reaction.severity];
+
+  return (
+    <View style={[styles.card, { borderLeftColor: color }]}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardInfo}>
+          <ThemedText style={styles.cardTitle} numberOfLines={1}>
+            {reaction.food}
+          </ThemedText>
+          <ThemedText
+            style={[styles.cardMeta, { color: AppColors.secondaryText }]}
+          >
+            {reaction.profileName} · {formatReactionDate(reaction.occurredAt)}
+          </ThemedText>
+        </View>
+        <ThemedText style={[styles.severity, { color }]}>
+          {reaction.severity.charAt(0).toUpperCase() +
+            reaction.severity.slice(1)}
+        </ThemedText>
+        <TouchableOpacity onPress={onDelete} style={styles.deleteButton}>
+          <Feather name="trash-2" size={16} color={AppColors.secondaryText} />
+        </TouchableOpacity>
+      </View>
+      {reaction.symptoms.length > 0 ? (
+        <ThemedText style={styles.cardSymptoms}>
+          {reaction.symptoms.join(", ")}
+        </ThemedText>
+      ) : null}
+      {reaction.notes ? (
+        <ThemedText
+          style={[styles.cardNotes, { color: AppColors.secondaryText }]}
+        >
+          {reaction.notes}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+export default function ReactionDiaryScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<HistoryStackParamList>>();
+  const route = useRoute<ReactionDiaryRouteProp>();
+  const { user, isDemoMode, householdId, householdRole, refreshUserProfile } =
+    useAuth();
+  const { profiles } = useHouseholdProfiles();
+  const reportVerdictChanges = useVerdictChangeReport();
+
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [baselineScans, setBaselineScans] = useState<TriggerScan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // ─── Form State ───
+  const [modalVisible, setModalVisible] = useState(false);
+  const [linkedScan, setLinkedScan] = useState<StoredScan | null>(null);
+  const [mealName, setMealName] = useState("");
+  const [mealIngredients, setMealIngredients] = useState("");
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [symptoms, setSymptoms] = useState<string[]>([]);
+  const [severity, setSeverity] = useState<ReactionSeverity>("mild");
+  const [hoursAgo, setHoursAgo] = useState(0);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadReactions = useCallback(async () => {
+    if (!householdId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [loaded, scans] = await Promise.all([
+        getReactions(householdId, isDemoMode),
+        getTriggerBaselineScans(householdId, isDemoMode),
+      ]);
+      setReactions(loaded);
+      setBaselineScans(scans);
+    } catch (error) {
+      console.error("Error loading reactions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [householdId, isDemoMode]);
+
+  useEffect(() => {
+    loadReactions();
+  }, [loadReactions]);
+
+  const openForm = useCallback(
+    (scan: StoredScan | null) => {
+      // A scan with issues most likely affected someone it was flagged for
+      const flagged = scan?.results?.find((r) => r.status !== "safe");
+
+      setLinkedScan(scan);
+      setMealName("");
+      setMealIngredients("");
+      setProfileId(flagged?.profileId ?? profiles[0]?.id ?? null);
+      setSymptoms([]);
+      setSeverity("mild");
+      setHoursAgo(0);
+      setNotes("");
+      setModalVisible(true);
+    },
+    [profiles],
+  );
+
+  // Opened from a scan's details: log against that scan
+  const routeScan = route.params?.scan;
+  useEffect(() => {
+    if (!routeScan) return;
+    openForm(routeScan);
+    navigation.setParams({ scan: undefined });
+  }, [routeScan, openForm, navigation]);
+
+  const suspectedTriggers = findSuspectedTriggers(
+    reactions,
+    profiles,
+    baselineScans,
+  );
+  const profileName = (id: string) =>
+    profiles.find((p) => p.id === id)?.name ||
+    reactions.find((r) => r.profileId === id)?.profileName ||
+    "Unknown";
+
+  const toggleSymptom = (symptom: string) => {
+    setSymptoms((prev) =>
+      prev.includes(symptom)
+        ? prev.filter((s) => s !== symptom)
+        : [...prev, symptom],
+    );
+  };
+
+  const handleSave = async () => {
+    const food = linkedScan
+      ? linkedScan.productName || "Scanned food"
+      : mealName.trim();
+    const ingredients = linkedScan
+      ? linkedScan.ingredients
+      : parseMealIngredients(mealIngredients);
+    const profile = profiles.find((p) => p.id === profileId);
+
+    if (!food) {
+      Alert.alert("Error", "Please describe what was eaten.");
+      return;
+    }
+    if (!profile) {
+      Alert.alert("Error", "Please choose who had the reaction.");
+      return;
+    }
+    if (!householdId) return;
+
+    setIsSaving(true);
+    try {
+      await saveReaction(householdId, isDemoMode, {
+        occurredAt: new Date(
+          Date.now() - hoursAgo * 60 * 60 * 1000,
+        ).toISOString(),
+        symptoms,
+        severity,
+        profileId: profile.id,
+        profileName: profile.name,
+        scanId: linkedScan?.id,
+        food,
+        ingredients,
+        notes: notes.trim() || undefined,
+      });
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadReactions();
+    } catch (error) {
+      console.error("Error saving reaction:", error);
+      Alert.alert("Error", "Failed to save reaction. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (reaction: Reaction) => {
+    Alert.alert("Delete Reaction", `Remove the entry for ${reaction.food}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          if (!householdId) return;
+          try {
+            await deleteReaction(householdId, isDemoMode, reaction.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            loadReactions();
+          } catch (error) {
+            console.error("Error deleting reaction:", error);
+            Alert.alert("Error", "Failed to delete reaction.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAddKeyword = (trigger: SuspectedTrigger) => {
+    if (householdRole !== "parent") {
+      Alert.alert(
+        "Ask a Parent",
+        "Only parents in your household can change forbidden keywords.",
+      );
+      return;
+    }
+
+    Alert.alert(
+      "Add Forbidden Keyword",
+      `Add "${trigger.ingredient}" to ${profileName(trigger.profileId)}'s forbidden keywords? This ingredient will be flagged in all future scans.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Add Keyword",
+          onPress: async () => {
+            if (isDemoMode || !householdId || !user) {
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              return;
+            }
+
+            try {
+              const stored = locateProfile(
+                householdId,
+                user.uid,
+                trigger.profileId,
+              );
+              await addForbiddenKeyword(
+                stored.uid,
+                trigger.ingredient,
+                stored.profileId,
+              );
+              Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success,
+              );
+              // Sync keywords back to AuthContext so future scans pick them up
+              if (stored.profileId === MAIN_PROFILE_ID) refreshUserProfile();
+
+              const profile = profiles.find((p) => p.id === trigger.profileId);
+              if (profile) {
+                reportVerdictChanges(profile, {
+                  ...profile,
+                  forbiddenKeywords: [
+                    ...(profile.forbiddenKeywords || []),
+                    trigger.ingredient,
+                  ],
+                });
+              }
+            } catch (error) {
+              console.error("Error saving keyword:", error);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.loadingContainer,
+          { backgroundColor: AppColors.background },
+        ]}
+      >
+        <ActivityIndicator size="large" color={AppColors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <ScrollView
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing["3xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        <ThemedText style={styles.description}>
+          Log reactions against a scan or a meal. Ingredients that keep showing
+          up before reactions are listed as suspected triggers.
+        </ThemedText>
+
+        <Button onPress={() => openForm(null)} style={styles.logButton}>
+          Log Reaction
+        </Button>
+
+        {suspectedTriggers.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>
+              Suspected Triggers
+            </ThemedText>
+            {suspectedTriggers.map((trigger) => (
+              <View
+                key={`${trigger.profileId}:${trigger.ingredient}`}
+                style={styles.triggerRow}
+              >
+                <View style={styles.triggerInfo}>
+                  <ThemedText style={styles.triggerName}>
+                    {trigger.ingredient}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      styles.triggerMeta,
+                      { color: AppColors.secondaryText },
+                    ]}
+                  >
+                    In {trigger.occurrences} of {trigger.reactionCount} of{" "}
+                    {profileName(trigger.profileId)}&apos;s reactions, in{" "}
+                    {trigger.scanOccurrences} of {trigger.scanCount} other scans
+                  </ThemedText>
+                </View>
+                <TouchableOpacity
+                  style={[
+                    styles.triggerButton,
+                    { backgroundColor: AppColors.primaryDark },
+                  ]}
+                  onPress={() => handleAddKeyword(trigger)}
+                >
+                  <Feather name="plus" size={14} color="#fff" />
+                  <ThemedText style={styles.triggerButtonText}>
+                    Keyword
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Reactions</ThemedText>
+          {reactions.length === 0 ? (
+            <ThemedText
+              style={[styles.emptyText, { color: AppColors.secondaryText }]}
+            >
+              No reactions logged yet.
+            </ThemedText>
+          ) : (
+            <View style={styles.list}>
+              {reactions.map((reaction) => (
+                <ReactionCard
+                  key={reaction.id}
+                  reaction={reaction}
+                  onDelete={() => handleDelete(reaction)}
+                />
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View
+          style={[
+            styles.modalContainer,
+            { backgroundColor: AppColors.background },
+          ]}
+        >
+          <View
+            style={[
+              styles.modalHeader,
+              { paddingTop: insets.top + Spacing.lg },
+            ]}
+          >
+            <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <ThemedText
+                style={[styles.modalCancel, { color: AppColors.primary }]}
+              >
+                Cancel
+              </ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.modalTitle}>Log Reaction</ThemedText>
+            <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color={AppColors.primary} />
+              ) : (
+                <ThemedText
+                  style={[styles.modalSave, { color: AppColors.primary }]}
+                >
+                  Save
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <KeyboardAwareScrollViewCompat
+            contentContainerStyle={styles.modalContent}
+          >
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Food</ThemedText>
+              {linkedScan ? (
+                <View style={styles.linkedScan}>
+                  <Feather name="file-text" size={18} color={AppColors.text} />
+                  <ThemedText style={styles.linkedScanText} numberOfLines={1}>
+                    {linkedScan.productName || "Scanned food"}
+                  </ThemedText>
+                  <TouchableOpacity onPress={() => setLinkedScan(null)}>
+                    <Feather
+                      name="x"
+                      size={18}
+                      color={AppColors.secondaryText}
+                    />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  <TextInput
+                    style={[styles.input, { color: AppColors.text }]}
+                    placeholder="What was eaten, e.g. Pad thai"
+                    placeholderTextColor={AppColors.secondaryText}
+                    value={mealName}
+                    onChangeText={setMealName}
+                  />
+                  <TextInput
+                    style={[
+                      styles.input,
+                      styles.multilineInput,
+                      { color: AppColors.text },
+                    ]}
+                    placeholder="Ingredients, separated by commas"
+                    placeholderTextColor={AppColors.secondaryText}
+                    value={mealIngredients}
+                    onChangeText={setMealIngredients}
+                    multiline
+                  />
+                </>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Who</ThemedText>
+              <View style={styles.chipsContainer}>
+                {profiles.map((profile) => (
+                  <Chip
+                    key={profile.id}
+                    label={profile.name}
+                    selected={profileId === profile.id}
+                    onPress={() => setProfileId(profile.id)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>When</ThemedText>
+              <View style={styles.chipsContainer}>
+                {ONSET_OPTIONS.map((option) => (
+                  <Chip
+                    key={option.hoursAgo}
+                    label={option.label}
+                    selected={hoursAgo === option.hoursAgo}
+                    onPress={() => setHoursAgo(option.hoursAgo)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Severity</ThemedText>
+              <View style={styles.chipsContainer}>
+                {SEVERITY_OPTIONS.map((option) => (
+                  <Chip
+                    key={option.value}
+                    label={option.label}
+                    selected={severity === option.value}
+                    onPress={() => setSeverity(option.value)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Symptoms</ThemedText>
+              <View style={styles.chipsContainer}>
+                {SYMPTOM_OPTIONS.map((symptom) => (
+                  <Chip
+                    key={symptom}
+                    label={symptom}
+                    selected={symptoms.includes(symptom)}
+                    onPress={() => toggleSymptom(symptom)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Notes</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.multilineInput,
+                  { color: AppColors.text },
+                ]}
+                placeholder="Anything else worth noting"
+                placeholderTextColor={AppColors.secondaryText}
+                value={notes}
+                onChangeText={setNotes}
+                multiline
+              />
+            </View>
+          </KeyboardAwareScrollViewCompat>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginBottom: Spacing.lg,
+    color: AppColors.secondaryText,
+  },
+  logButton: {
+    marginBottom: Spacing.xl,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  list: {
+    gap: Spacing.md,
+  },
+  triggerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  triggerInfo: {
+    flex: 1,
+  },
+  triggerName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  triggerMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  triggerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  triggerButtonText: {
+    color: "#fff",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  card: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.md,
+    borderLeftWidth: 4,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  severity: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  deleteButton: {
+    padding: Spacing.xs,
+  },
+  cardSymptoms: {
+    fontSize: 14,
+  },
+  cardNotes: {
+    fontSize: 13,
+    fontStyle: "italic",
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.divider,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalCancel: {
+    fontSize: 17,
+  },
+  modalSave: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing["4xl"],
+  },
+  linkedScan: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  linkedScanText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  input: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+    marginBottom: Spacing.sm,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  chipsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: AppColors.divider,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
@@ -16,7 +16,6 @@ import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import {
   doc,
-  getDoc,
   collection,
   addDoc,
   deleteDoc,
@@ -30,17 +29,10 @@ import { Button } from "@/components/Button";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useAuth } from "@/contexts/AuthContext";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
 import { db, isFirebaseConfigured } from "@/services/firebase";
 import { getApiUrl } from "@/lib/query-client";
 
-interface ProfileInfo {
-  id: string;
-  name: string;
-  allergies: string[];
-  preferences: string[];
-  forbiddenKeywords?: string[];
-}
-
 interface Ingredient {
   item: string;
   amount: string;
@@ -85,9 +77,9 @@ export default function RecipeGeneratorScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { user } = useAuth();
+  const { profiles } = useHouseholdProfiles();
 
   const [preference, setPreference] = useState("");
-  const [profiles, setProfiles] = useState<ProfileInfo[]>([]);
   const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [recipe, setRecipe] = useState<Recipe | null>(null);
@@ -96,143 +88,18 @@ export default function RecipeGeneratorScreen() {
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
-    loadProfiles();
     loadSavedRecipes();
   }, [user]);
 
-  const loadProfiles = async () => {
-    const loadedProfiles: ProfileInfo[] = [];
-    let forbiddenKeywords: string[] = [];
-
-    const userName = user?.displayName || user?.email?.split("@")[0] || "You";
-
-    if (user && isFirebaseConfigured && db) {
-      try {
-        // Load forbidden keywords first
-        const keywordsRef = doc(
-          db,
-          "users",
-          user.uid,
-          "settings",
-          "forbiddenKeywords",
-        );
-        const keywordsSnap = await getDoc(keywordsRef);
-        if (keywordsSnap.exists()) {
-          forbiddenKeywords = keywordsSnap.data().keywords || [];
-        }
-
-        // Load main profile from Firestore
-        const mainProfileRef = doc(db, "users", user.uid);
-        const mainProfileSnap = await getDoc(mainProfileRef);
-        if (mainProfileSnap.exists()) {
-          const userData = mainProfileSnap.data();
-          const profileData = userData.mainProfile || {};
-
-          // Extract allergies from structured format
-          const allergiesData = profileData.allergies || {};
-          const commonAllergies = allergiesData.common || [];
-          const customAllergies = allergiesData.custom || [];
-          const allAllergies = [...commonAllergies, ...customAllergies];
-
-          // Extract preferences from structured format
-          const preferencesData = profileData.preferences || {};
-          const commonPreferences = preferencesData.common || [];
-          const customPreferences = preferencesData.custom || [];
-          const allPreferences = [...commonPreferences, ...customPreferences];
-
-          loadedProfiles.push({
-            id: "mainProfile",
-            name: profileData.name || userName,
-            allergies: allAllergies,
-            preferences: allPreferences,
-            forbiddenKeywords,
-          });
-        } else {
-          loadedProfiles.push({
-            id: "mainProfile",
-            name: userName,
-            allergies: [],
-            preferences: [],
-            forbiddenKeywords,
-          });
-        }
-
-        // Load family member profiles
-        for (let i = 1; i <= 4; i++) {
-          const memberRef = doc(
-            db,
-            "users",
-            user.uid,
-            "familyProfiles",
-            `member${i}`,
-          );
-          const memberSnap = await getDoc(memberRef);
-          if (memberSnap.exists()) {
-            const data = memberSnap.data();
-
-            // Extract allergies from structured format for family members
-            const memberAllergies = data.allergies || {};
-            const memberCommonAllergies = Array.isArray(memberAllergies)
-              ? memberAllergies
-              : [...(memberAllergies.common || []), ...(memberAllergies.custom || [])];
-
-            // Extract preferences from structured format for family members
-            const memberPreferences = data.preferences || {};
-            const memberCommonPreferences = Array.isArray(memberPreferences)
-              ? memberPreferences
-              : [...(memberPreferences.common || []), ...(memberPreferences.custom || [])];
-
-            loadedProfiles.push({
-              id: `member${i}`,
-              name: data.name || `Family Member ${i}`,
-              allergies: memberCommonAllergies,
-              preferences: memberCommonPreferences,
-              forbiddenKeywords,
-            });
-          }
-        }
-      } catch (error) {
-        console.error("Error loading profiles:", error);
-        // Fallback with demo data
-        loadedProfiles.push({
-          id: "mainProfile",
-          name: userName,
-          allergies: ["Dairy", "Peanuts"],
-          preferences: ["Vegetarian"],
-          forbiddenKeywords: ["MSG"],
-        });
-      }
-    } else {
-      // Demo mode
-      loadedProfiles.push({
-        id: "mainProfile",
-        name: userName,
-        allergies: ["Dairy", "Peanuts"],
-        preferences: ["Vegetarian"],
-        forbiddenKeywords: ["MSG", "Artificial colors"],
-      });
-    }
-
-    // Ensure we always have at least one profile
-    if (loadedProfiles.length === 0) {
-      loadedProfiles.push({
-        id: "mainProfile",
-        name: userName,
-        allergies: [],
-        preferences: [],
-        forbiddenKeywords: [],
-      });
-    }
-
-    setProfiles(loadedProfiles);
-    setSelectedProfileIds([loadedProfiles[0].id]);
-
-    console.log("Recipe Generator: Loaded profiles:", loadedProfiles.map(p => ({
-      name: p.name,
-      allergies: p.allergies.length,
-      preferences: p.preferences.length,
-    })));
-  };
+  // Default the selection to the main profile once profiles arrive, and
+  // drop ids of members that have since been removed.
+  useEffect(() => {
+    const currentIds = profiles.map((p) => p.id);
+    setSelectedProfileIds((prev) => {
+      const kept = prev.filter((id) => currentIds.includes(id));
+      return kept.length > 0 ? kept : currentIds.slice(0, 1);
+    });
+  }, [profiles]);
 
   const loadSavedRecipes = async () => {
     if (!user || !isFirebaseConfigured || !db) return;
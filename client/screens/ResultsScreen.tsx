@@ -6,7 +6,8 @@ import {
   TouchableOpacity,
   Modal,
   ActivityIndicator,
-  Text,
+  TextInput,
+  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -14,18 +15,40 @@ import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Ionicons, Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
-import { doc, getDoc, setDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { UnsafeIssuesModal } from "@/components/UnsafeIssuesModal";
+import { ResultCard } from "@/components/ResultCard";
+import { IngredientHighlighter } from "@/components/IngredientHighlighter";
+import { ProductMarksCard } from "@/components/ProductMarksCard";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { ProfileResult, SafetyStatus } from "@/services/ai";
+import { SafetyStatus } from "@/services/ai";
 import { ScanStackParamList } from "@/navigation/ScanStackNavigator";
 import { useAuth } from "@/contexts/AuthContext";
-import { saveScanToHistory } from "@/services/scanHistory";
+import { formatScanDate, saveScanToHistory } from "@/services/scanHistory";
+import { updateScanAnalysis } from "@/services/historyRecords";
+import { Reformulation, detectReformulation } from "@/services/reformulation";
+import {
+  AllergenPresence,
+  hasNewAllergenRisk,
+  isRiskIncrease,
+} from "@shared/reformulation";
+import {
+  MatchedIngredient,
+  RuleAnalysisResult,
+  analyzeLabelText,
+} from "@/services/labelRules";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { useVerdictChangeReport } from "@/hooks/useVerdictChangeReport";
 import { db, isFirebaseConfigured } from "@/services/firebase";
+import {
+  MAIN_PROFILE_ID,
+  OWN_PROFILE_ID,
+  addForbiddenKeyword,
+  locateProfile,
+} from "@/services/profiles";
 
 type ResultsScreenRouteProp = RouteProp<ScanStackParamList, "Results">;
 type ResultsScreenNavigationProp = NativeStackNavigationProp<
@@ -67,317 +90,129 @@ function StatusBadge({ status }: { status: SafetyStatus }) {
   );
 }
 
-interface ResultCardProps {
-  result: ProfileResult;
-}
-
 /**
- * Renders a raw ingredient text block with flagged words highlighted.
- * Red = allergen/keyword, yellow = dietary/caution.
+ * Finds the match for an ingredient chip. Derivative matches are often only
+ * part of the ingredient ("whey protein" in "whey protein concentrate"), so
+ * whole-word containment counts as well as an exact name match.
  */
-function IngredientHighlighter({
-  rawText,
-  matchedIngredients,
-}: {
-  rawText: string;
-  matchedIngredients: { name: string; type: string }[];
-}) {
-  if (!rawText || rawText.length === 0) return null;
-
-  // Build a list of spans to highlight
-  const highlights: {
-    start: number;
-    end: number;
-    type: string;
-  }[] = [];
-
-  const lowerText = rawText.toLowerCase();
-
-  for (const match of matchedIngredients) {
-    const term = match.name.toLowerCase();
-    let pos = 0;
-    while (pos < lowerText.length) {
-      const idx = lowerText.indexOf(term, pos);
-      if (idx === -1) break;
-      highlights.push({
-        start: idx,
-        end: idx + term.length,
-        type: match.type,
-      });
-      pos = idx + 1;
-    }
-  }
-
-  // Sort by position and merge overlapping spans
-  highlights.sort((a, b) => a.start - b.start);
-
-  // Build text segments
-  const segments: { text: string; type: string | null }[] = [];
-  let cursor = 0;
-
-  for (const h of highlights) {
-    if (h.start < cursor) continue; // skip overlapping
-    if (h.start > cursor) {
-      segments.push({ text: rawText.substring(cursor, h.start), type: null });
-    }
-    segments.push({
-      text: rawText.substring(h.start, h.end),
-      type: h.type,
-    });
-    cursor = h.end;
-  }
-  if (cursor < rawText.length) {
-    segments.push({ text: rawText.substring(cursor), type: null });
-  }
-
+function findMatchForIngredient(
+  ingredient: string,
+  matchedIngredients: MatchedIngredient[],
+): MatchedIngredient | undefined {
+  const lower = ingredient.toLowerCase();
   return (
-    <View style={highlightStyles.container}>
-      <ThemedText style={highlightStyles.label}>Ingredient Text</ThemedText>
-      <View style={highlightStyles.textBlock}>
-        <Text style={highlightStyles.baseText}>
-          {segments.map((seg, i) => {
-            if (!seg.type) {
-              return (
-                <Text key={i} style={highlightStyles.normalText}>
-                  {seg.text}
-                </Text>
-              );
-            }
-            const isAllergenOrKeyword =
-              seg.type === "allergen" || seg.type === "keyword";
-            return (
-              <Text
-                key={i}
-                style={[
-                  highlightStyles.highlightedText,
-                  {
-                    backgroundColor: isAllergenOrKeyword
-                      ? AppColors.destructive + "35"
-                      : AppColors.warning + "35",
-                    color: isAllergenOrKeyword
-                      ? AppColors.destructive
-                      : AppColors.warning,
-                  },
-                ]}
-              >
-                {seg.text}
-              </Text>
-            );
-          })}
-        </Text>
-      </View>
-    </View>
+    matchedIngredients.find((m) => m.name.toLowerCase() === lower) ||
+    matchedIngredients.find((m) => {
+      const term = escapeRegExp(m.name.toLowerCase());
+      return new RegExp(`(^|[^a-z0-9])${term}($|[^a-z0-9])`).test(lower);
+    })
   );
 }
 
-const highlightStyles = StyleSheet.create({
-  container: {
-    marginBottom: Spacing.lg,
-  },
-  label: {
-    fontSize: 13,
-    fontWeight: "600",
-    color: AppColors.secondaryText,
-    marginBottom: Spacing.sm,
-    textTransform: "uppercase",
-    letterSpacing: 0.5,
-  },
-  textBlock: {
-    backgroundColor: AppColors.surface,
-    borderRadius: BorderRadius.md,
-    padding: Spacing.md,
-    borderWidth: 1,
-    borderColor: AppColors.divider,
-  },
-  baseText: {
-    fontSize: 14,
-    lineHeight: 22,
-  },
-  normalText: {
-    color: AppColors.secondaryText,
-  },
-  highlightedText: {
-    fontWeight: "700",
-    borderRadius: 3,
-    overflow: "hidden",
-    paddingHorizontal: 2,
-  },
-});
+function formatAsOf(iso: string): string {
+  const date = new Date(iso);
+  const days = Math.floor((Date.now() - date.getTime()) / 86400000);
+  if (days < 1) return "today";
+  if (days === 1) return "yesterday";
+  const formatted = date.toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return `on ${formatted}`;
+}
 
-function ResultCard({ result }: ResultCardProps) {
-  const config = {
-    safe: {
-      color: AppColors.success,
-      bg: "#1a3d2e",
-    },
-    caution: {
-      color: AppColors.warning,
-      bg: "#3d3a1a",
-    },
-    unsafe: {
-      color: AppColors.destructive,
-      bg: "#3d1a1a",
-    },
-  };
+const PRESENCE_LABELS: Record<AllergenPresence, string> = {
+  contains: "contains",
+  mayContain: "may contain",
+  absent: "not listed",
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
-  const c = config[result.status];
+/**
+ * Shown when a rescanned product's label differs from its last scan.
+ */
+function ReformulationCard({
+  reformulation,
+}: {
+  reformulation: Reformulation;
+}) {
+  const {
+    addedIngredients,
+    removedIngredients,
+    addedAllergens,
+    removedAllergens,
+    changedAllergens,
+  } = reformulation;
+  const accent = hasNewAllergenRisk(reformulation)
+    ? AppColors.destructive
+    : AppColors.warning;
 
   return (
     <View
       style={[
-        styles.resultCard,
-        { backgroundColor: c.bg, borderColor: c.color },
+        styles.reformulationCard,
+        { backgroundColor: AppColors.surface, borderColor: accent },
       ]}
     >
-      <View style={styles.resultHeader}>
-        <View style={[styles.iconCircle, { backgroundColor: c.color + "30" }]}>
-          <Ionicons
-            name={
-              result.status === "safe"
-                ? "checkmark-circle"
-                : result.status === "caution"
-                  ? "warning"
-                  : "close-circle"
-            }
-            size={32}
-            color={c.color}
-          />
-        </View>
-        <View style={styles.resultInfo}>
-          <ThemedText style={styles.profileName}>{result.name}</ThemedText>
-          <ThemedText style={[styles.statusText, { color: c.color }]}>
-            {result.status.charAt(0).toUpperCase() + result.status.slice(1)}
-          </ThemedText>
-        </View>
+      <View style={styles.reformulationHeader}>
+        <Ionicons name="swap-horizontal" size={20} color={accent} />
+        <ThemedText style={[styles.reformulationTitle, { color: accent }]}>
+          Label Changed
+        </ThemedText>
       </View>
+      <ThemedText
+        style={[styles.reformulationMeta, { color: AppColors.secondaryText }]}
+      >
+        This product&apos;s label differs from your last scan (
+        {formatScanDate(reformulation.previousTimestamp)}).
+      </ThemedText>
 
-      <View style={styles.resultBody}>
-        {result.status === "safe" ? (
-          <ThemedText style={styles.safeMessage}>
-            No allergens, forbidden keywords, or restricted ingredients
-            detected.
-          </ThemedText>
-        ) : (
-          <View style={styles.issuesList}>
-            {result.matchedAllergens.length > 0 ? (
-              <View style={styles.issueSection}>
-                <ThemedText
-                  style={[
-                    styles.issueSectionTitle,
-                    { color: AppColors.destructive },
-                  ]}
-                >
-                  Allergens Found:
-                </ThemedText>
-                <View style={styles.tagsContainer}>
-                  {result.matchedAllergens.map((allergen, index) => (
-                    <View
-                      key={index}
-                      style={[
-                        styles.tag,
-                        { backgroundColor: AppColors.destructive + "30" },
-                      ]}
-                    >
-                      <ThemedText
-                        style={[
-                          styles.tagText,
-                          { color: AppColors.destructive },
-                        ]}
-                      >
-                        {allergen}
-                      </ThemedText>
-                    </View>
-                  ))}
-                </View>
-              </View>
-            ) : null}
-
-            {result.matchedKeywords.length > 0 ? (
-              <View style={styles.issueSection}>
-                <ThemedText
-                  style={[
-                    styles.issueSectionTitle,
-                    { color: AppColors.destructive },
-                  ]}
-                >
-                  Forbidden Keywords:
-                </ThemedText>
-                <View style={styles.tagsContainer}>
-                  {result.matchedKeywords.map((keyword, index) => (
-                    <View
-                      key={index}
-                      style={[
-                        styles.tag,
-                        { backgroundColor: AppColors.destructive + "30" },
-                      ]}
-                    >
-                      <Ionicons
-                        name="ban"
-                        size={12}
-                        color={AppColors.destructive}
-                      />
-                      <ThemedText
-                        style={[
-                          styles.tagText,
-                          { color: AppColors.destructive },
-                        ]}
-                      >
-                        {keyword}
-                      </ThemedText>
-                    </View>
-                  ))}
-                </View>
-              </View>
-            ) : null}
-
-            {result.matchedPreferences.length > 0 ? (
-              <View style={styles.issueSection}>
-                <ThemedText
-                  style={[
-                    styles.issueSectionTitle,
-                    { color: AppColors.warning },
-                  ]}
-                >
-                  Dietary Conflicts:
-                </ThemedText>
-                <View style={styles.tagsContainer}>
-                  {result.matchedPreferences.map((pref, index) => (
-                    <View
-                      key={index}
-                      style={[
-                        styles.tag,
-                        { backgroundColor: AppColors.warning + "30" },
-                      ]}
-                    >
-                      <ThemedText
-                        style={[styles.tagText, { color: AppColors.warning }]}
-                      >
-                        {pref}
-                      </ThemedText>
-                    </View>
-                  ))}
-                </View>
-              </View>
-            ) : null}
-
-            <View style={styles.reasonsList}>
-              {result.reasons.map((reason, index) => (
-                <View key={index} style={styles.reasonRow}>
-                  <Ionicons name="alert-circle" size={14} color={c.color} />
-                  <ThemedText
-                    style={[
-                      styles.reasonText,
-                      { color: AppColors.secondaryText },
-                    ]}
-                  >
-                    {reason}
-                  </ThemedText>
-                </View>
-              ))}
-            </View>
-          </View>
-        )}
-      </View>
+      {addedAllergens.length > 0 ? (
+        <ThemedText
+          style={[styles.reformulationLine, { color: AppColors.destructive }]}
+        >
+          Now contains {addedAllergens.join(", ")}
+        </ThemedText>
+      ) : null}
+      {removedAllergens.length > 0 ? (
+        <ThemedText
+          style={[styles.reformulationLine, { color: AppColors.success }]}
+        >
+          No longer contains {removedAllergens.join(", ")}
+        </ThemedText>
+      ) : null}
+      {changedAllergens.map((change) => (
+        <ThemedText
+          key={change.allergen}
+          style={[
+            styles.reformulationLine,
+            {
+              color: isRiskIncrease(change)
+                ? AppColors.destructive
+                : AppColors.success,
+            },
+          ]}
+        >
+          {change.allergen}: {PRESENCE_LABELS[change.from]} →{" "}
+          {PRESENCE_LABELS[change.to]}
+        </ThemedText>
+      ))}
+      {addedIngredients.length > 0 ? (
+        <ThemedText style={styles.reformulationLine}>
+          Added: {addedIngredients.join(", ")}
+        </ThemedText>
+      ) : null}
+      {removedIngredients.length > 0 ? (
+        <ThemedText
+          style={[styles.reformulationLine, { color: AppColors.secondaryText }]}
+        >
+          Removed: {removedIngredients.join(", ")}
+        </ThemedText>
+      ) : null}
     </View>
   );
 }
@@ -387,15 +222,28 @@ export default function ResultsScreen() {
   const headerHeight = useHeaderHeight();
   const navigation = useNavigation<ResultsScreenNavigationProp>();
   const route = useRoute<ResultsScreenRouteProp>();
-  const { user, isDemoMode, refreshUserProfile } = useAuth();
+  const { user, isDemoMode, householdId, householdRole, refreshUserProfile } =
+    useAuth();
+  const { profiles, isLoading: isLoadingProfiles } = useHouseholdProfiles();
+  const reportVerdictChanges = useVerdictChangeReport();
   const hasSaved = useRef(false);
+  // Resolves with the history id of this scan once it is saved
+  const savedScanId = useRef<Promise<string | null> | null>(null);
 
-  const { analysisResult } = route.params;
+  const [analysisResult, setAnalysisResult] = useState<RuleAnalysisResult>(
+    route.params.analysisResult,
+  );
+  const [reformulation, setReformulation] = useState<Reformulation | null>(
+    null,
+  );
+  const [showEditTextModal, setShowEditTextModal] = useState(false);
+  const [draftText, setDraftText] = useState("");
 
   const [showAddKeywordModal, setShowAddKeywordModal] = useState(false);
   const [selectedIngredient, setSelectedIngredient] = useState<string | null>(
     null,
   );
+  const [keywordProfileId, setKeywordProfileId] = useState(MAIN_PROFILE_ID);
   const [isSavingKeyword, setIsSavingKeyword] = useState(false);
   const [showUnsafeModal, setShowUnsafeModal] = useState(false);
   const hasShownModal = useRef(false);
@@ -413,19 +261,47 @@ export default function ResultsScreen() {
   const overallStatus: SafetyStatus =
     unsafeCount > 0 ? "unsafe" : cautionCount > 0 ? "caution" : "safe";
 
-  const matchedIngredients = analysisResult.matchedIngredients || [];
-  const matchedNames = new Set(
-    matchedIngredients.map((m) => m.name.toLowerCase()),
+  const matchedIngredients: MatchedIngredient[] =
+    analysisResult.matchedIngredients || [];
+  const labelText =
+    analysisResult.rawText ?? analysisResult.ingredients.join(", ");
+  const profileNames: Record<string, string> = Object.fromEntries(
+    analysisResult.results.map((r) => [r.profileId, r.name]),
   );
 
   useEffect(() => {
-    if (user && !hasSaved.current) {
+    if (householdId && !isLoadingProfiles && !hasSaved.current) {
       hasSaved.current = true;
-      saveScanToHistory(user.uid, analysisResult).catch((error) => {
-        console.error("Failed to save scan to history:", error);
-      });
+
+      // Compare with the previous scan of this product before saving over it
+      const allergies = profiles
+        .filter((p) => analysisResult.results.some((r) => r.profileId === p.id))
+        .flatMap((p) => p.allergies);
+
+      savedScanId.current = detectReformulation(
+        householdId,
+        isDemoMode,
+        analysisResult,
+        allergies,
+      )
+        .then((change) => {
+          if (!change) return;
+          if (hasNewAllergenRisk(change)) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          }
+          setReformulation(change);
+        })
+        .catch((error) => {
+          console.error("Failed to check for reformulation:", error);
+        })
+        .then(() => saveScanToHistory(householdId, analysisResult))
+        .then((scanId: string | undefined) => scanId ?? null)
+        .catch((error) => {
+          console.error("Failed to save scan to history:", error);
+          return null;
+        });
     }
-  }, [user, analysisResult]);
+  }, [householdId, isDemoMode, isLoadingProfiles, profiles, analysisResult]);
 
   useEffect(() => {
     if (!hasShownModal.current && (unsafeCount > 0 || cautionCount > 0)) {
@@ -446,8 +322,80 @@ export default function ResultsScreen() {
     navigation.popToTop();
   };
 
+  const handleEditText = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraftText(analysisResult.textCorrection?.correctedText ?? labelText);
+    setShowEditTextModal(true);
+  };
+
+  const handleReanalyze = () => {
+    const correctedText = draftText.trim();
+    if (!correctedText) return;
+
+    // Re-run against the profiles this scan was checked for
+    const scanProfiles = profiles.filter((p) =>
+      analysisResult.results.some((r) => r.profileId === p.id),
+    );
+    if (scanProfiles.length === 0) {
+      Alert.alert(
+        "Profiles Unavailable",
+        "The profiles this scan was checked against could not be loaded.",
+      );
+      return;
+    }
+
+    const corrected: RuleAnalysisResult = {
+      ...analyzeLabelText(correctedText, scanProfiles),
+      productData: analysisResult.productData,
+      textCorrection: {
+        originalText: analysisResult.textCorrection?.originalText ?? labelText,
+        correctedText,
+        correctedAt: new Date().toISOString(),
+      },
+    };
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setAnalysisResult(corrected);
+    setShowEditTextModal(false);
+    hasShownModal.current = false;
+
+    // Replaces the saved entry, which then carries both texts, so the
+    // misread scan is not counted twice
+    const saved = savedScanId.current;
+    if (householdId && saved) {
+      savedScanId.current = saved.then(async (scanId) => {
+        try {
+          if (!scanId) {
+            return (await saveScanToHistory(householdId, corrected)) ?? null;
+          }
+          await updateScanAnalysis(householdId, scanId, isDemoMode, corrected);
+        } catch (error) {
+          console.error("Failed to save corrected scan to history:", error);
+        }
+        return scanId;
+      });
+    }
+  };
+
+  // Anyone may edit their own profile, only parents the household's
+  const keywordResults = analysisResult.results.filter(
+    (r) => householdRole === "parent" || r.profileId === OWN_PROFILE_ID,
+  );
+
   const handleAddToKeywords = (ingredient: string) => {
+    if (keywordResults.length === 0) {
+      Alert.alert(
+        "Ask a Parent",
+        "Only parents in your household can change forbidden keywords.",
+      );
+      return;
+    }
+
+    const target =
+      keywordResults.find((r) => r.profileId === MAIN_PROFILE_ID) ??
+      keywordResults[0];
     setSelectedIngredient(ingredient);
+    setKeywordProfileId(target?.profileId ?? MAIN_PROFILE_ID);
     setShowAddKeywordModal(true);
   };
 
@@ -464,40 +412,33 @@ export default function ResultsScreen() {
       return;
     }
 
-    if (!user?.uid || !db || !isFirebaseConfigured) {
+    if (!householdId || !user || !db || !isFirebaseConfigured) {
       setIsSavingKeyword(false);
       return;
     }
 
     try {
-      const docRef = doc(
-        db,
-        "users",
-        user.uid,
-        "settings",
-        "forbiddenKeywords",
+      const stored = locateProfile(householdId, user.uid, keywordProfileId);
+      await addForbiddenKeyword(
+        stored.uid,
+        selectedIngredient,
+        stored.profileId,
       );
-      const docSnap = await getDoc(docRef);
 
-      let currentKeywords: string[] = [];
-      if (docSnap.exists()) {
-        currentKeywords = docSnap.data().keywords || [];
-      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Sync keywords back to AuthContext so future scans pick them up
+      if (stored.profileId === MAIN_PROFILE_ID) refreshUserProfile();
 
-      if (
-        !currentKeywords.some(
-          (k) => k.toLowerCase() === selectedIngredient.toLowerCase(),
-        )
-      ) {
-        await setDoc(docRef, {
-          keywords: [...currentKeywords, selectedIngredient],
-          updatedAt: new Date().toISOString(),
+      const profile = profiles.find((p) => p.id === keywordProfileId);
+      if (profile) {
+        reportVerdictChanges(profile, {
+          ...profile,
+          forbiddenKeywords: [
+            ...(profile.forbiddenKeywords || []),
+            selectedIngredient,
+          ],
         });
       }
-
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      // Sync keywords back to AuthContext so future scans pick them up
-      refreshUserProfile();
     } catch (error) {
       console.error("Error saving keyword:", error);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -508,6 +449,10 @@ export default function ResultsScreen() {
     }
   };
 
+  const keywordProfileName =
+    analysisResult.results.find((r) => r.profileId === keywordProfileId)
+      ?.name || "your";
+
   return (
     <View style={[styles.container, { backgroundColor: AppColors.background }]}>
       <ScrollView
@@ -562,11 +507,49 @@ export default function ResultsScreen() {
           </View>
         </View>
 
+        {analysisResult.productData ? (
+          <View style={styles.productDataRow}>
+            <Ionicons
+              name={
+                analysisResult.productData.fromCache
+                  ? "time-outline"
+                  : "cloud-done-outline"
+              }
+              size={14}
+              color={AppColors.secondaryText}
+            />
+            <ThemedText
+              style={[
+                styles.productDataText,
+                { color: AppColors.secondaryText },
+              ]}
+            >
+              {analysisResult.productData.fromCache
+                ? `Saved product data, last refreshed ${formatAsOf(analysisResult.productData.asOf)}`
+                : "Product data refreshed just now"}
+            </ThemedText>
+          </View>
+        ) : null}
+
+        {reformulation ? (
+          <ReformulationCard reformulation={reformulation} />
+        ) : null}
+
+        {analysisResult.productData?.barcode ? (
+          <ProductMarksCard
+            barcode={analysisResult.productData.barcode}
+            results={analysisResult.results}
+          />
+        ) : null}
+
         {analysisResult.ingredients.length > 0 ? (
           <>
             <IngredientHighlighter
-              rawText={analysisResult.ingredients.join(", ")}
+              rawText={labelText}
               matchedIngredients={matchedIngredients}
+              profileNames={profileNames}
+              isCorrected={!!analysisResult.textCorrection}
+              onEdit={handleEditText}
             />
             <View style={styles.ingredientsSection}>
               <ThemedText style={styles.sectionTitle}>
@@ -580,76 +563,79 @@ export default function ResultsScreen() {
               >
                 Tap a flagged ingredient to add it to your forbidden keywords
               </ThemedText>
-            <View style={styles.ingredientsContainer}>
-              {analysisResult.ingredients.map((ingredient, index) => {
-                const isMatched = matchedNames.has(ingredient.toLowerCase());
-                const matchInfo = matchedIngredients.find(
-                  (m) => m.name.toLowerCase() === ingredient.toLowerCase(),
-                );
-                const isAllergen = matchInfo?.type === "allergen";
-                const isKeyword = matchInfo?.type === "keyword";
-
-                return (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.ingredientChip,
-                      isMatched && {
-                        backgroundColor: isAllergen
-                          ? AppColors.destructive + "30"
-                          : isKeyword
-                            ? AppColors.destructive + "20"
-                            : AppColors.warning + "20",
-                        borderWidth: 1,
-                        borderColor:
-                          isAllergen || isKeyword
-                            ? AppColors.destructive
-                            : AppColors.warning,
-                      },
-                    ]}
-                    onPress={() => isMatched && handleAddToKeywords(ingredient)}
-                    disabled={!isMatched}
-                    activeOpacity={isMatched ? 0.7 : 1}
-                  >
-                    {isMatched ? (
-                      <Ionicons
-                        name={
-                          isAllergen || isKeyword ? "alert-circle" : "warning"
-                        }
-                        size={14}
-                        color={
-                          isAllergen || isKeyword
-                            ? AppColors.destructive
-                            : AppColors.warning
-                        }
-                      />
-                    ) : null}
-                    <ThemedText
+              <View style={styles.ingredientsContainer}>
+                {analysisResult.ingredients.map((ingredient, index) => {
+                  const matchInfo = findMatchForIngredient(
+                    ingredient,
+                    matchedIngredients,
+                  );
+                  const isMatched = !!matchInfo;
+                  const isAllergen = matchInfo?.type === "allergen";
+                  const isKeyword = matchInfo?.type === "keyword";
+
+                  return (
+                    <TouchableOpacity
+                      key={index}
                       style={[
-                        styles.ingredientText,
+                        styles.ingredientChip,
                         isMatched && {
-                          color:
+                          backgroundColor: isAllergen
+                            ? AppColors.destructive + "30"
+                            : isKeyword
+                              ? AppColors.destructive + "20"
+                              : AppColors.warning + "20",
+                          borderWidth: 1,
+                          borderColor:
                             isAllergen || isKeyword
                               ? AppColors.destructive
                               : AppColors.warning,
-                          fontWeight: "600",
                         },
                       ]}
+                      onPress={() =>
+                        isMatched && handleAddToKeywords(ingredient)
+                      }
+                      disabled={!isMatched}
+                      activeOpacity={isMatched ? 0.7 : 1}
                     >
-                      {ingredient}
-                    </ThemedText>
-                    {isMatched ? (
-                      <Feather
-                        name="plus-circle"
-                        size={14}
-                        color={AppColors.primary}
-                      />
-                    ) : null}
-                  </TouchableOpacity>
-                );
-              })}
+                      {isMatched ? (
+                        <Ionicons
+                          name={
+                            isAllergen || isKeyword ? "alert-circle" : "warning"
+                          }
+                          size={14}
+                          color={
+                            isAllergen || isKeyword
+                              ? AppColors.destructive
+                              : AppColors.warning
+                          }
+                        />
+                      ) : null}
+                      <ThemedText
+                        style={[
+                          styles.ingredientText,
+                          isMatched && {
+                            color:
+                              isAllergen || isKeyword
+                                ? AppColors.destructive
+                                : AppColors.warning,
+                            fontWeight: "600",
+                          },
+                        ]}
+                      >
+                        {ingredient}
+                      </ThemedText>
+                      {isMatched ? (
+                        <Feather
+                          name="plus-circle"
+                          size={14}
+                          color={AppColors.primary}
+                        />
+                      ) : null}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
             </View>
-          </View>
           </>
         ) : null}
 
@@ -712,10 +698,50 @@ export default function ResultsScreen() {
                 { color: AppColors.secondaryText },
               ]}
             >
-              Add &quot;{selectedIngredient}&quot; to your forbidden keywords?
-              This ingredient will be flagged in all future scans.
+              Add &quot;{selectedIngredient}&quot; to{" "}
+              {keywordResults.length > 1 ? `${keywordProfileName}'s` : "your"}{" "}
+              forbidden keywords? This ingredient will be flagged in all future
+              scans.
             </ThemedText>
 
+            {keywordResults.length > 1 ? (
+              <View style={styles.keywordProfiles}>
+                {keywordResults.map((result) => {
+                  const isSelected = result.profileId === keywordProfileId;
+                  return (
+                    <TouchableOpacity
+                      key={result.profileId}
+                      style={[
+                        styles.keywordProfileChip,
+                        {
+                          backgroundColor: isSelected
+                            ? AppColors.primary
+                            : AppColors.surface,
+                        },
+                      ]}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setKeywordProfileId(result.profileId);
+                      }}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.keywordProfileText,
+                          {
+                            color: isSelected
+                              ? AppColors.text
+                              : AppColors.secondaryText,
+                          },
+                        ]}
+                      >
+                        {result.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ) : null}
+
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={[
@@ -750,10 +776,81 @@ export default function ResultsScreen() {
         </View>
       </Modal>
 
+      <Modal
+        visible={showEditTextModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowEditTextModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: AppColors.background },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <ThemedText style={styles.modalTitle}>
+                Correct Ingredient Text
+              </ThemedText>
+              <TouchableOpacity onPress={() => setShowEditTextModal(false)}>
+                <Feather name="x" size={24} color={AppColors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ThemedText
+              style={[
+                styles.modalDescription,
+                { color: AppColors.secondaryText },
+              ]}
+            >
+              Fix any words the scanner misread, then re-analyze. The original
+              text is kept with the scan.
+            </ThemedText>
+
+            <TextInput
+              style={[styles.correctionInput, { color: AppColors.text }]}
+              value={draftText}
+              onChangeText={setDraftText}
+              multiline
+              autoCorrect={false}
+              autoCapitalize="none"
+              textAlignVertical="top"
+            />
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: AppColors.surface },
+                ]}
+                onPress={() => setShowEditTextModal(false)}
+              >
+                <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  { backgroundColor: AppColors.primaryDark },
+                  !draftText.trim() && { opacity: 0.6 },
+                ]}
+                onPress={handleReanalyze}
+                disabled={!draftText.trim()}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: "#fff" }]}>
+                  Re-analyze
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       <UnsafeIssuesModal
         visible={showUnsafeModal}
         onClose={() => setShowUnsafeModal(false)}
         results={analysisResult.results}
+        matchedIngredients={matchedIngredients}
         fullIngredients={analysisResult.ingredients}
         isFamilyChecked={analysisResult.results.length > 1}
       />
@@ -842,84 +939,39 @@ const styles = StyleSheet.create({
   resultsContainer: {
     gap: Spacing.md,
   },
-  resultCard: {
-    borderRadius: BorderRadius.md,
-    borderWidth: 1,
-    padding: Spacing.lg,
-    overflow: "hidden",
-  },
-  resultHeader: {
+  productDataRow: {
     flexDirection: "row",
     alignItems: "center",
-    marginBottom: Spacing.md,
-  },
-  iconCircle: {
-    width: 56,
-    height: 56,
-    borderRadius: 28,
-    alignItems: "center",
     justifyContent: "center",
-  },
-  resultInfo: {
-    marginLeft: Spacing.md,
-  },
-  profileName: {
-    fontSize: 18,
-    fontWeight: "600",
-  },
-  statusText: {
-    fontSize: 14,
-    fontWeight: "500",
-    marginTop: 2,
-  },
-  resultBody: {
-    marginTop: Spacing.sm,
-  },
-  safeMessage: {
-    fontSize: 14,
-    color: AppColors.secondaryText,
-    lineHeight: 20,
-  },
-  issuesList: {
-    gap: Spacing.md,
-  },
-  issueSection: {
-    gap: Spacing.sm,
-  },
-  issueSectionTitle: {
-    fontSize: 13,
-    fontWeight: "600",
-  },
-  tagsContainer: {
-    flexDirection: "row",
-    flexWrap: "wrap",
     gap: Spacing.xs,
+    marginBottom: Spacing.lg,
   },
-  tag: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: Spacing.sm,
-    paddingVertical: 4,
-    borderRadius: BorderRadius.sm,
-    gap: 4,
-  },
-  tagText: {
+  productDataText: {
     fontSize: 12,
-    fontWeight: "600",
   },
-  reasonsList: {
+  reformulationCard: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
     gap: Spacing.xs,
-    marginTop: Spacing.sm,
   },
-  reasonRow: {
+  reformulationHeader: {
     flexDirection: "row",
-    alignItems: "flex-start",
+    alignItems: "center",
     gap: Spacing.sm,
   },
-  reasonText: {
+  reformulationTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  reformulationMeta: {
     fontSize: 13,
-    flex: 1,
-    lineHeight: 18,
+    marginBottom: Spacing.xs,
+  },
+  reformulationLine: {
+    fontSize: 14,
+    lineHeight: 20,
   },
   footer: {
     flexDirection: "row",
@@ -973,10 +1025,37 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: Spacing.xl,
   },
+  keywordProfiles: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  keywordProfileChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  keywordProfileText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   modalActions: {
     flexDirection: "row",
     gap: Spacing.md,
   },
+  correctionInput: {
+    backgroundColor: AppColors.surface,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: AppColors.divider,
+    padding: Spacing.md,
+    fontSize: 14,
+    lineHeight: 20,
+    minHeight: 140,
+    maxHeight: 260,
+    marginBottom: Spacing.xl,
+  },
   modalButton: {
     flex: 1,
     paddingVertical: Spacing.md,
@@ -23,7 +23,7 @@ export default function RoleSelectionScreen() {
 
   const handleMemberRole = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    navigation.navigate("AllergySetup");
+    navigation.navigate("JoinHousehold");
   };
 
   return (
@@ -81,7 +81,7 @@ export default function RoleSelectionScreen() {
               ]}
             >
               Manage family members, set up allergies and preferences for
-              everyone, and control who can scan.
+              everyone, and invite others to your household.
             </ThemedText>
           </View>
           <Feather
@@ -114,8 +114,8 @@ export default function RoleSelectionScreen() {
                 { color: AppColors.secondaryText },
               ]}
             >
-              Set up your personal profile only. A parent or admin will manage
-              the family settings.
+              Join your family&apos;s household with an invite from a parent,
+              then set up your personal profile.
             </ThemedText>
           </View>
           <Feather
@@ -18,33 +18,31 @@ import { Image } from "expo-image";
 import * as ImageManipulator from "expo-image-manipulator";
 import { Feather, Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { doc, getDoc } from "firebase/firestore";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { AppColors } from "@/constants/colors";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { ScanStackParamList } from "@/navigation/ScanStackNavigator";
-import {
-  analyzeImage,
-  lookupBarcode,
-  analyzeBarcodeProduct,
-  ProfileInfo,
-} from "@/services/ai";
-import {
-  analyzeIngredientsText,
-  analyzeIngredientsTextEnhanced,
-} from "@/services/analysisPipeline";
+import { lookupBarcode, analyzeBarcodeProduct } from "@/services/ai";
+import { analyzeIngredientsTextEnhanced } from "@/services/analysisPipeline";
+import { analyzeLabelText } from "@/services/labelRules";
+import { MAX_LABEL_SHOTS, analyzeLabelImages } from "@/services/labelCapture";
+import { MAX_ATTEMPTS, enqueueScan } from "@/services/scanQueue";
+import { getCachedProduct, toGtin14 } from "@/services/productCache";
 import { useAuth } from "@/contexts/AuthContext";
-import { db, isFirebaseConfigured } from "@/services/firebase";
+import { useHouseholdProfiles } from "@/hooks/useHouseholdProfiles";
+import { useScanQueue } from "@/hooks/useScanQueue";
 
 type ScanScreenNavigationProp = NativeStackNavigationProp<
   ScanStackParamList,
   "Scan"
 >;
+type ScanScreenRouteProp = RouteProp<ScanStackParamList, "Scan">;
 type ScanMode = "camera" | "barcode";
+type BarcodeProduct = NonNullable<Awaited<ReturnType<typeof lookupBarcode>>>;
 
 interface CapturedImage {
   uri: string;
@@ -54,168 +52,58 @@ interface CapturedImage {
 export default function ScanScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<ScanScreenNavigationProp>();
-  const { user } = useAuth();
+  const route = useRoute<ScanScreenRouteProp>();
+  const { householdId } = useAuth();
+  const {
+    profiles,
+    isLoading: profilesLoading,
+    error: profilesError,
+  } = useHouseholdProfiles();
+  const { pendingScans, retryNow, discardScan } = useScanQueue();
   const [permission, requestPermission] = useCameraPermissions();
   const [facing, setFacing] = useState<"back" | "front">("back");
-  const [scanMode, setScanMode] = useState<ScanMode>("camera");
-  const [capturedImage, setCapturedImage] = useState<CapturedImage | null>(
-    null,
+  const [scanMode, setScanMode] = useState<ScanMode>(
+    route.params?.mode ?? "camera",
   );
+  const [shots, setShots] = useState<CapturedImage[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [profiles, setProfiles] = useState<ProfileInfo[]>([]);
   const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([]);
   const [showProfileSelector, setShowProfileSelector] = useState(false);
   const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
   const [isProcessingBarcode, setIsProcessingBarcode] = useState(false);
   const cameraRef = useRef<CameraView>(null);
+  const knownProfileIds = useRef<Set<string>>(new Set());
+
+  // The tab stays mounted, so a mode passed on a later visit is applied here
+  const requestedMode = route.params?.mode;
+  useEffect(() => {
+    if (!requestedMode) return;
+    setScanMode(requestedMode);
+    setScannedBarcode(null);
+    navigation.setParams({ mode: undefined });
+  }, [requestedMode, navigation]);
 
   const selectedProfiles = profiles.filter((p) =>
     selectedProfileIds.includes(p.id),
   );
+  // A scan checked against no profiles would always come back safe
+  const canScan = !profilesLoading && selectedProfiles.length > 0;
 
+  // Keep the selection in sync with the live profile list: profiles that
+  // appear (e.g. a newly added family member) start out selected, removed
+  // ones drop out of the selection.
   useEffect(() => {
-    loadProfiles();
-  }, [user]);
-
-  const loadProfiles = async () => {
-    const loadedProfiles: ProfileInfo[] = [];
-    let forbiddenKeywords: string[] = [];
-
-    // Get user display name for profile
-    const userName = user?.displayName || user?.email?.split("@")[0] || "You";
-
-    if (user && isFirebaseConfigured && db) {
-      try {
-        // Load forbidden keywords first
-        const keywordsRef = doc(
-          db,
-          "users",
-          user.uid,
-          "settings",
-          "forbiddenKeywords",
-        );
-        const keywordsSnap = await getDoc(keywordsRef);
-        if (keywordsSnap.exists()) {
-          forbiddenKeywords = keywordsSnap.data().keywords || [];
-        }
-
-        // Load main user profile from Firestore
-        const mainProfileRef = doc(db, "users", user.uid);
-        const mainProfileSnap = await getDoc(mainProfileRef);
-
-        if (mainProfileSnap.exists()) {
-          const userData = mainProfileSnap.data();
-          const profileData = userData.mainProfile || {};
-
-          // Extract allergies from structured format
-          const allergiesData = profileData.allergies || {};
-          const commonAllergies = allergiesData.common || [];
-          const customAllergies = allergiesData.custom || [];
-          const allAllergies = [...commonAllergies, ...customAllergies];
-
-          // Extract preferences from structured format
-          const preferencesData = profileData.preferences || {};
-          const commonPreferences = preferencesData.common || [];
-          const customPreferences = preferencesData.custom || [];
-          const allPreferences = [...commonPreferences, ...customPreferences];
-
-          loadedProfiles.push({
-            id: "mainProfile",
-            name: profileData.name || userName,
-            allergies: allAllergies,
-            preferences: allPreferences,
-            forbiddenKeywords,
-          });
-
-          console.log("Loaded main profile:", loadedProfiles[0]);
-        } else {
-          // User exists but no profile data yet - create default
-          loadedProfiles.push({
-            id: "mainProfile",
-            name: userName,
-            allergies: [],
-            preferences: [],
-            forbiddenKeywords,
-          });
-        }
-
-        // Load family member profiles
-        for (let i = 1; i <= 4; i++) {
-          const memberRef = doc(
-            db,
-            "users",
-            user.uid,
-            "familyProfiles",
-            `member${i}`,
-          );
-          const memberSnap = await getDoc(memberRef);
-          if (memberSnap.exists()) {
-            const data = memberSnap.data();
-
-            // Extract allergies from structured format for family members
-            const memberAllergies = data.allergies || {};
-            const memberCommonAllergies = Array.isArray(memberAllergies)
-              ? memberAllergies
-              : [...(memberAllergies.common || []), ...(memberAllergies.custom || [])];
-
-            // Extract preferences from structured format for family members
-            const memberPreferences = data.preferences || {};
-            const memberCommonPreferences = Array.isArray(memberPreferences)
-              ? memberPreferences
-              : [...(memberPreferences.common || []), ...(memberPreferences.custom || [])];
-
-            loadedProfiles.push({
-              id: `member${i}`,
-              name: data.name || `Family Member ${i}`,
-              allergies: memberCommonAllergies,
-              preferences: memberCommonPreferences,
-              forbiddenKeywords,
-            });
-          }
-        }
-      } catch (error) {
-        console.error("Error loading profiles from Firestore:", error);
-        // Fallback to empty profile on error
-        loadedProfiles.push({
-          id: "mainProfile",
-          name: userName,
-          allergies: [],
-          preferences: [],
-          forbiddenKeywords: [],
-        });
-      }
-    } else {
-      // Demo mode or Firebase not configured - use demo data
-      loadedProfiles.push({
-        id: "mainProfile",
-        name: userName,
-        allergies: ["Dairy", "Peanuts"],
-        preferences: ["Vegetarian"],
-        forbiddenKeywords: ["MSG", "Artificial colors"],
-      });
-    }
-
-    // Ensure we always have at least one profile
-    if (loadedProfiles.length === 0) {
-      loadedProfiles.push({
-        id: "mainProfile",
-        name: userName,
-        allergies: [],
-        preferences: [],
-        forbiddenKeywords: [],
-      });
-    }
-
-    setProfiles(loadedProfiles);
-    setSelectedProfileIds(loadedProfiles.map((p) => p.id));
-
-    console.log("Loaded profiles:", loadedProfiles.map(p => ({
-      name: p.name,
-      allergies: p.allergies,
-      preferences: p.preferences
-    })));
-  };
+    const currentIds = profiles.map((p) => p.id);
+    setSelectedProfileIds((prev) => {
+      const kept = prev.filter((id) => currentIds.includes(id));
+      const added = currentIds.filter((id) => !knownProfileIds.current.has(id));
+      return kept.length > 0 || added.length > 0
+        ? [...kept, ...added]
+        : currentIds;
+    });
+    knownProfileIds.current = new Set(currentIds);
+  }, [profiles]);
 
   const handleBarcodeScanned = async (result: BarcodeScanningResult) => {
     if (isProcessingBarcode || scannedBarcode) return;
@@ -226,10 +114,15 @@ export default function ScanScreen() {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
     try {
-      // Look up the product using Open Food Facts API
-      const product = await lookupBarcode(barcode);
+      // Look up the product (local cache first, then Open Food Facts)
+      const cached = await getCachedProduct<BarcodeProduct>(
+        "openFoodFacts",
+        barcode,
+        lookupBarcode,
+        (p) => p.found,
+      );
 
-      if (!product.found) {
+      if (!cached) {
         // Product not found in database - show alert
         Alert.alert(
           "Product Not Found",
@@ -257,17 +150,26 @@ export default function ScanScreen() {
 
       // Analyze the product using the deterministic pipeline
       // Combine ingredients and allergens into text for the engine
+      const product = cached.product;
       const ingredientText = [
         ...(product.ingredients || []),
         ...(product.allergens || []).map((a) => `Contains: ${a}`),
       ].join(", ");
 
       const analysisResult = ingredientText.length > 0
-        ? analyzeIngredientsText(ingredientText, selectedProfiles)
+        ? analyzeLabelText(ingredientText, selectedProfiles)
         : analyzeBarcodeProduct(product, selectedProfiles);
 
       navigation.navigate("Results", {
-        analysisResult,
+        analysisResult: {
+          ...analysisResult,
+          productData: {
+            asOf: cached.fetchedAt,
+            fromCache: cached.fromCache,
+            barcode: toGtin14(barcode) ?? barcode,
+            source: "openFoodFacts",
+          },
+        },
       });
     } catch (error) {
       console.error("Barcode processing error:", error);
@@ -357,6 +259,14 @@ export default function ScanScreen() {
   const handleCapture = async () => {
     if (!cameraRef.current || isCapturing) return;
 
+    if (shots.length >= MAX_LABEL_SHOTS) {
+      Alert.alert(
+        "Photo Limit",
+        `You can combine up to ${MAX_LABEL_SHOTS} photos of one label.`,
+      );
+      return;
+    }
+
     setIsCapturing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
@@ -377,43 +287,9 @@ export default function ScanScreen() {
           },
         );
 
-        if (manipulated.base64) {
-          setCapturedImage({
-            uri: manipulated.uri,
-            base64: manipulated.base64,
-          });
-          setIsAnalyzing(true);
-
-          try {
-            // Step 1: Try server API (OCR + deterministic pipeline)
-            let result;
-            try {
-              result = await analyzeImage(
-                manipulated.base64,
-                selectedProfiles,
-              );
-
-              // Server now runs the full pipeline and returns
-              // AnalysisResult directly — no client-side re-analysis needed.
-              // Only fall through if server returned mock data AND we're offline.
-            } catch {
-              // Step 2: Server unreachable — run mock text through local engine
-              const mockText =
-                "Wheat flour, Sugar, Milk, Eggs, Salt, Vegetable oil, " +
-                "Natural flavors, Soy lecithin, Modified corn starch, " +
-                "Sodium benzoate, MSG, Artificial colors (Red 40). " +
-                "Contains: wheat, milk, eggs, soy.";
-              result = analyzeIngredientsText(mockText, selectedProfiles);
-            }
-
-            setIsAnalyzing(false);
-            setCapturedImage(null);
-            navigation.navigate("Results", { analysisResult: result });
-          } catch (error) {
-            console.error("Analysis error:", error);
-            setIsAnalyzing(false);
-            Alert.alert("Error", "Failed to analyze image. Please try again.");
-          }
+        const base64 = manipulated.base64;
+        if (base64) {
+          setShots((prev) => [...prev, { uri: manipulated.uri, base64 }]);
         }
       }
     } catch (error) {
@@ -424,10 +300,120 @@ export default function ScanScreen() {
     }
   };
 
-  const handleRetake = () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setCapturedImage(null);
+  const handleAnalyzeShots = async () => {
+    if (shots.length === 0 || isAnalyzing || !canScan) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsAnalyzing(true);
+
+    const images = shots.map((shot) => shot.base64);
+
+    let result;
+    try {
+      // Reads every shot, merges the label text and applies the rules
+      result = await analyzeLabelImages(images, selectedProfiles);
+    } catch (error) {
+      // Never show a guessed result: keep the photos until the server
+      // has analyzed them.
+      console.error("Analysis error:", error);
+      await queueShots(images);
+      return;
+    }
+
     setIsAnalyzing(false);
+    setShots([]);
+    navigation.navigate("Results", { analysisResult: result });
+  };
+
+  const queueShots = async (images: string[]) => {
+    // Queued results are saved to history, so there has to be one
+    if (!householdId) {
+      setIsAnalyzing(false);
+      Alert.alert("Error", "Failed to analyze image. Please try again.");
+      return;
+    }
+
+    try {
+      await enqueueScan(householdId, images, selectedProfiles);
+      setShots([]);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Alert.alert(
+        "Not Analyzed Yet",
+        "We couldn't reach the server. Your photos are saved and will be " +
+          "analyzed automatically once you're back online. Don't rely on " +
+          "this product until the result arrives.",
+      );
+    } catch (error) {
+      console.error("Error queueing scan:", error);
+      Alert.alert(
+        "Error",
+        "Failed to analyze image and the offline queue is full. Please try again later.",
+      );
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleProfilesErrorPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert("Profiles Not Loaded", profilesError ?? "");
+  };
+
+  const failedCount = pendingScans.filter((scan) => scan.failed).length;
+
+  const handlePendingPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      "Pending Scans",
+      `${pendingScans.length} scan${pendingScans.length !== 1 ? "s have" : " has"} not been analyzed yet. ` +
+        (failedCount > 0
+          ? `${failedCount} failed ${MAX_ATTEMPTS} times and won't be retried automatically. Retry now or discard ${failedCount !== 1 ? "them" : "it"}.`
+          : "They are retried automatically when the server is reachable."),
+      [
+        { text: "Close", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => {
+            pendingScans.forEach((scan) => discardScan(scan.id));
+          },
+        },
+        {
+          text: "Retry Now",
+          onPress: async () => {
+            let processed;
+            try {
+              processed = await retryNow();
+            } catch (error) {
+              console.error("Error retrying queued scans:", error);
+              processed = [];
+            }
+            Alert.alert(
+              processed.length > 0 ? "Scans Analyzed" : "Still Pending",
+              processed.length > 0
+                ? `${processed.length} scan${processed.length !== 1 ? "s were" : " was"} analyzed. See the results in your scan history.`
+                : "The server is still unreachable. We'll keep trying.",
+            );
+          },
+        },
+      ],
+    );
+  };
+
+  const removeShot = (index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setShots((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const moveShot = (index: number, offset: -1 | 1) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setShots((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   const toggleFacing = () => {
@@ -441,7 +427,7 @@ export default function ScanScreen() {
     setScannedBarcode(null);
   };
 
-  if (capturedImage) {
+  if (isAnalyzing && shots.length > 0) {
     return (
       <View
         style={[styles.container, { backgroundColor: AppColors.background }]}
@@ -452,51 +438,32 @@ export default function ScanScreen() {
             { paddingTop: insets.top + Spacing.lg },
           ]}
         >
-          <ThemedText style={styles.previewTitle}>
-            {isAnalyzing ? "Analyzing..." : "Preview"}
-          </ThemedText>
+          <ThemedText style={styles.previewTitle}>Analyzing...</ThemedText>
         </View>
 
         <View style={styles.previewContainer}>
           <Image
-            source={{ uri: capturedImage.uri }}
+            source={{ uri: shots[0].uri }}
             style={styles.previewImage}
             contentFit="contain"
           />
 
-          {isAnalyzing ? (
-            <View style={styles.analyzingOverlay}>
-              <ActivityIndicator size="large" color={AppColors.primary} />
-              <ThemedText style={styles.analyzingText}>
-                Scanning for allergens...
-              </ThemedText>
-              <ThemedText
-                style={[
-                  styles.analyzingSubtext,
-                  { color: AppColors.secondaryText },
-                ]}
-              >
-                Checking {profiles.length} profile
-                {profiles.length !== 1 ? "s" : ""}
-              </ThemedText>
-            </View>
-          ) : null}
-        </View>
-
-        <View
-          style={[
-            styles.previewControls,
-            { paddingBottom: insets.bottom + Spacing.xl },
-          ]}
-        >
-          <Button
-            onPress={handleRetake}
-            style={styles.retakeButton}
-            disabled={isAnalyzing}
-          >
-            <Feather name="refresh-cw" size={20} color={AppColors.text} />
-            <ThemedText style={styles.retakeButtonText}>Retake</ThemedText>
-          </Button>
+          <View style={styles.analyzingOverlay}>
+            <ActivityIndicator size="large" color={AppColors.primary} />
+            <ThemedText style={styles.analyzingText}>
+              Scanning for allergens...
+            </ThemedText>
+            <ThemedText
+              style={[
+                styles.analyzingSubtext,
+                { color: AppColors.secondaryText },
+              ]}
+            >
+              {shots.length > 1 ? `Combining ${shots.length} photos · ` : ""}
+              Checking {profiles.length} profile
+              {profiles.length !== 1 ? "s" : ""}
+            </ThemedText>
+          </View>
         </View>
       </View>
     );
@@ -523,7 +490,7 @@ export default function ScanScreen() {
             : undefined
         }
         onBarcodeScanned={
-          scanMode === "barcode" ? handleBarcodeScanned : undefined
+          scanMode === "barcode" && canScan ? handleBarcodeScanned : undefined
         }
       >
         <View style={[styles.overlay, { paddingTop: insets.top }]}>
@@ -542,8 +509,9 @@ export default function ScanScreen() {
                   { color: "rgba(255,255,255,0.9)" },
                 ]}
               >
-                {selectedProfiles.length} of {profiles.length} profile
-                {profiles.length !== 1 ? "s" : ""}
+                {profilesLoading
+                  ? "Loading profiles…"
+                  : `${selectedProfiles.length} of ${profiles.length} profile${profiles.length !== 1 ? "s" : ""}`}
               </ThemedText>
               <Ionicons
                 name={showProfileSelector ? "chevron-up" : "chevron-down"}
@@ -551,6 +519,42 @@ export default function ScanScreen() {
                 color="rgba(255,255,255,0.7)"
               />
             </TouchableOpacity>
+            {profilesError ? (
+              <TouchableOpacity
+                style={[styles.pendingBanner, styles.profilesErrorBanner]}
+                onPress={handleProfilesErrorPress}
+              >
+                <Ionicons
+                  name="alert-circle"
+                  size={16}
+                  color={AppColors.destructive}
+                />
+                <ThemedText style={styles.profilesErrorText}>
+                  Some profiles couldn&apos;t be loaded
+                </ThemedText>
+              </TouchableOpacity>
+            ) : null}
+            {pendingScans.length > 0 ? (
+              <TouchableOpacity
+                style={styles.pendingBanner}
+                onPress={handlePendingPress}
+              >
+                <Ionicons
+                  name={
+                    failedCount > 0 ? "alert-circle" : "cloud-offline-outline"
+                  }
+                  size={16}
+                  color={
+                    failedCount > 0 ? AppColors.destructive : AppColors.warning
+                  }
+                />
+                <ThemedText style={styles.pendingBannerText}>
+                  {failedCount > 0
+                    ? `${pendingScans.length} pending — ${failedCount} failed`
+                    : `${pendingScans.length} pending — not yet analyzed`}
+                </ThemedText>
+              </TouchableOpacity>
+            ) : null}
           </View>
 
           {showProfileSelector ? (
@@ -670,9 +674,11 @@ export default function ScanScreen() {
 
         <View style={styles.instructions}>
           <ThemedText style={styles.instructionText}>
-            {scanMode === "camera"
-              ? "Position the food label or menu within the frame"
-              : "Point at a product barcode to scan"}
+            {scanMode === "barcode"
+              ? "Point at a product barcode to scan"
+              : shots.length > 0
+                ? "Rotate the package and add the next part of the label"
+                : "Position the food label or menu within the frame"}
           </ThemedText>
         </View>
 
@@ -685,6 +691,80 @@ export default function ScanScreen() {
           </View>
         ) : null}
 
+        {scanMode === "camera" && shots.length > 0 ? (
+          <View
+            style={[
+              styles.shotTray,
+              { bottom: insets.bottom + Spacing.xl + 96 },
+            ]}
+          >
+            <View style={styles.shotList}>
+              {shots.map((shot, index) => (
+                <View key={shot.uri} style={styles.shotItem}>
+                  <Image
+                    source={{ uri: shot.uri }}
+                    style={styles.shotThumbnail}
+                    contentFit="cover"
+                  />
+                  <View style={styles.shotNumber}>
+                    <ThemedText style={styles.shotNumberText}>
+                      {index + 1}
+                    </ThemedText>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.shotDelete}
+                    onPress={() => removeShot(index)}
+                  >
+                    <Feather name="x" size={12} color={AppColors.text} />
+                  </TouchableOpacity>
+                  <View style={styles.shotMoveRow}>
+                    <TouchableOpacity
+                      onPress={() => moveShot(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <Feather
+                        name="chevron-left"
+                        size={18}
+                        color={
+                          index === 0 ? "rgba(255,255,255,0.3)" : AppColors.text
+                        }
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => moveShot(index, 1)}
+                      disabled={index === shots.length - 1}
+                    >
+                      <Feather
+                        name="chevron-right"
+                        size={18}
+                        color={
+                          index === shots.length - 1
+                            ? "rgba(255,255,255,0.3)"
+                            : AppColors.text
+                        }
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.analyzeShotsButton,
+                !canScan && styles.analyzeShotsButtonDisabled,
+              ]}
+              onPress={handleAnalyzeShots}
+              activeOpacity={0.8}
+              disabled={!canScan}
+            >
+              <Feather name="check" size={18} color={AppColors.background} />
+              <ThemedText style={styles.analyzeShotsText}>
+                Analyze {shots.length} photo{shots.length !== 1 ? "s" : ""}
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
         <View
           style={[
             styles.controls,
@@ -703,11 +783,11 @@ export default function ScanScreen() {
             <TouchableOpacity
               style={[
                 styles.captureButton,
-                isCapturing && styles.captureButtonDisabled,
+                (isCapturing || !canScan) && styles.captureButtonDisabled,
               ]}
               onPress={handleCapture}
               activeOpacity={0.8}
-              disabled={isCapturing}
+              disabled={isCapturing || !canScan}
             >
               {isCapturing ? (
                 <ActivityIndicator size="small" color={AppColors.background} />
@@ -970,19 +1050,77 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
     fontSize: 14,
   },
-  previewControls: {
+  shotTray: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    alignItems: "center",
     paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
   },
-  retakeButton: {
+  shotList: {
     flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  shotItem: {
+    alignItems: "center",
+  },
+  shotThumbnail: {
+    width: 56,
+    height: 72,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: AppColors.primary,
+  },
+  shotNumber: {
+    position: "absolute",
+    top: 4,
+    left: 4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: "rgba(0,0,0,0.7)",
     alignItems: "center",
     justifyContent: "center",
-    backgroundColor: AppColors.surface,
-    gap: Spacing.sm,
   },
-  retakeButtonText: {
-    fontSize: 16,
+  shotNumberText: {
+    fontSize: 11,
     fontWeight: "600",
+    color: "#fff",
+  },
+  shotDelete: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: AppColors.destructive,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  shotMoveRow: {
+    flexDirection: "row",
+    marginTop: 2,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    borderRadius: BorderRadius.full,
+  },
+  analyzeShotsButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: AppColors.primary,
+    gap: Spacing.xs,
+  },
+  analyzeShotsButtonDisabled: {
+    opacity: 0.5,
+  },
+  analyzeShotsText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.background,
   },
   profileSelector: {
     flexDirection: "row",
@@ -994,6 +1132,31 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.full,
     gap: Spacing.xs,
   },
+  pendingBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: AppColors.warning,
+    gap: Spacing.xs,
+  },
+  pendingBannerText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.warning,
+  },
+  profilesErrorBanner: {
+    borderColor: AppColors.destructive,
+  },
+  profilesErrorText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: AppColors.destructive,
+  },
   profileSelectorDropdown: {
     marginHorizontal: Spacing.lg,
     marginTop: Spacing.sm,
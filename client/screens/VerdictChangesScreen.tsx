@@ -0,0 +1,202 @@
+import React from "react";
+import {
+  View,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { AppColors } from "@/constants/colors";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { HistoryStackParamList } from "@/navigation/HistoryStackNavigator";
+import { getScan } from "@/services/historyRecords";
+import { RuleProfileResult } from "@/services/labelRules";
+import { formatScanDate } from "@/services/scanHistory";
+import { ChangedScan, MAX_REEVALUATED_SCANS } from "@/services/verdictChanges";
+
+type VerdictChangesRouteProp = RouteProp<
+  HistoryStackParamList,
+  "VerdictChanges"
+>;
+
+const STATUS_COLORS: Record<RuleProfileResult["status"], string> = {
+  safe: AppColors.success,
+  caution: AppColors.warning,
+  unsafe: AppColors.destructive,
+};
+
+function StatusLabel({ status }: { status: RuleProfileResult["status"] }) {
+  return (
+    <ThemedText style={[styles.status, { color: STATUS_COLORS[status] }]}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </ThemedText>
+  );
+}
+
+export default function VerdictChangesScreen() {
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const navigation =
+    useNavigation<NativeStackNavigationProp<HistoryStackParamList>>();
+  const route = useRoute<VerdictChangesRouteProp>();
+  const { changes, isCapped } = route.params;
+  const { householdId, isDemoMode } = useAuth();
+
+  const handlePress = async (item: ChangedScan) => {
+    if (!householdId) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const scan = await getScan(householdId, isDemoMode, item.scanId);
+      if (!scan) {
+        Alert.alert(
+          "Scan Not Found",
+          "This scan is no longer in your history.",
+        );
+        return;
+      }
+      navigation.navigate("HistoryDetail", { scan });
+    } catch (error) {
+      console.error("Error loading scan:", error);
+      Alert.alert("Error", "Failed to open this scan. Please try again.");
+    }
+  };
+
+  const renderItem = ({ item }: { item: ChangedScan }) => (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: AppColors.surface }]}
+      onPress={() => handlePress(item)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.cardHeader}>
+        <View style={styles.cardInfo}>
+          <ThemedText style={styles.cardTitle} numberOfLines={1}>
+            {item.productName ||
+              (item.type === "barcode" ? "Product Scan" : "Menu/Label Scan")}
+          </ThemedText>
+          <ThemedText
+            style={[styles.cardDate, { color: AppColors.secondaryText }]}
+          >
+            Scanned {formatScanDate(item.scannedAt)}
+          </ThemedText>
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={20}
+          color={AppColors.secondaryText}
+        />
+      </View>
+
+      {item.changes.map((change) => (
+        <View key={change.profileId} style={styles.changeRow}>
+          <ThemedText style={styles.changeName} numberOfLines={1}>
+            {change.name}
+          </ThemedText>
+          <StatusLabel status={change.previousStatus} />
+          <Ionicons
+            name="arrow-forward"
+            size={14}
+            color={AppColors.secondaryText}
+          />
+          <StatusLabel status={change.currentStatus} />
+        </View>
+      ))}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: AppColors.background }]}>
+      <FlatList
+        data={changes}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.scanId}
+        contentContainerStyle={{
+          paddingTop: headerHeight + Spacing.lg,
+          paddingBottom: tabBarHeight + Spacing["3xl"],
+          paddingHorizontal: Spacing.lg,
+        }}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText style={styles.title}>
+              {changes.length === 1
+                ? "1 product changed verdict"
+                : `${changes.length} products changed verdict`}
+            </ThemedText>
+            <ThemedText
+              style={[styles.subtitle, { color: AppColors.secondaryText }]}
+            >
+              These products were checked again with your updated profile. Tap
+              one to see its details.
+              {isCapped
+                ? ` Only your last ${MAX_REEVALUATED_SCANS} scans were checked.`
+                : ""}
+            </ThemedText>
+          </View>
+        }
+        ItemSeparatorComponent={() => <View style={{ height: Spacing.md }} />}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: Spacing.xs,
+  },
+  card: {
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cardDate: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  changeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  changeName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,187 @@
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import {
+  CHEF_CARD_PHRASES,
+  ChefCardLanguage,
+  translateAllergen,
+} from "@shared/allergenTranslations";
+import { resolveAllergen } from "@shared/allergenOntology";
+import { escapeHtml } from "@/lib/html";
+import { HouseholdProfile, getAllergySeverity } from "@/services/profiles";
+
+/*
+ * Chef card.
+ *
+ * Merges the allergies of the chosen profiles into one card in the
+ * restaurant's language: each allergy with the derivatives to avoid, a
+ * warning on anaphylactic ones and a cross-contact request. The card is
+ * shown full screen and can be shared as an image (captured from the
+ * screen) or as a PDF.
+ */
+
+export interface ChefCardAllergen {
+  /** The allergy as written on the profile, e.g. "Dairy". */
+  allergy: string;
+  name: string;
+  derivatives: string[];
+  /** Anaphylactic for at least one of the profiles. */
+  severe: boolean;
+}
+
+export interface ChefCard {
+  language: ChefCardLanguage;
+  profileNames: string[];
+  title: string;
+  intro: string;
+  including: string;
+  severe: string;
+  crossContact: string;
+  ask: string;
+  other: string;
+  thanks: string;
+  allergens: ChefCardAllergen[];
+  /** Allergies without a translation, as written on the profiles. */
+  untranslated: string[];
+}
+
+/**
+ * Builds the card for the given profiles. An allergy listed on several
+ * profiles appears once, marked severe if it is anaphylactic for any of
+ * them.
+ */
+export function buildChefCard(
+  profiles: HouseholdProfile[],
+  language: ChefCardLanguage,
+): ChefCard {
+  const phrases = CHEF_CARD_PHRASES[language];
+  const form = profiles.length > 1 ? "group" : "one";
+  const allergens = new Map<string, ChefCardAllergen>();
+  const untranslated = new Map<string, string>();
+
+  for (const profile of profiles) {
+    for (const allergy of profile.allergies) {
+      const severe =
+        getAllergySeverity(profile.allergySeverities, allergy) ===
+        "anaphylactic";
+      const entry = resolveAllergen(allergy);
+      const translation = entry ? translateAllergen(entry.id, language) : null;
+
+      if (!entry || !translation) {
+        const key = allergy.trim().toLowerCase();
+        if (!untranslated.has(key)) untranslated.set(key, allergy.trim());
+        continue;
+      }
+
+      const existing = allergens.get(entry.id);
+      if (existing) {
+        existing.severe = existing.severe || severe;
+      } else {
+        allergens.set(entry.id, {
+          allergy,
+          name: translation.name,
+          derivatives: translation.derivatives,
+          severe,
+        });
+      }
+    }
+  }
+
+  return {
+    language,
+    profileNames: profiles.map((p) => p.name),
+    title: phrases.title,
+    intro: phrases.intro[form],
+    including: phrases.including,
+    severe: phrases.severe,
+    crossContact: phrases.crossContact,
+    ask: phrases.ask[form],
+    other: phrases.other,
+    thanks: phrases.thanks,
+    // Severe allergies first, so they are read before anything else
+    allergens: Array.from(allergens.values()).sort(
+      (a, b) => Number(b.severe) - Number(a.severe),
+    ),
+    untranslated: Array.from(untranslated.values()),
+  };
+}
+
+export function isChefCardEmpty(card: ChefCard): boolean {
+  return card.allergens.length === 0 && card.untranslated.length === 0;
+}
+
+export function buildChefCardHtml(card: ChefCard): string {
+  const allergens = card.allergens
+    .map(
+      (allergen) => `<li>
+        <div class="name">${escapeHtml(allergen.name)}</div>
+        ${allergen.severe ? `<div class="severe">${escapeHtml(card.severe)}</div>` : ""}
+        <div class="derivatives">${escapeHtml(card.including)} ${escapeHtml(allergen.derivatives.join(", "))}</div>
+      </li>`,
+    )
+    .join("");
+
+  const untranslated =
+    card.untranslated.length > 0
+      ? `<p class="other">${escapeHtml(card.other)} ${escapeHtml(card.untranslated.join(", "))}</p>`
+      : "";
+
+  return `<html lang="${card.language}">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #000; background: #fff; margin: 32px; }
+        .card { border: 4px solid #000; border-radius: 16px; padding: 24px; }
+        h1 { font-size: 32px; margin: 0 0 4px; }
+        .names { font-size: 16px; margin: 0 0 16px; }
+        .intro { font-size: 20px; font-weight: 600; }
+        ul { list-style: none; padding: 0; }
+        li { border-top: 2px solid #000; padding: 12px 0; }
+        .name { font-size: 26px; font-weight: 800; }
+        .severe { font-size: 16px; font-weight: 800; color: #fff; background: #b3261e; display: inline-block; padding: 2px 8px; margin: 4px 0; }
+        .derivatives { font-size: 17px; }
+        .other { font-size: 18px; font-weight: 600; }
+        .footer { font-size: 17px; border-top: 2px solid #000; padding-top: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        <h1>${escapeHtml(card.title)}</h1>
+        <p class="names">${escapeHtml(card.profileNames.join(" · "))}</p>
+        <p class="intro">${escapeHtml(card.intro)}</p>
+        <ul>${allergens}</ul>
+        ${untranslated}
+        <div class="footer">
+          <p>${escapeHtml(card.crossContact)}</p>
+          <p>${escapeHtml(card.ask)}</p>
+          <p><strong>${escapeHtml(card.thanks)}</strong></p>
+        </div>
+      </div>
+    </body>
+  </html>`;
+}
+
+async function share(uri: string, mimeType: string, UTI: string) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  await Sharing.shareAsync(uri, {
+    mimeType,
+    UTI,
+    dialogTitle: "Share Chef Card",
+  });
+}
+
+/** Renders the card to a PDF and opens the share sheet. */
+export async function shareChefCardPdf(card: ChefCard): Promise<void> {
+  const { uri } = await Print.printToFileAsync({
+    html: buildChefCardHtml(card),
+  });
+  await share(uri, "application/pdf", "com.adobe.pdf");
+}
+
+/** Opens the share sheet for a PNG captured from the on-screen card. */
+export async function shareChefCardImage(uri: string): Promise<void> {
+  await share(uri, "image/png", "public.png");
+}
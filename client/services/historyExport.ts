@@ -0,0 +1,274 @@
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import { escapeHtml } from "@/lib/html";
+import {
+  DateRange,
+  HistoryCursor,
+  StoredScan,
+  describeDateRange,
+  getScanDate,
+  getScanHistoryPage,
+  getScanVerdict,
+  isAfterDateRange,
+  isBeforeDateRange,
+} from "@/services/historyRecords";
+
+/*
+ * Scan history export.
+ *
+ * Writes the scans of a date range to CSV, JSON or a printable PDF in the
+ * cache directory and hands the file to the share sheet, so it can be
+ * mailed or saved before an allergist appointment. Each scan becomes one
+ * row. Matches, "may contain" advisories and age guidance are listed per
+ * profile ("Ann: milk, egg"), since which allergen affected whom is what
+ * the allergist needs. Scans saved without per-profile results only have
+ * an overall verdict.
+ */
+
+export type ExportFormat = "csv" | "json" | "pdf";
+
+export interface ExportProfileVerdict {
+  name: string;
+  status: string;
+  allergens: string[];
+  keywords: string[];
+  /** "Peanuts (May contain traces of peanuts)" */
+  advisories: string[];
+  /** "Honey (unsafe)" */
+  ageGuidance: string[];
+}
+
+export interface ExportRow {
+  timestamp: string;
+  product: string;
+  barcode: string | null;
+  verdict: string;
+  profiles: ExportProfileVerdict[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  pdf: "application/pdf",
+};
+
+export function toExportRow(scan: StoredScan): ExportRow {
+  const profiles = (scan.results || []).map((result) => ({
+    name: result.name,
+    status: result.status,
+    allergens: result.matchedAllergens,
+    keywords: result.matchedKeywords,
+    advisories: (result.advisories || []).map(
+      (advisory) => `${advisory.allergen} (${advisory.statement})`,
+    ),
+    ageGuidance: (result.ageGuidance || []).map(
+      (guidance) => `${guidance.label} (${guidance.level})`,
+    ),
+  }));
+
+  return {
+    timestamp: getScanDate(scan).toISOString(),
+    product:
+      scan.productName ||
+      (scan.type === "barcode" ? "Product Scan" : "Menu/Label Scan"),
+    barcode: scan.productData?.barcode ?? null,
+    verdict: getScanVerdict(scan),
+    profiles,
+  };
+}
+
+/** "Ann: milk, egg" for each profile with any items. */
+function describePerProfile(
+  profiles: ExportProfileVerdict[],
+  items: (profile: ExportProfileVerdict) => string[],
+): string[] {
+  return profiles
+    .filter((profile) => items(profile).length > 0)
+    .map((profile) => `${profile.name}: ${items(profile).join(", ")}`);
+}
+
+function describeRange(range: DateRange): string {
+  const dates = describeDateRange(range);
+  return dates ? `Scans: ${dates}` : "All scans";
+}
+
+function toCsvField(value: string): string {
+  // Spreadsheets run fields starting with these as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv(rows: ExportRow[]): string {
+  const header = [
+    "Timestamp",
+    "Product",
+    "Barcode",
+    "Verdict",
+    "Profile Verdicts",
+    "Matched Allergens",
+    "Matched Keywords",
+    "May Contain",
+    "Age Guidance",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.timestamp,
+      row.product,
+      row.barcode ?? "",
+      row.verdict,
+      row.profiles.map((p) => `${p.name}: ${p.status}`).join("; "),
+      describePerProfile(row.profiles, (p) => p.allergens).join("; "),
+      describePerProfile(row.profiles, (p) => p.keywords).join("; "),
+      describePerProfile(row.profiles, (p) => p.advisories).join("; "),
+      describePerProfile(row.profiles, (p) => p.ageGuidance).join("; "),
+    ]
+      .map(toCsvField)
+      .join(","),
+  );
+
+  return [header.join(","), ...lines].join("\r\n");
+}
+
+export function buildJson(rows: ExportRow[], range: DateRange): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      range: describeRange(range),
+      scans: rows,
+    },
+    null,
+    2,
+  );
+}
+
+function toHtmlLines(lines: string[]): string {
+  return lines.map(escapeHtml).join("<br>");
+}
+
+export function buildPdfHtml(rows: ExportRow[], range: DateRange): string {
+  const body = rows
+    .map((row) => {
+      const verdicts =
+        row.profiles.length > 0
+          ? row.profiles
+              .map(
+                (p) =>
+                  `<span class="${p.status}">${escapeHtml(p.name)}: ${p.status}</span>`,
+              )
+              .join("<br>")
+          : `<span class="${row.verdict}">${row.verdict}</span>`;
+
+      return `<tr>
+        <td>${new Date(row.timestamp).toLocaleString()}</td>
+        <td>${escapeHtml(row.product)}</td>
+        <td>${escapeHtml(row.barcode ?? "")}</td>
+        <td>${verdicts}</td>
+        <td>${toHtmlLines(describePerProfile(row.profiles, (p) => p.allergens))}</td>
+        <td>${toHtmlLines(describePerProfile(row.profiles, (p) => p.keywords))}</td>
+        <td>${toHtmlLines(describePerProfile(row.profiles, (p) => p.advisories))}</td>
+        <td>${toHtmlLines(describePerProfile(row.profiles, (p) => p.ageGuidance))}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `<html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: -apple-system, Helvetica, Arial, sans-serif; font-size: 11px; color: #111; }
+        h1 { font-size: 18px; margin-bottom: 2px; }
+        p { color: #555; margin-top: 0; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+        th { background: #f2f2f2; }
+        .safe { color: #1b7f3b; }
+        .caution { color: #a36b00; }
+        .unsafe { color: #b3261e; font-weight: bold; }
+      </style>
+    </head>
+    <body>
+      <h1>Appergy Scan History</h1>
+      <p>${escapeHtml(describeRange(range))} · exported ${new Date().toLocaleDateString()} · ${rows.length} scans</p>
+      <table>
+        <tr>
+          <th>Date</th>
+          <th>Product</th>
+          <th>Barcode</th>
+          <th>Verdict</th>
+          <th>Matched Allergens</th>
+          <th>Matched Keywords</th>
+          <th>May Contain</th>
+          <th>Age Guidance</th>
+        </tr>
+        ${body}
+      </table>
+    </body>
+  </html>`;
+}
+
+/** All scans in a date range, newest first. */
+export async function getScansInRange(
+  uid: string,
+  isDemoMode: boolean,
+  range: DateRange,
+): Promise<StoredScan[]> {
+  const scans: StoredScan[] = [];
+  let cursor: HistoryCursor | null = null;
+
+  do {
+    const page = await getScanHistoryPage(uid, isDemoMode, cursor);
+    cursor = page.cursor;
+
+    for (const scan of page.scans) {
+      if (isBeforeDateRange(scan, range)) {
+        cursor = null;
+        break;
+      }
+      if (!isAfterDateRange(scan, range)) scans.push(scan);
+    }
+  } while (cursor);
+
+  return scans;
+}
+
+/**
+ * Exports the scans of a date range and opens the share sheet. Resolves
+ * with the number of scans exported; nothing is shared when there are none.
+ */
+export async function exportScanHistory(
+  uid: string,
+  isDemoMode: boolean,
+  format: ExportFormat,
+  range: DateRange,
+): Promise<number> {
+  const scans = await getScansInRange(uid, isDemoMode, range);
+  if (scans.length === 0) return 0;
+
+  const rows = scans.map(toExportRow);
+  const fileName = `appergy-scans-${new Date().toISOString().slice(0, 10)}`;
+  let uri: string;
+
+  if (format === "pdf") {
+    ({ uri } = await Print.printToFileAsync({
+      html: buildPdfHtml(rows, range),
+    }));
+  } else {
+    const file = new File(Paths.cache, `${fileName}.${format}`);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(format === "csv" ? buildCsv(rows) : buildJson(rows, range));
+    uri = file.uri;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  await Sharing.shareAsync(uri, {
+    mimeType: MIME_TYPES[format],
+    dialogTitle: "Export Scan History",
+  });
+  return scans.length;
+}
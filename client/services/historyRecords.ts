@@ -0,0 +1,420 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  QueryDocumentSnapshot,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db, isFirebaseConfigured } from "@/services/firebase";
+import { RuleAnalysisResult } from "@/services/labelRules";
+import { ScanHistoryItem } from "@/services/scanHistory";
+
+/*
+ * Stored scans.
+ *
+ * saveScanToHistory keeps the fields of the result it is given, so history
+ * entries written since the rules layer was added carry the per-profile
+ * results, match explanations and product data as well as the summary
+ * fields of ScanHistoryItem. Older entries only have the summary.
+ *
+ * Signed-in users' scans live in users/{uid}/scanHistory; demo mode (and
+ * builds without Firebase) keep them in AsyncStorage under
+ * SCAN_HISTORY_STORAGE_KEY, where saveScanToHistory writes them.
+ */
+
+const SCAN_HISTORY_STORAGE_KEY = "@appergy_scan_history";
+
+/** Firestore caps a write batch at 500 operations. */
+const MAX_BATCH_SIZE = 500;
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export type ScanVerdict = "safe" | "caution" | "unsafe";
+export type ScanKind = "barcode" | "label" | "menu" | "grocery";
+
+/** Calendar days from `from` through `to`; a null end is open. */
+export interface DateRange {
+  from: Date | null;
+  to: Date | null;
+}
+
+export const ANY_DATE_RANGE: DateRange = { from: null, to: null };
+
+export interface HistoryFilters {
+  verdict: ScanVerdict | null;
+  kind: ScanKind | null;
+  /** Only scans where this profile was not safe. */
+  profileId: string | null;
+  dateRange: DateRange;
+  search: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  verdict: null,
+  kind: null,
+  profileId: null,
+  dateRange: ANY_DATE_RANGE,
+  search: "",
+};
+
+/**
+ * Where the next page starts: the last Firestore document read, or an
+ * offset into the local store.
+ */
+export type HistoryCursor =
+  | { lastDoc: QueryDocumentSnapshot }
+  | { offset: number };
+
+export interface HistoryPage {
+  scans: StoredScan[];
+  /** Null once the end of the history has been reached. */
+  cursor: HistoryCursor | null;
+}
+
+/**
+ * A history entry. The summary fields of ScanHistoryItem that the history
+ * reads are declared here, so they stay type-checked where
+ * services/scanHistory does not resolve.
+ */
+export interface StoredScan
+  extends Partial<
+    Pick<
+      RuleAnalysisResult,
+      | "results"
+      | "matchedIngredients"
+      | "rawText"
+      | "productData"
+      | "textCorrection"
+    >
+  > {
+  id: string;
+  type: string;
+  productName?: string;
+  ingredients: string[];
+  safeCount: number;
+  unsafeCount: number;
+  /** A Firestore Timestamp, or a date string in the local store. */
+  timestamp: ScanHistoryItem["timestamp"];
+}
+
+/** The label text of a stored scan, as it was analyzed. */
+export function getStoredLabelText(scan: StoredScan): string {
+  return (
+    scan.textCorrection?.correctedText ??
+    scan.rawText ??
+    scan.ingredients.join(", ")
+  );
+}
+
+/**
+ * Rebuilds the analysis of a stored scan for display, or null for entries
+ * saved without per-profile results.
+ */
+export function toStoredAnalysis(scan: StoredScan): RuleAnalysisResult | null {
+  if (!scan.results) return null;
+
+  return {
+    ingredients: scan.ingredients,
+    results: scan.results,
+    matchedIngredients: scan.matchedIngredients,
+    rawText: scan.rawText,
+    productData: scan.productData,
+    textCorrection: scan.textCorrection,
+  } as RuleAnalysisResult;
+}
+
+/** Scan time as a Date, whether stored as a Firestore Timestamp or not. */
+export function getScanDate(scan: StoredScan): Date {
+  const timestamp = scan.timestamp as unknown;
+  if (timestamp && typeof timestamp === "object" && "toDate" in timestamp) {
+    return (timestamp as { toDate: () => Date }).toDate();
+  }
+  return new Date(timestamp as string | number | Date);
+}
+
+export function getScanVerdict(scan: StoredScan): ScanVerdict {
+  if (scan.results) {
+    if (scan.results.some((r) => r.status === "unsafe")) return "unsafe";
+    if (scan.results.some((r) => r.status === "caution")) return "caution";
+    return "safe";
+  }
+  return scan.unsafeCount > 0 ? "unsafe" : "safe";
+}
+
+export function getScanKind(scan: StoredScan): ScanKind {
+  if (scan.productData?.source === "grocery") return "grocery";
+  if (scan.type === "barcode" || scan.productData) return "barcode";
+  if (scan.type === "menu") return "menu";
+  return "label";
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** "Mar 1, 2026 – Mar 31, 2026", or null for a range open at both ends. */
+export function describeDateRange(range: DateRange): string | null {
+  const format = (date: Date) =>
+    date.toLocaleDateString([], {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  if (range.from && range.to) {
+    return `${format(range.from)} – ${format(range.to)}`;
+  }
+  if (range.from) return `Since ${format(range.from)}`;
+  if (range.to) return `Until ${format(range.to)}`;
+  return null;
+}
+
+/**
+ * Whether a scan is older than a date range. History is read newest
+ * first, so paging can stop at the first such scan.
+ */
+export function isBeforeDateRange(scan: StoredScan, range: DateRange): boolean {
+  if (!range.from) return false;
+  return getScanDate(scan).getTime() < startOfDay(range.from).getTime();
+}
+
+/** Whether a scan is newer than the last day of a date range. */
+export function isAfterDateRange(scan: StoredScan, range: DateRange): boolean {
+  if (!range.to) return false;
+  const dayAfter = startOfDay(range.to);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  return getScanDate(scan).getTime() >= dayAfter.getTime();
+}
+
+export function matchesHistoryFilters(
+  scan: StoredScan,
+  filters: HistoryFilters,
+): boolean {
+  if (
+    isBeforeDateRange(scan, filters.dateRange) ||
+    isAfterDateRange(scan, filters.dateRange)
+  ) {
+    return false;
+  }
+  if (filters.verdict && getScanVerdict(scan) !== filters.verdict) {
+    return false;
+  }
+  if (filters.kind && getScanKind(scan) !== filters.kind) return false;
+  if (
+    filters.profileId &&
+    !(scan.results || []).some(
+      (r) => r.profileId === filters.profileId && r.status !== "safe",
+    )
+  ) {
+    return false;
+  }
+
+  const search = filters.search.trim().toLowerCase();
+  if (search) {
+    const haystack = [scan.productName || "", ...scan.ingredients]
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Reads one page of the user's history, newest first. Pass the cursor of
+ * the previous page to continue after it.
+ */
+export async function getScanHistoryPage(
+  uid: string,
+  isDemoMode: boolean,
+  cursor: HistoryCursor | null,
+  pageSize: number = HISTORY_PAGE_SIZE,
+): Promise<HistoryPage> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const all: StoredScan[] = stored ? JSON.parse(stored) : [];
+    const sorted = [...all].sort(
+      (a, b) => getScanDate(b).getTime() - getScanDate(a).getTime(),
+    );
+    const offset = cursor && "offset" in cursor ? cursor.offset : 0;
+    const end = offset + pageSize;
+
+    return {
+      scans: sorted.slice(offset, end),
+      cursor: end < sorted.length ? { offset: end } : null,
+    };
+  }
+
+  const historyRef = collection(db, "users", uid, "scanHistory");
+  const pageQuery =
+    cursor && "lastDoc" in cursor
+      ? query(
+          historyRef,
+          orderBy("timestamp", "desc"),
+          startAfter(cursor.lastDoc),
+          limit(pageSize),
+        )
+      : query(historyRef, orderBy("timestamp", "desc"), limit(pageSize));
+
+  const snapshot = await getDocs(pageQuery);
+  const scans = snapshot.docs.map(
+    (scanDoc) => ({ id: scanDoc.id, ...scanDoc.data() }) as StoredScan,
+  );
+  const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+  return {
+    scans,
+    cursor: snapshot.docs.length === pageSize && lastDoc ? { lastDoc } : null,
+  };
+}
+
+/** One scan from the user's history, or null if it is no longer there. */
+export async function getScan(
+  uid: string,
+  isDemoMode: boolean,
+  scanId: string,
+): Promise<StoredScan | null> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const all: StoredScan[] = stored ? JSON.parse(stored) : [];
+    return all.find((scan) => scan.id === scanId) ?? null;
+  }
+
+  const scanSnap = await getDoc(doc(db, "users", uid, "scanHistory", scanId));
+  return scanSnap.exists()
+    ? ({ id: scanSnap.id, ...scanSnap.data() } as StoredScan)
+    : null;
+}
+
+/**
+ * The user's most recent scan of a product, or null if they have not
+ * scanned it before. Firestore needs a composite index on
+ * productData.barcode and timestamp for this query.
+ */
+export async function getLatestScanOfProduct(
+  uid: string,
+  isDemoMode: boolean,
+  barcode: string,
+): Promise<StoredScan | null> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const all: StoredScan[] = stored ? JSON.parse(stored) : [];
+    const matching = all.filter(
+      (scan) => scan.productData?.barcode === barcode,
+    );
+    if (matching.length === 0) return null;
+    return matching.reduce((latest, scan) =>
+      getScanDate(scan).getTime() > getScanDate(latest).getTime()
+        ? scan
+        : latest,
+    );
+  }
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, "users", uid, "scanHistory"),
+      where("productData.barcode", "==", barcode),
+      orderBy("timestamp", "desc"),
+      limit(1),
+    ),
+  );
+  const latest = snapshot.docs[0];
+  return latest ? ({ id: latest.id, ...latest.data() } as StoredScan) : null;
+}
+
+/**
+ * Replaces the analysis of a saved scan, e.g. after its label text was
+ * corrected, so the scan keeps a single history entry.
+ */
+export async function updateScanAnalysis(
+  uid: string,
+  scanId: string,
+  isDemoMode: boolean,
+  result: RuleAnalysisResult,
+): Promise<void> {
+  const fields = Object.fromEntries(
+    Object.entries({
+      ingredients: result.ingredients,
+      safeCount: result.results.filter((r) => r.status === "safe").length,
+      unsafeCount: result.results.filter((r) => r.status === "unsafe").length,
+      results: result.results,
+      matchedIngredients: result.matchedIngredients,
+      rawText: result.rawText,
+      textCorrection: result.textCorrection,
+      // Firestore rejects undefined fields
+    }).filter(([, value]) => value !== undefined),
+  ) as Partial<StoredScan>;
+
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const scans: StoredScan[] = stored ? JSON.parse(stored) : [];
+    await AsyncStorage.setItem(
+      SCAN_HISTORY_STORAGE_KEY,
+      JSON.stringify(
+        scans.map((scan) =>
+          scan.id === scanId ? { ...scan, ...fields } : scan,
+        ),
+      ),
+    );
+    return;
+  }
+
+  await updateDoc(doc(db, "users", uid, "scanHistory", scanId), fields);
+}
+
+/** Deletes one scan from the user's history. */
+export async function deleteScanFromHistory(
+  uid: string,
+  scanId: string,
+  isDemoMode: boolean,
+): Promise<void> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const scans: StoredScan[] = stored ? JSON.parse(stored) : [];
+    await AsyncStorage.setItem(
+      SCAN_HISTORY_STORAGE_KEY,
+      JSON.stringify(scans.filter((scan) => scan.id !== scanId)),
+    );
+    return;
+  }
+
+  await deleteDoc(doc(db, "users", uid, "scanHistory", scanId));
+}
+
+/**
+ * Deletes every scan in the user's history, in batches. Resolves with the
+ * number of scans deleted.
+ */
+export async function clearScanHistory(
+  uid: string,
+  isDemoMode: boolean,
+): Promise<number> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const stored = await AsyncStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const count = stored ? (JSON.parse(stored) as StoredScan[]).length : 0;
+    await AsyncStorage.removeItem(SCAN_HISTORY_STORAGE_KEY);
+    return count;
+  }
+
+  const snapshot = await getDocs(collection(db, "users", uid, "scanHistory"));
+
+  for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs
+      .slice(i, i + MAX_BATCH_SIZE)
+      .forEach((scanDoc) => batch.delete(scanDoc.ref));
+    await batch.commit();
+  }
+
+  return snapshot.docs.length;
+}
@@ -0,0 +1,333 @@
+import * as Crypto from "expo-crypto";
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+import { db, isFirebaseConfigured } from "@/services/firebase";
+
+/*
+ * Shared households.
+ *
+ * A household is keyed by the uid of the account that created it, its
+ * owner, and the shared data stays where it has always been:
+ *   users/{householdId}                            — owner's main profile
+ *   users/{householdId}/settings/forbiddenKeywords
+ *   users/{householdId}/familyProfiles/{memberId}
+ *   users/{householdId}/scanHistory/{scanId}
+ *
+ * Other accounts join with an invite and are listed in
+ *   users/{householdId}/householdMembers/{uid}
+ * while users/{uid}.householdId points back at the household. The owner is
+ * always a parent and has no member document. Everyone in the household
+ * can read the shared profiles, scan history, product marks and reactions
+ * and add scans; only parents can change the profiles or delete scans. A
+ * joined account's own profile stays in users/{uid} and is checked
+ * alongside the household's.
+ *
+ * Invites live in invites/{code} and can be used once: joining deletes the
+ * invite in the same batch. An invite with an email can only be redeemed
+ * by the account signed in with that address.
+ * firestore.rules enforces all of the above.
+ */
+
+export type HouseholdRole = "parent" | "member";
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ["parent", "member"];
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  parent: "Parent",
+  member: "Member",
+};
+
+export const INVITE_CODE_LENGTH = 8;
+export const INVITE_VALID_DAYS = 7;
+
+// No 0/O or 1/I, so codes survive being read aloud. 32 characters, so a
+// random byte maps onto it evenly.
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** Which household an account reads its profiles and history from. */
+export interface HouseholdMembership {
+  householdId: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdMember {
+  uid: string;
+  name: string;
+  email: string | null;
+  role: HouseholdRole;
+  joinedAt: string;
+}
+
+export interface HouseholdInvite {
+  code: string;
+  householdId: string;
+  /** Shown to the invitee, who cannot read the household yet. */
+  householdName: string;
+  role: HouseholdRole;
+  /** Only this account may redeem the invite; null for code invites. */
+  email: string | null;
+  createdBy: string;
+  expiresAt: Date;
+}
+
+/** Outcome of redeeming an invite code. */
+export type JoinResult =
+  | "joined"
+  | "notFound"
+  | "expired"
+  | "wrongAccount"
+  | "unverifiedEmail"
+  | "alreadyMember";
+
+export function toHouseholdRole(value: unknown): HouseholdRole {
+  return value === "parent" ? "parent" : "member";
+}
+
+/** Upper-cases a typed code and drops spaces and dashes. */
+export function normalizeInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+function generateInviteCode(): string {
+  return Array.from(
+    Crypto.getRandomBytes(INVITE_CODE_LENGTH),
+    (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length],
+  ).join("");
+}
+
+function toDate(value: unknown): Date {
+  if (value && typeof value === "object" && "toDate" in value) {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string | number | Date);
+}
+
+function toInvite(code: string, data: Record<string, any>): HouseholdInvite {
+  return {
+    code,
+    householdId: data.householdId,
+    householdName: data.householdName || "A household",
+    role: toHouseholdRole(data.role),
+    email: data.email || null,
+    createdBy: data.createdBy,
+    expiresAt: toDate(data.expiresAt),
+  };
+}
+
+function membershipRef(householdId: string, uid: string) {
+  if (!db) throw new Error("Firebase is not configured");
+  return doc(db, "users", householdId, "householdMembers", uid);
+}
+
+/** The account's own household, which it owns. */
+export function ownHousehold(uid: string): HouseholdMembership {
+  return { householdId: uid, role: "parent" };
+}
+
+/**
+ * Works out which household an account belongs to from its user document.
+ * Falls back to its own household when it has not joined one, or when a
+ * parent has since removed it.
+ */
+export async function resolveHousehold(
+  uid: string,
+  userData: Record<string, any> | null,
+): Promise<HouseholdMembership> {
+  const householdId = userData?.householdId;
+  if (!db || !isFirebaseConfigured || !householdId || householdId === uid) {
+    return ownHousehold(uid);
+  }
+
+  const memberSnap = await getDoc(membershipRef(householdId, uid));
+  if (!memberSnap.exists()) return ownHousehold(uid);
+
+  return { householdId, role: toHouseholdRole(memberSnap.data().role) };
+}
+
+/** Accounts that have joined the household, in the order they joined. */
+export async function getHouseholdMembers(
+  householdId: string,
+): Promise<HouseholdMember[]> {
+  if (!db || !isFirebaseConfigured) return [];
+
+  const snapshot = await getDocs(
+    collection(db, "users", householdId, "householdMembers"),
+  );
+  return snapshot.docs
+    .map((memberDoc) => {
+      const data = memberDoc.data();
+      return {
+        uid: memberDoc.id,
+        name: data.name || data.email || "Household member",
+        email: data.email || null,
+        role: toHouseholdRole(data.role),
+        joinedAt: data.joinedAt || "",
+      };
+    })
+    .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+}
+
+/** Removes an account from the household. Parents only. */
+export async function removeHouseholdMember(
+  householdId: string,
+  uid: string,
+): Promise<void> {
+  if (!db || !isFirebaseConfigured) return;
+
+  await deleteDoc(membershipRef(householdId, uid));
+}
+
+/**
+ * Creates a single-use invite. Pass an email to make it redeemable only
+ * by that account; the invite then also shows up when it signs in.
+ */
+export async function createInvite(
+  householdId: string,
+  householdName: string,
+  createdBy: string,
+  role: HouseholdRole,
+  email: string | null,
+): Promise<HouseholdInvite> {
+  if (!db || !isFirebaseConfigured) {
+    throw new Error("Firebase is not configured");
+  }
+
+  const invite: HouseholdInvite = {
+    code: generateInviteCode(),
+    householdId,
+    householdName,
+    role,
+    email: email ? email.trim().toLowerCase() : null,
+    createdBy,
+    expiresAt: new Date(Date.now() + INVITE_VALID_DAYS * 24 * 60 * 60 * 1000),
+  };
+
+  const { code, ...data } = invite;
+  await setDoc(doc(db, "invites", code), {
+    ...data,
+    createdAt: new Date().toISOString(),
+  });
+  return invite;
+}
+
+/** Unused invites a parent has sent for the household. */
+export async function getHouseholdInvites(
+  householdId: string,
+): Promise<HouseholdInvite[]> {
+  if (!db || !isFirebaseConfigured) return [];
+
+  const snapshot = await getDocs(
+    query(collection(db, "invites"), where("householdId", "==", householdId)),
+  );
+  return snapshot.docs.map((inviteDoc) =>
+    toInvite(inviteDoc.id, inviteDoc.data()),
+  );
+}
+
+/** Unexpired invites addressed to an email. The email must be verified. */
+export async function getInvitesForEmail(
+  email: string,
+): Promise<HouseholdInvite[]> {
+  if (!db || !isFirebaseConfigured) return [];
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, "invites"),
+      where("email", "==", email.trim().toLowerCase()),
+    ),
+  );
+  const now = Date.now();
+  return snapshot.docs
+    .map((inviteDoc) => toInvite(inviteDoc.id, inviteDoc.data()))
+    .filter((invite) => invite.expiresAt.getTime() > now);
+}
+
+export async function revokeInvite(code: string): Promise<void> {
+  if (!db || !isFirebaseConfigured) return;
+
+  await deleteDoc(doc(db, "invites", code));
+}
+
+/**
+ * Joins the household an invite belongs to, with the role it grants, and
+ * uses the invite up. Throws if the write fails. The checks here only
+ * explain a refusal; firestore.rules enforces them.
+ */
+export async function joinHousehold(
+  account: {
+    uid: string;
+    name: string;
+    email: string | null;
+    emailVerified: boolean;
+  },
+  code: string,
+): Promise<JoinResult> {
+  if (!db || !isFirebaseConfigured) {
+    throw new Error("Firebase is not configured");
+  }
+
+  const inviteSnap = await getDoc(
+    doc(db, "invites", normalizeInviteCode(code)),
+  );
+  if (!inviteSnap.exists()) return "notFound";
+
+  const invite = toInvite(inviteSnap.id, inviteSnap.data());
+  if (invite.expiresAt.getTime() <= Date.now()) return "expired";
+  if (
+    invite.email &&
+    invite.email !== (account.email || "").trim().toLowerCase()
+  ) {
+    return "wrongAccount";
+  }
+  if (invite.email && !account.emailVerified) return "unverifiedEmail";
+  if (invite.householdId === account.uid) return "alreadyMember";
+
+  const existing = await getDoc(membershipRef(invite.householdId, account.uid));
+  if (existing.exists()) return "alreadyMember";
+
+  const batch = writeBatch(db);
+  batch.set(membershipRef(invite.householdId, account.uid), {
+    role: invite.role,
+    name: account.name,
+    email: account.email,
+    inviteCode: invite.code,
+    joinedAt: new Date().toISOString(),
+  });
+  batch.set(
+    doc(db, "users", account.uid),
+    { householdId: invite.householdId },
+    { merge: true },
+  );
+  batch.delete(inviteSnap.ref);
+  await batch.commit();
+
+  return "joined";
+}
+
+/** Leaves a joined household and goes back to the account's own. */
+export async function leaveHousehold(
+  uid: string,
+  householdId: string,
+): Promise<void> {
+  if (!db || !isFirebaseConfigured) return;
+
+  const batch = writeBatch(db);
+  batch.delete(membershipRef(householdId, uid));
+  batch.set(
+    doc(db, "users", uid),
+    { householdId: deleteField() },
+    { merge: true },
+  );
+  await batch.commit();
+}
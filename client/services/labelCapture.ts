@@ -0,0 +1,138 @@
+import { mergeIngredientLists, mergeOcrTexts } from "@shared/ocrMerge";
+import {
+  AnalysisResult,
+  ProfileInfo,
+  ProfileResult,
+  analyzeImage,
+} from "@/services/ai";
+import { analyzeIngredientsText } from "@/services/analysisPipeline";
+import {
+  MatchedIngredient,
+  RuleAnalysisResult,
+  RuleProfile,
+  applyLabelRules,
+  worseStatus,
+} from "@/services/labelRules";
+
+/*
+ * Multi-shot label capture.
+ *
+ * Wrap-around labels need more than one photo. Each shot is read on its
+ * own, the texts are merged in capture order with mergeOcrTexts
+ * (shared/ocrMerge) so the overlap between shots is kept once. The server
+ * results of the shots and a local engine run over the combined label are
+ * folded into one result, and the label rules run once on the combined
+ * label, so a multi-shot scan finds everything a single shot would. "May
+ * contain" statements survive the merge along with the ingredients.
+ */
+
+export const MAX_LABEL_SHOTS = 4;
+
+/** The label text read from a shot, when the response includes it. */
+function getShotText(result: AnalysisResult): string | null {
+  return typeof result.rawText === "string" && result.rawText.trim()
+    ? result.rawText
+    : null;
+}
+
+function addUnique(list: string[], items: string[]): string[] {
+  const seen = new Set(list.map((item) => item.toLowerCase()));
+  return [...list, ...items.filter((item) => !seen.has(item.toLowerCase()))];
+}
+
+/**
+ * Folds the engine results for the parts of one label into a single
+ * result: each profile gets the worst status and every match any part
+ * found. Match offsets are dropped, since they point into a single shot;
+ * the label rules find them again in the combined text.
+ */
+function combineResults(
+  results: AnalysisResult[],
+  ingredients: string[],
+): AnalysisResult {
+  const profileResults = results[0].results.map((first: ProfileResult) =>
+    results
+      .flatMap((r) =>
+        r.results.filter((p: ProfileResult) => p.profileId === first.profileId),
+      )
+      .reduce((combined: ProfileResult, part: ProfileResult) => ({
+        ...combined,
+        status: worseStatus(combined.status, part.status),
+        matchedAllergens: addUnique(
+          combined.matchedAllergens,
+          part.matchedAllergens,
+        ),
+        matchedKeywords: addUnique(
+          combined.matchedKeywords,
+          part.matchedKeywords,
+        ),
+        matchedPreferences: addUnique(
+          combined.matchedPreferences,
+          part.matchedPreferences,
+        ),
+        reasons: addUnique(combined.reasons, part.reasons),
+      })),
+  );
+
+  const matchedIngredients: MatchedIngredient[] = [];
+  for (const match of results.flatMap(
+    (r): MatchedIngredient[] => r.matchedIngredients || [],
+  )) {
+    const isKnown = matchedIngredients.some(
+      (m) =>
+        m.type === match.type &&
+        m.name.toLowerCase() === match.name.toLowerCase(),
+    );
+    if (!isKnown) {
+      matchedIngredients.push({
+        ...match,
+        start: undefined,
+        end: undefined,
+      });
+    }
+  }
+
+  return {
+    ...results[0],
+    results: profileResults,
+    ingredients,
+    matchedIngredients,
+  };
+}
+
+/**
+ * Analyzes the shots of one label (base64 JPEGs, in order) as a single
+ * product, with the label rules applied.
+ */
+export async function analyzeLabelImages(
+  images: string[],
+  profiles: RuleProfile[],
+): Promise<RuleAnalysisResult> {
+  const results: AnalysisResult[] = [];
+  for (const image of images) {
+    results.push(await analyzeImage(image, profiles as ProfileInfo[]));
+  }
+
+  if (results.length === 1) {
+    const [result] = results;
+    return applyLabelRules(
+      result,
+      getShotText(result) ?? result.ingredients.join(", "),
+      profiles,
+    );
+  }
+
+  const ingredients = mergeIngredientLists(results.map((r) => r.ingredients));
+  const texts = results.map(getShotText);
+  const labelText = texts.every((text): text is string => text !== null)
+    ? mergeOcrTexts(texts)
+    : // Without the OCR text, fall back to the parsed ingredient lists
+      ingredients.join(", ");
+
+  // The local engine also sees ingredients split across two shots
+  const combined = combineResults(
+    [...results, analyzeIngredientsText(labelText, profiles)],
+    ingredients,
+  );
+  return applyLabelRules(combined, labelText, profiles);
+}
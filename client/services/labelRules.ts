@@ -0,0 +1,692 @@
+import {
+  ALLERGEN_ONTOLOGY_VERSION,
+  AllergenMatch,
+  findAllergenMatches,
+  findTermRanges,
+  resolveAllergen,
+} from "@shared/allergenOntology";
+import {
+  AdvisoryStatement,
+  findAdvisoryStatements,
+} from "@shared/advisoryStatements";
+import {
+  AgeGuidanceLevel,
+  ageInMonths,
+  findAgeGuidance,
+} from "@shared/ageGuidance";
+import { AnalysisResult } from "@/services/ai";
+import { analyzeIngredientsText } from "@/services/analysisPipeline";
+import { ProductSource } from "@/services/productCache";
+import {
+  AdvisoryHandling,
+  AllergySeverity,
+  getAllergySeverity,
+} from "@/services/profiles";
+
+/*
+ * Supplemental deterministic rules.
+ *
+ * The core engine (analysisPipeline / the server pipeline) matches the
+ * literal allergy names. These rules run over the same label text
+ * afterwards and fold their findings into the AnalysisResult, so every scan
+ * path — barcode, label photo, manual entry — gets the same coverage.
+ *
+ * Every matched ingredient records where it sits in the label text
+ * (`rawText` on the result), which rule flagged it and for whom, so the UI
+ * can explain a flag without searching the text again.
+ *
+ * The severity of each allergy decides what a hit means:
+ *
+ *   severity       listed ingredient   "may contain"
+ *   anaphylactic   unsafe              unsafe
+ *   allergic       unsafe              advisoryHandling (caution by default)
+ *   intolerance    unsafe              caution
+ *   avoid          caution             ignored
+ *
+ * Profiles with a birthdate also get age guidance (honey for infants,
+ * caffeine for children, sodium for toddlers). It raises the verdict like
+ * an allergy but is reported on its own, never as a matched allergen.
+ */
+
+/**
+ * Which rule flagged an ingredient: the core engine's literal match, the
+ * allergen ontology, a precautionary ("may contain") statement, or age
+ * guidance.
+ */
+export type MatchRule = "engine" | "ontology" | "advisory" | "age";
+
+export interface MatchedIngredient {
+  name: string;
+  type: string;
+  /** Profile allergy this match belongs to, e.g. "Dairy". */
+  allergen?: string;
+  /** Ontology term that triggered the match, e.g. "casein". */
+  synonym?: string;
+  /** Character offsets into the result's rawText. */
+  start?: number;
+  end?: number;
+  rule?: MatchRule;
+  /** Profiles the match counts against. */
+  profileIds?: string[];
+  /**
+   * How the label text led to the allergy, from the profile's allergy to
+   * the text on the label, e.g. ["Dairy", "Milk", "sodium caseinate"].
+   */
+  synonymChain?: string[];
+}
+
+export interface AdvisoryWarning {
+  /** Profile allergy named by the statement. */
+  allergen: string;
+  /** The precautionary statement, e.g. "May contain traces of peanuts". */
+  statement: string;
+  severity?: AllergySeverity;
+}
+
+export interface AgeGuidanceWarning {
+  /** What the guidance is about, e.g. "Honey". */
+  label: string;
+  level: AgeGuidanceLevel;
+  message: string;
+  /** The label text that triggered it, e.g. "honey" or "Sodium 480mg". */
+  matchedText: string;
+}
+
+export type SafetyStatus = "safe" | "caution" | "unsafe";
+
+/*
+ * The engine fields the rules read and write are declared here instead of
+ * extending the engine's ProfileResult, AnalysisResult and ProfileInfo, so
+ * they keep being type-checked where services/ai does not resolve.
+ */
+
+export interface RuleProfileResult {
+  profileId: string;
+  name: string;
+  status: SafetyStatus;
+  matchedAllergens: string[];
+  matchedKeywords: string[];
+  matchedPreferences: string[];
+  reasons: string[];
+  advisories?: AdvisoryWarning[];
+  ageGuidance?: AgeGuidanceWarning[];
+  /** Severity of each matched or advised allergy, by allergy name. */
+  allergySeverities?: Record<string, AllergySeverity>;
+}
+
+export interface RuleAnalysisResult {
+  ingredients: string[];
+  results: RuleProfileResult[];
+  matchedIngredients?: MatchedIngredient[];
+  /** The label text that matchedIngredients offsets point into. */
+  rawText?: string;
+  ontologyVersion?: string;
+  /**
+   * Set for barcode scans: when the product data was fetched, where from,
+   * and the product's GTIN-14.
+   */
+  productData?: {
+    asOf: string;
+    fromCache: boolean;
+    barcode?: string;
+    source?: ProductSource;
+  };
+  /** Set when the user corrected the OCR text and re-ran the analysis. */
+  textCorrection?: TextCorrection;
+}
+
+export interface TextCorrection {
+  /** Ingredient text as first read from the label. */
+  originalText: string;
+  correctedText: string;
+  correctedAt: string;
+}
+
+export interface RuleProfile {
+  id: string;
+  name: string;
+  allergies: string[];
+  preferences: string[];
+  forbiddenKeywords?: string[];
+  advisoryHandling?: AdvisoryHandling;
+  allergySeverities?: Record<string, AllergySeverity>;
+  /** "YYYY-MM-DD"; turns on age guidance. */
+  birthdate?: string | null;
+}
+
+type Status = SafetyStatus;
+
+const STATUS_RANK: Record<Status, number> = { safe: 0, caution: 1, unsafe: 2 };
+
+export function worseStatus(a: Status, b: Status): Status {
+  return STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+}
+
+/**
+ * Status a "may contain" statement gives a profile, or null when the
+ * allergy is avoided by choice and the statement does not count.
+ */
+function advisoryStatus(
+  severity: AllergySeverity,
+  handling: AdvisoryHandling | undefined,
+): Status | null {
+  switch (severity) {
+    case "anaphylactic":
+      return "unsafe";
+    case "allergic":
+      return handling === "unsafe" ? "unsafe" : "caution";
+    case "intolerance":
+      return "caution";
+    case "avoid":
+      return null;
+  }
+}
+
+function addUnique<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list : [...list, item];
+}
+
+/** "Dairy" → "Milk" → "casein" → "Casein", skipping repeated steps. */
+function toSynonymChain(match: AllergenMatch): string[] {
+  const steps = [
+    match.allergen,
+    resolveAllergen(match.allergen)?.label,
+    match.synonym,
+    match.matchedText,
+  ];
+
+  const chain: string[] = [];
+  for (const step of steps) {
+    if (!step) continue;
+    const last = chain[chain.length - 1];
+    if (!last || last.toLowerCase() !== step.toLowerCase()) {
+      chain.push(step);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Adds an offset-based match, merging it into an existing entry for the
+ * same span and allergy so each entry lists every profile it affects.
+ */
+function addMatch(
+  list: MatchedIngredient[],
+  match: MatchedIngredient,
+): MatchedIngredient[] {
+  const index = list.findIndex(
+    (m) =>
+      m.start === match.start &&
+      m.end === match.end &&
+      (m.allergen === match.allergen || (!m.allergen && m.type === match.type)),
+  );
+  if (index === -1) return [...list, match];
+
+  const existing = list[index];
+  const merged: MatchedIngredient = {
+    ...existing,
+    ...match,
+    profileIds: (match.profileIds || []).reduce(
+      addUnique,
+      existing.profileIds || [],
+    ),
+  };
+  return list.map((m, i) => (i === index ? merged : m));
+}
+
+/**
+ * Gives the engine's matches (which only carry a name) their offsets in the
+ * label text and the profiles they were reported for. Names that do not
+ * appear in the text as whole words are kept without offsets.
+ */
+export function locateEngineMatches(
+  result: AnalysisResult,
+  text: string,
+): RuleAnalysisResult {
+  const engineMatches: MatchedIngredient[] = result.matchedIngredients || [];
+  const located: MatchedIngredient[] = [];
+
+  for (const match of engineMatches) {
+    if (match.start !== undefined) {
+      located.push(match);
+      continue;
+    }
+
+    const lowerName = match.name.toLowerCase();
+    const profileIds = result.results
+      .filter((r: RuleProfileResult) => {
+        if (match.type === "allergen") {
+          return r.matchedAllergens.some(
+            (allergy) => findAllergenMatches(match.name, allergy).length > 0,
+          );
+        }
+        if (match.type === "keyword") {
+          return r.matchedKeywords.some(
+            (keyword) =>
+              findTermRanges(lowerName, keyword.toLowerCase()).length > 0,
+          );
+        }
+        return r.matchedPreferences.length > 0;
+      })
+      .map((r: RuleProfileResult) => r.profileId);
+
+    const allergenMatch =
+      match.type === "allergen"
+        ? result.results
+            .flatMap((r: RuleProfileResult) => r.matchedAllergens)
+            .map((allergy: string) => findAllergenMatches(match.name, allergy))
+            .find((matches: AllergenMatch[]) => matches.length > 0)?.[0]
+        : undefined;
+    const explained: MatchedIngredient = allergenMatch
+      ? {
+          ...match,
+          allergen: allergenMatch.allergen,
+          synonym: allergenMatch.synonym,
+          synonymChain: toSynonymChain(allergenMatch),
+        }
+      : match;
+
+    const ranges = findTermRanges(text.toLowerCase(), lowerName);
+    if (ranges.length === 0) {
+      located.push({ ...explained, rule: "engine", profileIds });
+      continue;
+    }
+
+    for (const range of ranges) {
+      located.push({
+        ...explained,
+        name: text.substring(range.start, range.end),
+        start: range.start,
+        end: range.end,
+        rule: "engine",
+        profileIds,
+      });
+    }
+  }
+
+  return { ...result, matchedIngredients: located, rawText: text };
+}
+
+/**
+ * Why a match was flagged, e.g. "Dairy → Milk → casein (derivative)".
+ */
+export function describeMatchReason(match: MatchedIngredient): string {
+  const chain =
+    match.synonymChain && match.synonymChain.length > 1
+      ? match.synonymChain.join(" → ")
+      : match.name;
+
+  switch (match.rule) {
+    case "ontology":
+      return chain !== match.name
+        ? `${chain} (derivative)`
+        : `${match.name} (listed ingredient)`;
+    case "advisory":
+      return `${chain} (precautionary statement)`;
+    case "age":
+      return `${match.name} (age guidance)`;
+    default:
+      if (match.type === "keyword") return `${match.name} (keyword)`;
+      return match.allergen && chain !== match.name
+        ? chain
+        : `${match.name} (listed ingredient)`;
+  }
+}
+
+/**
+ * Flags derivative ingredients (casein for dairy, albumin for eggs, E322 for
+ * soy, ...) that the literal name match misses. Each hit marks the profile
+ * unsafe and records which synonym fired.
+ */
+export function applyAllergenOntology(
+  result: AnalysisResult,
+  text: string,
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  let matchedIngredients: MatchedIngredient[] = [
+    ...(result.matchedIngredients || []),
+  ];
+
+  const results = result.results.map((profileResult: RuleProfileResult) => {
+    const profile = profiles.find((p) => p.id === profileResult.profileId);
+    if (!profile) return profileResult;
+
+    let matchedAllergens: string[] = profileResult.matchedAllergens;
+    let reasons: string[] = profileResult.reasons;
+
+    for (const allergy of profile.allergies) {
+      const matches = findAllergenMatches(text, allergy);
+      if (matches.length === 0) continue;
+
+      matchedAllergens = addUnique(matchedAllergens, allergy);
+
+      for (const match of matches) {
+        if (match.synonym !== allergy.toLowerCase()) {
+          reasons = addUnique(
+            reasons,
+            `Contains ${match.matchedText} (${allergy} derivative)`,
+          );
+        }
+
+        matchedIngredients = addMatch(matchedIngredients, {
+          name: match.matchedText,
+          type: "allergen",
+          allergen: allergy,
+          synonym: match.synonym,
+          start: match.start,
+          end: match.end,
+          rule: "ontology",
+          profileIds: [profile.id],
+          synonymChain: toSynonymChain(match),
+        });
+      }
+    }
+
+    if (matchedAllergens === profileResult.matchedAllergens) {
+      return profileResult;
+    }
+
+    return {
+      ...profileResult,
+      status: "unsafe",
+      matchedAllergens,
+      reasons,
+    } as RuleProfileResult;
+  });
+
+  return {
+    ...result,
+    results,
+    matchedIngredients,
+    ontologyVersion: ALLERGEN_ONTOLOGY_VERSION,
+  };
+}
+
+/**
+ * Records the severity of every matched allergy, and lowers an unsafe
+ * verdict to caution when each matched allergy is only avoided by choice
+ * and no forbidden keyword was found.
+ */
+export function applyAllergySeverities(
+  result: RuleAnalysisResult,
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  const results = result.results.map((profileResult) => {
+    const profile = profiles.find((p) => p.id === profileResult.profileId);
+    if (!profile || profileResult.matchedAllergens.length === 0) {
+      return profileResult;
+    }
+
+    const allergySeverities: Record<string, AllergySeverity> = {};
+    for (const allergy of profileResult.matchedAllergens) {
+      allergySeverities[allergy] = getAllergySeverity(
+        profile.allergySeverities,
+        allergy,
+      );
+    }
+
+    const onlyAvoided =
+      Object.values(allergySeverities).every((s) => s === "avoid") &&
+      profileResult.matchedKeywords.length === 0;
+
+    return {
+      ...profileResult,
+      status:
+        onlyAvoided && profileResult.status === "unsafe"
+          ? "caution"
+          : profileResult.status,
+      allergySeverities,
+    } as RuleProfileResult;
+  });
+
+  return { ...result, results };
+}
+
+/**
+ * Ingredient matching runs over the whole label, so it also finds the
+ * allergens a "may contain" statement names. This takes back an allergy
+ * whose every occurrence sits in the allergen list of a bounded statement;
+ * applyAdvisoryStatements then reports it as an advisory. Statements whose
+ * list could not be read never take anything back, and neither do
+ * forbidden keywords.
+ */
+export function excludeAdvisoryMentions(
+  result: RuleAnalysisResult,
+  text: string,
+  statements: AdvisoryStatement[],
+): RuleAnalysisResult {
+  const lists = statements.filter((s) => s.bounded);
+  if (lists.length === 0) return result;
+
+  const inList = (start?: number, end?: number) =>
+    start !== undefined &&
+    end !== undefined &&
+    lists.some((s) => start >= s.start && end <= s.end);
+
+  let matchedIngredients = result.matchedIngredients || [];
+
+  const results = result.results.map((profileResult) => {
+    const advisoryOnly = profileResult.matchedAllergens.filter(
+      (allergy: string) => {
+        const matches = findAllergenMatches(text, allergy);
+        return (
+          matches.length > 0 && matches.every((m) => inList(m.start, m.end))
+        );
+      },
+    );
+    if (advisoryOnly.length === 0) return profileResult;
+
+    const isAdvisoryOnly = (allergy?: string) =>
+      !!allergy &&
+      advisoryOnly.some(
+        (a: string) => a.toLowerCase() === allergy.toLowerCase(),
+      );
+
+    matchedIngredients = matchedIngredients
+      .map((m) =>
+        m.type === "allergen" &&
+        isAdvisoryOnly(m.allergen) &&
+        m.profileIds?.includes(profileResult.profileId)
+          ? {
+              ...m,
+              profileIds: m.profileIds.filter(
+                (id) => id !== profileResult.profileId,
+              ),
+            }
+          : m,
+      )
+      .filter((m) => !m.profileIds || m.profileIds.length > 0);
+
+    const matchedAllergens = profileResult.matchedAllergens.filter(
+      (allergy: string) => !isAdvisoryOnly(allergy),
+    );
+    const reasons = profileResult.reasons.filter(
+      (reason: string) =>
+        !advisoryOnly.some((a: string) =>
+          reason.toLowerCase().includes(a.toLowerCase()),
+        ),
+    );
+    const hasOtherIssues =
+      matchedAllergens.length > 0 ||
+      profileResult.matchedKeywords.length > 0 ||
+      profileResult.matchedPreferences.length > 0;
+
+    return {
+      ...profileResult,
+      status: hasOtherIssues ? profileResult.status : "safe",
+      matchedAllergens,
+      reasons,
+    } as RuleProfileResult;
+  });
+
+  return { ...result, results, matchedIngredients };
+}
+
+/**
+ * Maps precautionary statements to advisories on each profile whose
+ * allergies they name. The allergy's severity decides whether an advisory
+ * makes the product unsafe or only raises it to caution; for "allergic"
+ * the profile's advisoryHandling decides.
+ */
+export function applyAdvisoryStatements(
+  result: RuleAnalysisResult,
+  statements: AdvisoryStatement[],
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  if (statements.length === 0) return result;
+
+  let matchedIngredients = result.matchedIngredients || [];
+
+  const results = result.results.map((profileResult) => {
+    const profile = profiles.find((p) => p.id === profileResult.profileId);
+    if (!profile) return profileResult;
+
+    const advisories: AdvisoryWarning[] = [];
+    let status: Status = profileResult.status;
+    for (const allergy of profile.allergies) {
+      const severity = getAllergySeverity(profile.allergySeverities, allergy);
+      const severityStatus = advisoryStatus(severity, profile.advisoryHandling);
+      if (!severityStatus) continue;
+
+      const statement = statements.find(
+        (s) => findAllergenMatches(s.text, allergy).length > 0,
+      );
+      if (!statement) continue;
+
+      advisories.push({
+        allergen: allergy,
+        statement: statement.text,
+        severity,
+      });
+      status = worseStatus(status, severityStatus);
+
+      // Statement offsets are relative to the label text
+      for (const match of findAllergenMatches(statement.text, allergy)) {
+        matchedIngredients = addMatch(matchedIngredients, {
+          name: match.matchedText,
+          type: "advisory",
+          allergen: allergy,
+          synonym: match.synonym,
+          start: statement.start + match.start,
+          end: statement.start + match.end,
+          rule: "advisory",
+          profileIds: [profile.id],
+          synonymChain: toSynonymChain(match),
+        });
+      }
+    }
+
+    if (advisories.length === 0) return profileResult;
+
+    return {
+      ...profileResult,
+      status,
+      advisories,
+      allergySeverities: {
+        ...profileResult.allergySeverities,
+        ...Object.fromEntries(advisories.map((a) => [a.allergen, a.severity])),
+      },
+    } as RuleProfileResult;
+  });
+
+  return { ...result, results, matchedIngredients };
+}
+
+/**
+ * Adds age guidance for profiles with a birthdate. Each finding raises the
+ * profile's status to the rule's level; it is listed under ageGuidance and
+ * never as a matched allergen.
+ */
+export function applyAgeGuidance(
+  result: RuleAnalysisResult,
+  text: string,
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  let matchedIngredients = result.matchedIngredients || [];
+
+  const results = result.results.map((profileResult) => {
+    const profile = profiles.find((p) => p.id === profileResult.profileId);
+    const ageMonths = profile?.birthdate
+      ? ageInMonths(profile.birthdate)
+      : null;
+    if (!profile || ageMonths === null) return profileResult;
+
+    const findings = findAgeGuidance(text, ageMonths);
+    if (findings.length === 0) return profileResult;
+
+    let status: Status = profileResult.status;
+    for (const finding of findings) {
+      status = worseStatus(status, finding.level);
+      matchedIngredients = addMatch(matchedIngredients, {
+        name: finding.matchedText,
+        type: "age",
+        start: finding.start,
+        end: finding.end,
+        rule: "age",
+        profileIds: [profile.id],
+      });
+    }
+
+    return {
+      ...profileResult,
+      status,
+      ageGuidance: findings.map(({ label, level, message, matchedText }) => ({
+        label,
+        level,
+        message,
+        matchedText,
+      })),
+    } as RuleProfileResult;
+  });
+
+  return { ...result, results, matchedIngredients };
+}
+
+/**
+ * Runs every supplemental rule over an engine result. `text` is the label
+ * text the result was computed from. The ingredient rules see the whole
+ * label; advisory statements are evaluated on top of them.
+ */
+export function applyLabelRules(
+  result: AnalysisResult,
+  text: string,
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  const statements = findAdvisoryStatements(text);
+
+  return applyAgeGuidance(
+    applyAdvisoryStatements(
+      applyAllergySeverities(
+        excludeAdvisoryMentions(
+          applyAllergenOntology(
+            locateEngineMatches(result, text),
+            text,
+            profiles,
+          ),
+          text,
+          statements,
+        ),
+        profiles,
+      ),
+      statements,
+      profiles,
+    ),
+    text,
+    profiles,
+  );
+}
+
+/**
+ * Drop-in replacement for analyzeIngredientsText that also applies the
+ * supplemental rules.
+ */
+export function analyzeLabelText(
+  text: string,
+  profiles: RuleProfile[],
+): RuleAnalysisResult {
+  return applyLabelRules(
+    analyzeIngredientsText(text, profiles),
+    text,
+    profiles,
+  );
+}
@@ -0,0 +1,143 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/*
+ * Local product cache for barcode lookups.
+ *
+ * Entries are keyed by lookup source and GTIN-14, so the same product
+ * scanned as UPC-A, EAN-13 or with a leading zero hits the same entry.
+ * A cached product is returned straight away (and refreshed in the
+ * background once it is older than REFRESH_AFTER_MS). Past CACHE_TTL_MS the
+ * network is tried first, but the expired copy is still used when there is
+ * no connection — a stale ingredient list beats no result in a store
+ * without signal, and the "as of" date tells the user how old it is.
+ */
+
+const ENTRY_KEY_PREFIX = "@appergy_product_cache:";
+const INDEX_KEY = "@appergy_product_cache_index";
+
+const REFRESH_AFTER_MS = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHED_PRODUCTS = 200;
+
+export type ProductSource = "openFoodFacts" | "grocery";
+
+export interface CachedProduct<T> {
+  product: T;
+  /** ISO time the product data was fetched from the network. */
+  fetchedAt: string;
+  fromCache: boolean;
+}
+
+/** Index of cached entry keys and when each was last fetched (ms). */
+type CacheIndex = Record<string, number>;
+
+/**
+ * Normalizes UPC-A, EAN-8 and EAN-13 codes to GTIN-14.
+ * Returns null for codes that are not numeric.
+ */
+export function toGtin14(barcode: string): string | null {
+  const digits = barcode.trim();
+  if (!/^\d{8,14}$/.test(digits)) return null;
+  return digits.padStart(14, "0");
+}
+
+function entryKey(source: ProductSource, gtin: string): string {
+  return `${ENTRY_KEY_PREFIX}${source}:${gtin}`;
+}
+
+async function loadIndex(): Promise<CacheIndex> {
+  try {
+    const stored = await AsyncStorage.getItem(INDEX_KEY);
+    return stored ? (JSON.parse(stored) as CacheIndex) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeEntry<T>(key: string, product: T): Promise<string> {
+  const fetchedAt = new Date().toISOString();
+
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify({ product, fetchedAt }));
+
+    const index = await loadIndex();
+    index[key] = Date.now();
+
+    // Drop the least recently fetched products beyond the cap
+    const keys = Object.keys(index).sort((a, b) => index[b] - index[a]);
+    const evicted = keys.slice(MAX_CACHED_PRODUCTS);
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted);
+      evicted.forEach((k) => delete index[k]);
+    }
+
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error("Error caching product:", error);
+  }
+
+  return fetchedAt;
+}
+
+async function readEntry<T>(
+  key: string,
+): Promise<{ product: T; fetchedAt: string } | null> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks a barcode up through the cache. `fetcher` is the network lookup;
+ * it should return null (or a product rejected by `isFound`) when the
+ * product is unknown. Not-found results are never cached.
+ */
+export async function getCachedProduct<T>(
+  source: ProductSource,
+  barcode: string,
+  fetcher: (barcode: string) => Promise<T | null>,
+  isFound: (product: T) => boolean = () => true,
+): Promise<CachedProduct<T> | null> {
+  const gtin = toGtin14(barcode);
+  if (!gtin) {
+    const product = await fetcher(barcode);
+    return product && isFound(product)
+      ? { product, fetchedAt: new Date().toISOString(), fromCache: false }
+      : null;
+  }
+
+  const key = entryKey(source, gtin);
+  const cached = await readEntry<T>(key);
+  const age = cached
+    ? Date.now() - new Date(cached.fetchedAt).getTime()
+    : Infinity;
+
+  const fetchAndStore = async (): Promise<CachedProduct<T> | null> => {
+    const product = await fetcher(barcode);
+    if (!product || !isFound(product)) return null;
+    const fetchedAt = await writeEntry(key, product);
+    return { product, fetchedAt, fromCache: false };
+  };
+
+  if (cached && age < CACHE_TTL_MS) {
+    if (age > REFRESH_AFTER_MS) {
+      fetchAndStore().catch((error) => {
+        console.error("Error refreshing cached product:", error);
+      });
+    }
+    return { ...cached, fromCache: true };
+  }
+
+  try {
+    return await fetchAndStore();
+  } catch (error) {
+    if (cached) {
+      console.error("Error looking up product, using expired cache:", error);
+      return { ...cached, fromCache: true };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,139 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { deleteDoc, doc, getDoc, setDoc } from "firebase/firestore";
+
+import { db, isFirebaseConfigured } from "@/services/firebase";
+import { RuleProfileResult } from "@/services/labelRules";
+
+/*
+ * Trusted and blocked products.
+ *
+ * A product can be marked "always OK" for individual profiles, or "never
+ * buy" for the whole household. Marks are keyed by the product's GTIN-14
+ * (productData.barcode), so they apply whichever scanner read the code.
+ * They never change a verdict: the fresh engine result is always shown,
+ * with the marks next to it.
+ *
+ * Marks are shared by the household and live in
+ * users/{householdId}/productMarks/{barcode}; demo mode (and builds without
+ * Firebase) keep them in AsyncStorage under LOCAL_MARKS_KEY as a map from
+ * barcode to marks.
+ */
+
+const LOCAL_MARKS_KEY = "@appergy_product_marks";
+
+export interface TrustedMark {
+  profileId: string;
+  /** Profile name when the mark was set. */
+  name: string;
+  markedAt: string;
+}
+
+export interface ProductMarks {
+  barcode: string;
+  trustedFor: TrustedMark[];
+  /** Set when the household never buys the product. */
+  blockedAt: string | null;
+}
+
+export function emptyProductMarks(barcode: string): ProductMarks {
+  return { barcode, trustedFor: [], blockedAt: null };
+}
+
+function hasMarks(marks: ProductMarks): boolean {
+  return marks.trustedFor.length > 0 || marks.blockedAt !== null;
+}
+
+async function readLocalMarks(): Promise<Record<string, ProductMarks>> {
+  const stored = await AsyncStorage.getItem(LOCAL_MARKS_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+/** The marks saved for a product, or null if it has none. */
+export async function getProductMarks(
+  uid: string,
+  isDemoMode: boolean,
+  barcode: string,
+): Promise<ProductMarks | null> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    return (await readLocalMarks())[barcode] ?? null;
+  }
+
+  const snap = await getDoc(doc(db, "users", uid, "productMarks", barcode));
+  if (!snap.exists()) return null;
+
+  const data = snap.data();
+  return {
+    barcode,
+    trustedFor: data.trustedFor || [],
+    blockedAt: data.blockedAt ?? null,
+  };
+}
+
+/** Saves a product's marks, removing the entry once it has none left. */
+export async function saveProductMarks(
+  uid: string,
+  isDemoMode: boolean,
+  marks: ProductMarks,
+): Promise<void> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const all = await readLocalMarks();
+    if (hasMarks(marks)) all[marks.barcode] = marks;
+    else delete all[marks.barcode];
+    await AsyncStorage.setItem(LOCAL_MARKS_KEY, JSON.stringify(all));
+    return;
+  }
+
+  const docRef = doc(db, "users", uid, "productMarks", marks.barcode);
+  if (!hasMarks(marks)) {
+    await deleteDoc(docRef);
+    return;
+  }
+
+  await setDoc(docRef, {
+    trustedFor: marks.trustedFor,
+    blockedAt: marks.blockedAt,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/** Adds or removes the "always OK" mark of a profile. */
+export function toggleTrusted(
+  marks: ProductMarks,
+  profileId: string,
+  name: string,
+): ProductMarks {
+  const isTrusted = marks.trustedFor.some((t) => t.profileId === profileId);
+
+  return {
+    ...marks,
+    trustedFor: isTrusted
+      ? marks.trustedFor.filter((t) => t.profileId !== profileId)
+      : [
+          ...marks.trustedFor,
+          { profileId, name, markedAt: new Date().toISOString() },
+        ],
+  };
+}
+
+export function toggleBlocked(marks: ProductMarks): ProductMarks {
+  return {
+    ...marks,
+    blockedAt: marks.blockedAt ? null : new Date().toISOString(),
+  };
+}
+
+/**
+ * Fresh results that disagree with a trusted mark: the product was marked
+ * "always OK" for the profile but is no longer safe for it. This usually
+ * means the product was reformulated.
+ */
+export function findTrustConflicts(
+  marks: ProductMarks,
+  results: RuleProfileResult[],
+): RuleProfileResult[] {
+  return results.filter(
+    (result) =>
+      result.status !== "safe" &&
+      marks.trustedFor.some((t) => t.profileId === result.profileId),
+  );
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { PROFILE_SCHEMA_VERSION, migrateFamilyMember } from "./profileSchema";
+
+describe("migrateFamilyMember", () => {
+  it("upgrades a legacy member and names it when it has no name", () => {
+    const result = migrateFamilyMember(
+      {
+        allergies: { common: ["Peanuts"], custom: ["Kiwi"] },
+        preferences: ["Vegetarian"],
+        allergySeverities: { Peanuts: "anaphylactic", Kiwi: "unknown" },
+        advisoryHandling: "sometimes",
+        order: 2,
+      },
+      "Family Member 2",
+    );
+
+    assert.ok(result.success);
+    assert.equal(result.migrated, true);
+    assert.deepEqual(result.data, {
+      schemaVersion: PROFILE_SCHEMA_VERSION,
+      name: "Family Member 2",
+      allergies: ["Peanuts"],
+      customAllergies: ["Kiwi"],
+      preferences: ["Vegetarian"],
+      customPreferences: [],
+      forbiddenKeywords: [],
+      advisoryHandling: "caution",
+      allergySeverities: { Peanuts: "anaphylactic" },
+      birthdate: null,
+      order: 2,
+    });
+  });
+
+  it("keeps the name of a legacy member that has one", () => {
+    const result = migrateFamilyMember(
+      { name: "  Ann ", allergies: ["Milk"] },
+      "Family Member 1",
+    );
+
+    assert.ok(result.success);
+    assert.equal(result.data.name, "Ann");
+  });
+
+  it("rejects a malformed member", () => {
+    const result = migrateFamilyMember(
+      { name: "Ann", allergies: "Milk" },
+      "Family Member 1",
+    );
+
+    assert.ok(!result.success);
+    assert.match(result.error, /^allergies:/);
+  });
+
+  it("rejects a member saved by a newer version", () => {
+    const result = migrateFamilyMember(
+      { schemaVersion: PROFILE_SCHEMA_VERSION + 1, name: "Ann" },
+      "Family Member 1",
+    );
+
+    assert.equal(result.success, false);
+  });
+
+  it("reads a current member without migrating it", () => {
+    const stored = {
+      schemaVersion: PROFILE_SCHEMA_VERSION,
+      name: "Ann",
+      allergies: ["Milk", " Milk "],
+      preferences: [],
+      birthdate: "2024-05-01",
+    };
+    const result = migrateFamilyMember(stored, "Family Member 1");
+
+    assert.ok(result.success);
+    assert.equal(result.migrated, false);
+    assert.equal(result.data.name, "Ann");
+    assert.deepEqual(result.data.allergies, ["Milk"]);
+    assert.equal(result.data.birthdate, "2024-05-01");
+  });
+});
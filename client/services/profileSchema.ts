@@ -0,0 +1,231 @@
+import { z } from "zod";
+
+import type { AdvisoryHandling, AllergySeverity } from "@/services/profiles";
+import { parseBirthdate } from "@shared/ageGuidance";
+
+/*
+ * Family member document schema.
+ *
+ * Every document written since version 1 carries `schemaVersion`. Older
+ * documents have none and store allergies and preferences either as flat
+ * lists or as `{ common, custom }` objects; migrateFamilyMember upgrades
+ * them to the current shape, and readers write the upgraded document back
+ * so the conversion only happens once.
+ *
+ * To change the shape, bump PROFILE_SCHEMA_VERSION, keep the old schema
+ * under its version and add an upgrade step from it to UPGRADES.
+ */
+
+export const PROFILE_SCHEMA_VERSION = 1;
+
+const advisoryHandlingSchema = z.enum([
+  "unsafe",
+  "caution",
+]) satisfies z.ZodType<AdvisoryHandling>;
+
+const allergySeveritySchema = z.enum([
+  "anaphylactic",
+  "allergic",
+  "intolerance",
+  "avoid",
+]) satisfies z.ZodType<AllergySeverity>;
+
+/** Trimmed, without blanks or duplicates. */
+function cleanNames(names: string[]): string[] {
+  return Array.from(
+    new Set(names.map((name) => name.trim()).filter((name) => name)),
+  );
+}
+
+const nameListSchema = z
+  .array(z.string({ invalid_type_error: "Expected a name" }), {
+    invalid_type_error: "Expected a list of names",
+  })
+  .transform(cleanNames);
+
+export const familyMemberSchema = z.object({
+  schemaVersion: z.literal(PROFILE_SCHEMA_VERSION),
+  name: z.string().trim().min(1, "Name is missing"),
+  allergies: nameListSchema,
+  customAllergies: nameListSchema.default([]),
+  preferences: nameListSchema,
+  customPreferences: nameListSchema.default([]),
+  forbiddenKeywords: nameListSchema.default([]),
+  advisoryHandling: advisoryHandlingSchema.default("caution"),
+  allergySeverities: z.record(z.string(), allergySeveritySchema).default({}),
+  /** "YYYY-MM-DD", turns on age guidance for infants and children. */
+  birthdate: z
+    .string()
+    .refine((value) => parseBirthdate(value) !== null, {
+      message: "Expected a date (YYYY-MM-DD)",
+    })
+    .nullable()
+    .default(null),
+  order: z.number().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+/** A family member document in the current shape. */
+export type FamilyMemberData = z.infer<typeof familyMemberSchema>;
+
+/** `allergies` / `preferences` before version 1. */
+const legacyNameListSchema = z.union(
+  [
+    z.array(z.string()),
+    z.object({
+      common: z.array(z.string()).default([]),
+      custom: z.array(z.string()).default([]),
+    }),
+  ],
+  {
+    errorMap: () => ({
+      message: "Expected a list of names or { common, custom } lists",
+    }),
+  },
+);
+
+const unversionedFamilyMemberSchema = z.object({
+  name: z.string().optional(),
+  allergies: legacyNameListSchema.default([]),
+  customAllergies: z.array(z.string()).default([]),
+  preferences: legacyNameListSchema.default([]),
+  customPreferences: z.array(z.string()).default([]),
+  forbiddenKeywords: z.array(z.string()).default([]),
+  // Unknown values fell back to the defaults before there was a schema
+  advisoryHandling: advisoryHandlingSchema.catch("caution"),
+  allergySeverities: z.record(z.string(), z.unknown()).catch({}),
+  order: z.number().optional(),
+  createdAt: z.unknown(),
+  updatedAt: z.unknown(),
+});
+
+function splitLegacyNames(
+  value: z.infer<typeof legacyNameListSchema>,
+  custom: string[],
+): [string[], string[]] {
+  return Array.isArray(value)
+    ? [value, custom]
+    : [value.common, [...value.custom, ...custom]];
+}
+
+/** Upgrade steps, keyed by the version they upgrade from. */
+const UPGRADES: Record<
+  number,
+  (
+    data: unknown,
+    defaultName: string,
+  ) => z.SafeParseReturnType<unknown, unknown>
+> = {
+  // Members without a name were shown as "Family Member N"; keep that name
+  0: (data, defaultName) => {
+    const parsed = unversionedFamilyMemberSchema.safeParse(data);
+    if (!parsed.success) return parsed;
+
+    const legacy = parsed.data;
+    const [allergies, customAllergies] = splitLegacyNames(
+      legacy.allergies,
+      legacy.customAllergies,
+    );
+    const [preferences, customPreferences] = splitLegacyNames(
+      legacy.preferences,
+      legacy.customPreferences,
+    );
+    const allergySeverities = Object.fromEntries(
+      Object.entries(legacy.allergySeverities).filter(
+        ([, severity]) => allergySeveritySchema.safeParse(severity).success,
+      ),
+    );
+
+    return {
+      success: true,
+      data: {
+        schemaVersion: 1,
+        name: legacy.name?.trim() || defaultName,
+        allergies,
+        customAllergies,
+        preferences,
+        customPreferences,
+        forbiddenKeywords: legacy.forbiddenKeywords,
+        advisoryHandling: legacy.advisoryHandling,
+        allergySeverities,
+        ...(legacy.order !== undefined && { order: legacy.order }),
+        ...(typeof legacy.createdAt === "string" && {
+          createdAt: legacy.createdAt,
+        }),
+        ...(typeof legacy.updatedAt === "string" && {
+          updatedAt: legacy.updatedAt,
+        }),
+      },
+    };
+  },
+};
+
+export type FamilyMemberParseResult =
+  | {
+      success: true;
+      data: FamilyMemberData;
+      /** True when the stored document is older and should be written back. */
+      migrated: boolean;
+    }
+  | { success: false; error: string };
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
+
+/**
+ * Reads a stored family member document, upgrading it to the current
+ * schema if it is older. `defaultName` names older members that were saved
+ * without one. Fails with a readable reason when the document is malformed
+ * or was written by a newer version of the app.
+ */
+export function migrateFamilyMember(
+  raw: unknown,
+  defaultName: string,
+): FamilyMemberParseResult {
+  if (!raw || typeof raw !== "object") {
+    return { success: false, error: "Document is empty" };
+  }
+
+  const storedVersion = (raw as { schemaVersion?: unknown }).schemaVersion;
+  const version = storedVersion === undefined ? 0 : storedVersion;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    return { success: false, error: "schemaVersion: Expected a version" };
+  }
+  if (version > PROFILE_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `Saved by a newer version of Appergy (schema ${version}). Update the app to read it.`,
+    };
+  }
+
+  let data: unknown = raw;
+  for (let from = version; from < PROFILE_SCHEMA_VERSION; from++) {
+    const upgraded = UPGRADES[from](data, defaultName);
+    if (!upgraded.success) {
+      return { success: false, error: describeIssues(upgraded.error) };
+    }
+    data = upgraded.data;
+  }
+
+  const parsed = familyMemberSchema.safeParse(data);
+  if (!parsed.success) {
+    return { success: false, error: describeIssues(parsed.error) };
+  }
+  return {
+    success: true,
+    data: parsed.data,
+    migrated: version < PROFILE_SCHEMA_VERSION,
+  };
+}
@@ -0,0 +1,598 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  QueryDocumentSnapshot,
+  setDoc,
+  Unsubscribe,
+} from "firebase/firestore";
+
+import { db, isFirebaseConfigured } from "@/services/firebase";
+import {
+  FamilyMemberData,
+  PROFILE_SCHEMA_VERSION,
+  migrateFamilyMember,
+} from "@/services/profileSchema";
+
+/*
+ * Household profile repository.
+ *
+ * Reads (and keeps listening to):
+ *   users/{uid}                            — mainProfile
+ *   users/{uid}/settings/forbiddenKeywords — main profile's keyword list
+ *   users/{uid}/familyProfiles/{memberId}  — family members, each with
+ *                                            its own forbiddenKeywords
+ *
+ * where uid is the household's id (see household.ts), and exposes them as
+ * one normalized HouseholdProfile[] with the main profile first. Listeners
+ * are shared per uid, so every screen using useHouseholdProfiles sees the
+ * same in-memory list and edits made on one screen show up on the others
+ * without a remount.
+ *
+ * Family members get auto-generated ids and are sorted by their `order`
+ * field. Members saved before that field existed have the fixed ids member1
+ * to member4 and sort by the number in the id.
+ *
+ * Family member documents are validated against profileSchema.ts as they
+ * are read. Older documents are upgraded and written back; malformed ones
+ * are left out and reported through the snapshot's `error`.
+ */
+
+export const MAIN_PROFILE_ID = "mainProfile";
+
+/**
+ * A joined account's own main profile, which is checked alongside the
+ * household's profiles but stays in the account's user document.
+ */
+export const OWN_PROFILE_ID = "ownProfile";
+
+/**
+ * How a profile treats precautionary labelling ("may contain", shared
+ * facility). Defaults to "caution".
+ */
+export type AdvisoryHandling = "unsafe" | "caution";
+
+/**
+ * How strongly a profile reacts to one of its allergies. Decides the
+ * verdict when the allergen is listed or only named in a "may contain"
+ * statement. Allergies without a saved severity are "allergic".
+ */
+export type AllergySeverity =
+  | "anaphylactic"
+  | "allergic"
+  | "intolerance"
+  | "avoid";
+
+export const ALLERGY_SEVERITIES: AllergySeverity[] = [
+  "anaphylactic",
+  "allergic",
+  "intolerance",
+  "avoid",
+];
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  anaphylactic: "Anaphylactic",
+  allergic: "Allergic",
+  intolerance: "Intolerance",
+  avoid: "Avoid by choice",
+};
+
+/**
+ * A profile as the app uses it. It is passed to the engine as a
+ * ProfileInfo; the fields are declared here so they stay type-checked
+ * where services/ai does not resolve.
+ */
+export interface HouseholdProfile {
+  id: string;
+  name: string;
+  allergies: string[];
+  preferences: string[];
+  forbiddenKeywords: string[];
+  advisoryHandling: AdvisoryHandling;
+  /** Severity per allergy name. */
+  allergySeverities: Record<string, AllergySeverity>;
+  /** "YYYY-MM-DD", only set on family members. */
+  birthdate: string | null;
+}
+
+export interface HouseholdProfilesSnapshot {
+  profiles: HouseholdProfile[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+type Listener = (snapshot: HouseholdProfilesSnapshot) => void;
+
+interface HouseholdEntry {
+  snapshot: HouseholdProfilesSnapshot;
+  listeners: Set<Listener>;
+  unsubscribe: () => void;
+}
+
+export interface FamilyMemberDoc {
+  id: string;
+  data: FamilyMemberData;
+}
+
+export interface FamilyMembersRead {
+  members: FamilyMemberDoc[];
+  /** One message per document that could not be read. */
+  errors: string[];
+}
+
+interface RawHouseholdData {
+  mainProfile: Record<string, any> | null;
+  forbiddenKeywords: string[];
+  familyMembers: FamilyMemberDoc[];
+  familyErrors: string[];
+  pending: Set<"main" | "keywords" | "family">;
+}
+
+const households = new Map<string, HouseholdEntry>();
+
+/**
+ * Flattens the allergy/preference shapes found in Firestore into a single
+ * list. Handles flat arrays, `{ common, custom }` objects and the separate
+ * `custom*` arrays written by the onboarding flow.
+ */
+export function toNameList(value: unknown, extra?: unknown): string[] {
+  const names: string[] = [];
+
+  if (Array.isArray(value)) {
+    names.push(...value);
+  } else if (value && typeof value === "object") {
+    const structured = value as { common?: unknown; custom?: unknown };
+    if (Array.isArray(structured.common)) names.push(...structured.common);
+    if (Array.isArray(structured.custom)) names.push(...structured.custom);
+  }
+
+  if (Array.isArray(extra)) {
+    names.push(...extra);
+  }
+
+  return Array.from(
+    new Set(
+      names
+        .filter((name): name is string => typeof name === "string")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0),
+    ),
+  );
+}
+
+export function toAdvisoryHandling(value: unknown): AdvisoryHandling {
+  return value === "unsafe" ? "unsafe" : "caution";
+}
+
+/** Keeps the entries of a stored severity map that have a known severity. */
+export function toAllergySeverities(
+  value: unknown,
+): Record<string, AllergySeverity> {
+  if (!value || typeof value !== "object") return {};
+
+  const severities: Record<string, AllergySeverity> = {};
+  for (const [allergy, severity] of Object.entries(value)) {
+    if (ALLERGY_SEVERITIES.includes(severity as AllergySeverity)) {
+      severities[allergy] = severity as AllergySeverity;
+    }
+  }
+  return severities;
+}
+
+/** Severity of one allergy, matching the name without regard to case. */
+export function getAllergySeverity(
+  severities: Record<string, AllergySeverity> | undefined,
+  allergy: string,
+): AllergySeverity {
+  const key = allergy.trim().toLowerCase();
+  const entry = Object.entries(severities || {}).find(
+    ([name]) => name.trim().toLowerCase() === key,
+  );
+  return entry ? entry[1] : "allergic";
+}
+
+export function normalizeMainProfile(
+  profileData: Record<string, any> | null,
+  fallbackName: string,
+  forbiddenKeywords: string[],
+): HouseholdProfile {
+  const data = profileData || {};
+
+  return {
+    id: MAIN_PROFILE_ID,
+    name: data.name || fallbackName,
+    allergies: toNameList(data.allergies),
+    preferences: toNameList(data.preferences),
+    forbiddenKeywords,
+    advisoryHandling: toAdvisoryHandling(data.advisoryHandling),
+    allergySeverities: toAllergySeverities(data.allergySeverities),
+    birthdate: null,
+  };
+}
+
+export function normalizeFamilyMember(
+  id: string,
+  data: Record<string, any>,
+  position: number,
+): HouseholdProfile {
+  return {
+    id,
+    name: data.name || `Family Member ${position}`,
+    allergies: toNameList(data.allergies, data.customAllergies),
+    preferences: toNameList(data.preferences, data.customPreferences),
+    forbiddenKeywords: toNameList(data.forbiddenKeywords),
+    advisoryHandling: toAdvisoryHandling(data.advisoryHandling),
+    allergySeverities: toAllergySeverities(data.allergySeverities),
+    birthdate: typeof data.birthdate === "string" ? data.birthdate : null,
+  };
+}
+
+function memberOrder(member: {
+  id: string;
+  data: { order?: unknown };
+}): number | null {
+  if (typeof member.data.order === "number") return member.data.order;
+
+  const legacy = /^member(\d+)$/.exec(member.id);
+  return legacy ? Number(legacy[1]) : null;
+}
+
+/** Family members in the order they were added. */
+export function sortFamilyMembers<
+  T extends { id: string; data: { order?: unknown } },
+>(members: T[]): T[] {
+  return [...members].sort(
+    (a, b) =>
+      (memberOrder(a) ?? Number.MAX_SAFE_INTEGER) -
+        (memberOrder(b) ?? Number.MAX_SAFE_INTEGER) ||
+      a.id.localeCompare(b.id, undefined, { numeric: true }),
+  );
+}
+
+/**
+ * Parses family member documents, upgrading older ones. Only accounts that
+ * can edit profiles (`canUpgrade`) write the upgrade back; the others keep
+ * upgrading on read until a parent opens the household.
+ */
+function readFamilyMembers(
+  docs: QueryDocumentSnapshot[],
+  canUpgrade: boolean,
+): FamilyMembersRead {
+  const members: FamilyMemberDoc[] = [];
+  const errors: string[] = [];
+  // Sorted first, so a member without a name gets the number it was shown with
+  const stored = sortFamilyMembers(
+    docs.map((memberDoc) => ({
+      id: memberDoc.id,
+      ref: memberDoc.ref,
+      data: memberDoc.data(),
+    })),
+  );
+
+  for (const [index, memberDoc] of stored.entries()) {
+    const raw = memberDoc.data;
+    const result = migrateFamilyMember(raw, `Family Member ${index + 1}`);
+    if (!result.success) {
+      const label =
+        typeof raw.name === "string" && raw.name.trim()
+          ? raw.name.trim()
+          : `family member ${memberDoc.id}`;
+      errors.push(
+        `Couldn't read the profile of ${label} (${result.error}). It is left out of checks until it is fixed.`,
+      );
+      continue;
+    }
+
+    if (result.migrated && canUpgrade) {
+      setDoc(memberDoc.ref, result.data, { merge: true }).catch((error) => {
+        console.error("Error upgrading family member:", error);
+      });
+    }
+    members.push({ id: memberDoc.id, data: result.data });
+  }
+
+  return { members, errors };
+}
+
+function buildProfiles(
+  raw: RawHouseholdData,
+  fallbackName: string,
+): HouseholdProfile[] {
+  const members = sortFamilyMembers(raw.familyMembers);
+
+  return [
+    normalizeMainProfile(raw.mainProfile, fallbackName, raw.forbiddenKeywords),
+    ...members.map((member, index) =>
+      normalizeFamilyMember(member.id, member.data, index + 1),
+    ),
+  ];
+}
+
+function emit(entry: HouseholdEntry, next: HouseholdProfilesSnapshot) {
+  entry.snapshot = next;
+  entry.listeners.forEach((listener) => listener(next));
+}
+
+function startListening(
+  uid: string,
+  fallbackName: string,
+  canUpgrade: boolean,
+  entry: HouseholdEntry,
+): () => void {
+  if (!db || !isFirebaseConfigured) {
+    emit(entry, {
+      profiles: buildProfiles(
+        {
+          mainProfile: null,
+          forbiddenKeywords: [],
+          familyMembers: [],
+          familyErrors: [],
+          pending: new Set(),
+        },
+        fallbackName,
+      ),
+      isLoading: false,
+      error: null,
+    });
+    return () => {};
+  }
+
+  const raw: RawHouseholdData = {
+    mainProfile: null,
+    forbiddenKeywords: [],
+    familyMembers: [],
+    familyErrors: [],
+    pending: new Set(["main", "keywords", "family"]),
+  };
+
+  const update = (part: "main" | "keywords" | "family") => {
+    raw.pending.delete(part);
+    emit(entry, {
+      profiles: buildProfiles(raw, fallbackName),
+      isLoading: raw.pending.size > 0,
+      error: raw.familyErrors.length > 0 ? raw.familyErrors.join("\n") : null,
+    });
+  };
+
+  const fail = (error: Error) => {
+    console.error("Error listening to household profiles:", error);
+    emit(entry, {
+      profiles: buildProfiles(raw, fallbackName),
+      isLoading: false,
+      error: "Failed to load profiles",
+    });
+  };
+
+  const unsubscribers: Unsubscribe[] = [
+    onSnapshot(
+      doc(db, "users", uid),
+      (snap) => {
+        raw.mainProfile = snap.exists()
+          ? snap.data().mainProfile || null
+          : null;
+        update("main");
+      },
+      fail,
+    ),
+    onSnapshot(
+      doc(db, "users", uid, "settings", "forbiddenKeywords"),
+      (snap) => {
+        raw.forbiddenKeywords = toNameList(
+          snap.exists() ? snap.data().keywords : [],
+        );
+        update("keywords");
+      },
+      fail,
+    ),
+    onSnapshot(
+      collection(db, "users", uid, "familyProfiles"),
+      (snap) => {
+        const read = readFamilyMembers(snap.docs, canUpgrade);
+        raw.familyMembers = read.members;
+        raw.familyErrors = read.errors;
+        update("family");
+      },
+      fail,
+    ),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+/**
+ * Subscribe to the normalized household profiles of a user. The first
+ * subscriber for a uid opens the Firestore listeners; the last one to
+ * unsubscribe closes them. New subscribers get the cached snapshot
+ * immediately. Pass `canUpgrade` when the reader may edit the household's
+ * profiles, so older family members are saved in the current shape.
+ * Subscribers that differ in `fallbackName` or `canUpgrade` get listeners
+ * of their own.
+ */
+export function subscribeToHouseholdProfiles(
+  uid: string,
+  fallbackName: string,
+  canUpgrade: boolean,
+  listener: Listener,
+): () => void {
+  const key = `${uid}|${fallbackName}|${canUpgrade}`;
+  let entry = households.get(key);
+
+  if (!entry) {
+    const created: HouseholdEntry = {
+      snapshot: { profiles: [], isLoading: true, error: null },
+      listeners: new Set(),
+      unsubscribe: () => {},
+    };
+    households.set(key, created);
+    created.unsubscribe = startListening(
+      uid,
+      fallbackName,
+      canUpgrade,
+      created,
+    );
+    entry = created;
+  }
+
+  const current = entry;
+  current.listeners.add(listener);
+  listener(current.snapshot);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      current.unsubscribe();
+      households.delete(key);
+    }
+  };
+}
+
+/**
+ * Where a profile is stored: the account's own profile lives under its uid
+ * as a main profile, every other profile under the household.
+ */
+export function locateProfile(
+  householdId: string,
+  uid: string,
+  profileId: string,
+): { uid: string; profileId: string } {
+  return profileId === OWN_PROFILE_ID
+    ? { uid, profileId: MAIN_PROFILE_ID }
+    : { uid: householdId, profileId };
+}
+
+function keywordsPath(uid: string, profileId: string): [string, ...string[]] {
+  return profileId === MAIN_PROFILE_ID
+    ? ["users", uid, "settings", "forbiddenKeywords"]
+    : ["users", uid, "familyProfiles", profileId];
+}
+
+/**
+ * The forbidden keywords of one profile. The main profile's list is kept
+ * in users/{uid}/settings/forbiddenKeywords as `keywords`; a family
+ * member's is the `forbiddenKeywords` field of its document.
+ */
+export async function getForbiddenKeywords(
+  uid: string,
+  profileId: string,
+): Promise<string[]> {
+  if (!db || !isFirebaseConfigured) return [];
+
+  const docSnap = await getDoc(doc(db, ...keywordsPath(uid, profileId)));
+  if (!docSnap.exists()) return [];
+
+  const data = docSnap.data();
+  return toNameList(
+    profileId === MAIN_PROFILE_ID ? data.keywords : data.forbiddenKeywords,
+  );
+}
+
+/**
+ * Replaces the forbidden keywords of one profile. Listeners pick the
+ * change up; callers should still refresh AuthContext when the main
+ * profile changed, so the scanner sees it.
+ */
+export async function saveForbiddenKeywords(
+  uid: string,
+  profileId: string,
+  keywords: string[],
+): Promise<void> {
+  if (!db || !isFirebaseConfigured) return;
+
+  const docRef = doc(db, ...keywordsPath(uid, profileId));
+  const updatedAt = new Date().toISOString();
+  if (profileId === MAIN_PROFILE_ID) {
+    await setDoc(docRef, { keywords, updatedAt });
+  } else {
+    await setDoc(
+      docRef,
+      { forbiddenKeywords: keywords, updatedAt },
+      { merge: true },
+    );
+  }
+}
+
+/**
+ * Adds a keyword to a profile's forbidden keywords, unless it is already
+ * there (ignoring case).
+ */
+export async function addForbiddenKeyword(
+  uid: string,
+  keyword: string,
+  profileId: string = MAIN_PROFILE_ID,
+): Promise<void> {
+  const currentKeywords = await getForbiddenKeywords(uid, profileId);
+  if (currentKeywords.some((k) => k.toLowerCase() === keyword.toLowerCase())) {
+    return;
+  }
+
+  await saveForbiddenKeywords(uid, profileId, [...currentKeywords, keyword]);
+}
+
+/**
+ * Reads all family members of a user, in the order they were added.
+ * Members whose documents can't be read are reported in `errors`. Pass
+ * `canUpgrade` when the reader may edit them, so older documents are saved
+ * in the current shape.
+ */
+export async function getFamilyMembers(
+  uid: string,
+  canUpgrade: boolean,
+): Promise<FamilyMembersRead> {
+  if (!db || !isFirebaseConfigured) return { members: [], errors: [] };
+
+  const snapshot = await getDocs(
+    collection(db, "users", uid, "familyProfiles"),
+  );
+  return readFamilyMembers(snapshot.docs, canUpgrade);
+}
+
+/**
+ * Saves a family member. Pass a null id to add a new member: it gets an
+ * auto-generated id and is placed after the existing members. Returns the
+ * member's id.
+ */
+export async function saveFamilyMember(
+  uid: string,
+  memberId: string | null,
+  data: Record<string, any>,
+): Promise<string> {
+  if (!db || !isFirebaseConfigured) {
+    throw new Error("Firebase is not configured");
+  }
+
+  if (memberId) {
+    await setDoc(
+      doc(db, "users", uid, "familyProfiles", memberId),
+      { ...data, schemaVersion: PROFILE_SCHEMA_VERSION },
+      { merge: true },
+    );
+    return memberId;
+  }
+
+  const { members } = await getFamilyMembers(uid, true);
+  const order =
+    members.reduce(
+      (last, member) => Math.max(last, memberOrder(member) ?? 0),
+      0,
+    ) + 1;
+  const docRef = doc(collection(db, "users", uid, "familyProfiles"));
+  await setDoc(docRef, {
+    ...data,
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    order,
+    createdAt: new Date().toISOString(),
+  });
+  return docRef.id;
+}
+
+export async function deleteFamilyMember(
+  uid: string,
+  memberId: string,
+): Promise<void> {
+  if (!db || !isFirebaseConfigured) return;
+
+  await deleteDoc(doc(db, "users", uid, "familyProfiles", memberId));
+}
@@ -0,0 +1,159 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+} from "firebase/firestore";
+
+import { TriggerScan } from "@shared/reactionTriggers";
+import { db, isFirebaseConfigured } from "@/services/firebase";
+import { HistoryCursor, getScanHistoryPage } from "@/services/historyRecords";
+
+/*
+ * Reaction diary.
+ *
+ * A reaction is logged against a scan from history or against a meal
+ * described by hand. Either way the ingredient list of the food is copied
+ * into the entry, so the trigger analysis keeps working after the scan is
+ * deleted from history.
+ *
+ * Reactions are shared by the household and live in
+ * users/{householdId}/reactions; demo mode (and builds without Firebase)
+ * keep them in AsyncStorage under LOCAL_REACTIONS_KEY.
+ *
+ * Suspected triggers are weighed against the household's latest
+ * TRIGGER_BASELINE_SCANS scans, so ingredients found in most foods it
+ * buys are not suggested.
+ */
+
+const LOCAL_REACTIONS_KEY = "@appergy_reactions";
+
+export const TRIGGER_BASELINE_SCANS = 200;
+
+export type ReactionSeverity = "mild" | "moderate" | "severe";
+
+export interface Reaction {
+  id: string;
+  /** When the reaction started. */
+  occurredAt: string;
+  symptoms: string[];
+  severity: ReactionSeverity;
+  profileId: string;
+  profileName: string;
+  /** Set when the reaction was logged against a scan in history. */
+  scanId?: string;
+  /** Product name of the scan, or the meal as described by hand. */
+  food: string;
+  ingredients: string[];
+  notes?: string;
+  createdAt: string;
+}
+
+export type NewReaction = Omit<Reaction, "id" | "createdAt">;
+
+/** Splits a hand-written meal description into ingredient names. */
+export function parseMealIngredients(text: string): string[] {
+  return text
+    .split(/[,;\n]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function byOccurredAtDesc(a: Reaction, b: Reaction): number {
+  return b.occurredAt.localeCompare(a.occurredAt);
+}
+
+async function readLocalReactions(): Promise<Reaction[]> {
+  const stored = await AsyncStorage.getItem(LOCAL_REACTIONS_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/** All of the user's reactions, most recent first. */
+export async function getReactions(
+  uid: string,
+  isDemoMode: boolean,
+): Promise<Reaction[]> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    return (await readLocalReactions()).sort(byOccurredAtDesc);
+  }
+
+  const snapshot = await getDocs(
+    query(
+      collection(db, "users", uid, "reactions"),
+      orderBy("occurredAt", "desc"),
+    ),
+  );
+  return snapshot.docs.map(
+    (reactionDoc) =>
+      ({ id: reactionDoc.id, ...reactionDoc.data() }) as Reaction,
+  );
+}
+
+export async function saveReaction(
+  uid: string,
+  isDemoMode: boolean,
+  entry: NewReaction,
+): Promise<Reaction> {
+  const reaction: Reaction = {
+    ...entry,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const reactions = await readLocalReactions();
+    await AsyncStorage.setItem(
+      LOCAL_REACTIONS_KEY,
+      JSON.stringify([reaction, ...reactions]),
+    );
+    return reaction;
+  }
+
+  // Firestore rejects undefined fields
+  const { id, ...data } = reaction;
+  await setDoc(
+    doc(db, "users", uid, "reactions", id),
+    JSON.parse(JSON.stringify(data)),
+  );
+  return reaction;
+}
+
+export async function deleteReaction(
+  uid: string,
+  isDemoMode: boolean,
+  reactionId: string,
+): Promise<void> {
+  if (isDemoMode || !isFirebaseConfigured || !db) {
+    const reactions = await readLocalReactions();
+    await AsyncStorage.setItem(
+      LOCAL_REACTIONS_KEY,
+      JSON.stringify(reactions.filter((r) => r.id !== reactionId)),
+    );
+    return;
+  }
+
+  await deleteDoc(doc(db, "users", uid, "reactions", reactionId));
+}
+
+/** The household's latest scans, for findSuspectedTriggers. */
+export async function getTriggerBaselineScans(
+  uid: string,
+  isDemoMode: boolean,
+): Promise<TriggerScan[]> {
+  const scans: TriggerScan[] = [];
+  let cursor: HistoryCursor | null = null;
+
+  do {
+    const page = await getScanHistoryPage(uid, isDemoMode, cursor);
+    for (const scan of page.scans) {
+      scans.push({ id: scan.id, ingredients: scan.ingredients || [] });
+    }
+    cursor = page.cursor;
+  } while (cursor && scans.length < TRIGGER_BASELINE_SCANS);
+
+  return scans.slice(0, TRIGGER_BASELINE_SCANS);
+}
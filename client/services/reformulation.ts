@@ -0,0 +1,48 @@
+import { IngredientDiff, diffIngredients } from "@shared/reformulation";
+import {
+  getLatestScanOfProduct,
+  getStoredLabelText,
+} from "@/services/historyRecords";
+import { RuleAnalysisResult } from "@/services/labelRules";
+import { ScanHistoryItem } from "@/services/scanHistory";
+
+/*
+ * Reformulation check for barcode scans.
+ *
+ * Barcode results carry the product's GTIN-14 in productData, and history
+ * entries keep it, so a rescan can be compared with the latest stored scan
+ * of the same product. Call this before the new scan is saved.
+ */
+
+export type Reformulation = IngredientDiff & {
+  /** When the earlier scan was taken, as stored in scan history. */
+  previousTimestamp: ScanHistoryItem["timestamp"];
+};
+
+/**
+ * Compares a barcode result with the latest scan of the same product in the
+ * user's history. Returns null for label scans, first scans and products
+ * whose label has not changed.
+ */
+export async function detectReformulation(
+  uid: string,
+  isDemoMode: boolean,
+  result: RuleAnalysisResult,
+  allergies: string[],
+): Promise<Reformulation | null> {
+  const barcode = result.productData?.barcode;
+  if (!barcode) return null;
+
+  const previous = await getLatestScanOfProduct(uid, isDemoMode, barcode);
+  if (!previous) return null;
+
+  const diff = diffIngredients(
+    { ingredients: previous.ingredients, text: getStoredLabelText(previous) },
+    {
+      ingredients: result.ingredients,
+      text: result.rawText ?? result.ingredients.join(", "),
+    },
+    allergies,
+  );
+  return diff ? { ...diff, previousTimestamp: previous.timestamp } : null;
+}
@@ -0,0 +1,135 @@
+import {
+  HistoryCursor,
+  StoredScan,
+  getScanDate,
+  getScanHistoryPage,
+  getScanVerdict,
+} from "@/services/historyRecords";
+
+/*
+ * Home dashboard insights, computed on the device from the most recent
+ * INSIGHTS_SCAN_LIMIT stored scans.
+ */
+
+export const INSIGHTS_SCAN_LIMIT = 100;
+export const RECENT_SCAN_COUNT = 5;
+export const TOP_FLAGGED_COUNT = 3;
+
+export interface FlaggedIngredient {
+  name: string;
+  /** Scans the ingredient was flagged in. */
+  count: number;
+}
+
+export interface ProfileFlags {
+  profileId: string;
+  name: string;
+  ingredients: FlaggedIngredient[];
+}
+
+export interface ScanInsights {
+  recentScans: StoredScan[];
+  scansThisMonth: number;
+  unsafeThisMonth: number;
+  /** Most often flagged ingredients of each profile, in result order. */
+  topFlagged: ProfileFlags[];
+  /** The latest barcode scan, for the rescan shortcut. */
+  lastProduct: StoredScan | null;
+}
+
+/**
+ * What was flagged for each profile in one scan. Uses the located matches
+ * where the scan has them, and the per-profile summary lists otherwise.
+ */
+function flaggedInScan(scan: StoredScan): Map<string, Set<string>> {
+  const flagged = new Map<string, Set<string>>();
+  const add = (profileId: string, name: string) => {
+    const names = flagged.get(profileId) ?? new Set<string>();
+    names.add(name.trim().toLowerCase());
+    flagged.set(profileId, names);
+  };
+
+  const located = (scan.matchedIngredients || []).filter(
+    (m) => m.profileIds && m.profileIds.length > 0,
+  );
+  if (located.length > 0) {
+    for (const match of located) {
+      match.profileIds?.forEach((profileId) => add(profileId, match.name));
+    }
+    return flagged;
+  }
+
+  for (const result of scan.results || []) {
+    [...result.matchedAllergens, ...result.matchedKeywords].forEach((name) =>
+      add(result.profileId, name),
+    );
+  }
+  return flagged;
+}
+
+/** Builds the dashboard from scans sorted newest first. */
+export function computeScanInsights(
+  scans: StoredScan[],
+  now: Date = new Date(),
+): ScanInsights {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const thisMonth = scans.filter((scan) => getScanDate(scan) >= monthStart);
+
+  const names = new Map<string, string>();
+  const counts = new Map<string, Map<string, number>>();
+  for (const scan of scans) {
+    scan.results?.forEach((r) => {
+      if (!names.has(r.profileId)) names.set(r.profileId, r.name);
+    });
+
+    flaggedInScan(scan).forEach((ingredients, profileId) => {
+      const profileCounts = counts.get(profileId) ?? new Map<string, number>();
+      ingredients.forEach((name) =>
+        profileCounts.set(name, (profileCounts.get(name) ?? 0) + 1),
+      );
+      counts.set(profileId, profileCounts);
+    });
+  }
+
+  const topFlagged: ProfileFlags[] = [];
+  names.forEach((name, profileId) => {
+    const profileCounts = counts.get(profileId);
+    if (!profileCounts) return;
+
+    topFlagged.push({
+      profileId,
+      name,
+      ingredients: Array.from(profileCounts.entries())
+        .map(([ingredient, count]) => ({ name: ingredient, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_FLAGGED_COUNT),
+    });
+  });
+
+  return {
+    recentScans: scans.slice(0, RECENT_SCAN_COUNT),
+    scansThisMonth: thisMonth.length,
+    unsafeThisMonth: thisMonth.filter(
+      (scan) => getScanVerdict(scan) === "unsafe",
+    ).length,
+    topFlagged,
+    lastProduct: scans.find((scan) => !!scan.productData?.barcode) ?? null,
+  };
+}
+
+/** Reads the scans the dashboard is built from, newest first. */
+export async function getInsightScans(
+  uid: string,
+  isDemoMode: boolean,
+): Promise<StoredScan[]> {
+  const scans: StoredScan[] = [];
+  let cursor: HistoryCursor | null = null;
+
+  do {
+    const page = await getScanHistoryPage(uid, isDemoMode, cursor);
+    scans.push(...page.scans);
+    cursor = page.cursor;
+  } while (cursor && scans.length < INSIGHTS_SCAN_LIMIT);
+
+  return scans.slice(0, INSIGHTS_SCAN_LIMIT);
+}
@@ -0,0 +1,252 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { analyzeLabelImages } from "@/services/labelCapture";
+import { RuleAnalysisResult, RuleProfile } from "@/services/labelRules";
+import { saveScanToHistory } from "@/services/scanHistory";
+
+/*
+ * Offline scan queue.
+ *
+ * A label photo that could not be analyzed is never replaced by a guess:
+ * it is stored here and shown as pending until the server has analyzed it.
+ * The queue index lives under QUEUE_KEY; the images of each scan are
+ * stored under their own key because a single AsyncStorage entry is
+ * limited in size on Android. Failed attempts are retried with exponential
+ * backoff, up to MAX_ATTEMPTS; after that the scan is marked failed and
+ * only retried when the user asks. Results go to scan history like any
+ * other scan, so a scan is only queued for a household (or the demo user)
+ * that has a history.
+ *
+ * An analyzed scan leaves the queue before its result is saved and goes
+ * back in if the save fails, so a retry never saves the same scan twice.
+ */
+
+const QUEUE_KEY = "@appergy_scan_queue";
+const IMAGES_KEY_PREFIX = "@appergy_scan_queue_images:";
+
+export const MAX_QUEUED_SCANS = 10;
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+export const MAX_ATTEMPTS = 8;
+
+export interface QueuedScan {
+  id: string;
+  uid: string;
+  /** Profiles as they were selected when the photos were taken. */
+  profiles: RuleProfile[];
+  imageCount: number;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  /** Set after MAX_ATTEMPTS failed attempts; retried only when forced. */
+  failed?: boolean;
+}
+
+export interface ProcessedScan {
+  scan: QueuedScan;
+  result: RuleAnalysisResult;
+}
+
+type Listener = (scans: QueuedScan[]) => void;
+
+let queue: QueuedScan[] | null = null;
+let processing: Promise<ProcessedScan[]> | null = null;
+let forcedRun: Promise<ProcessedScan[]> | null = null;
+const listeners = new Set<Listener>();
+
+async function loadQueue(): Promise<QueuedScan[]> {
+  if (queue) return queue;
+
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    queue = stored ? (JSON.parse(stored) as QueuedScan[]) : [];
+  } catch (error) {
+    console.error("Error loading scan queue:", error);
+    queue = [];
+  }
+  return queue;
+}
+
+async function saveQueue(next: QueuedScan[]): Promise<void> {
+  queue = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(next));
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Stores the compressed shots of one label for later analysis. Throws when
+ * the queue is full.
+ */
+export async function enqueueScan(
+  uid: string,
+  images: string[],
+  profiles: RuleProfile[],
+): Promise<QueuedScan> {
+  const current = await loadQueue();
+  if (current.length >= MAX_QUEUED_SCANS) {
+    throw new Error("Scan queue is full");
+  }
+
+  const scan: QueuedScan = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    uid,
+    profiles,
+    imageCount: images.length,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_RETRY_DELAY_MS,
+  };
+
+  await AsyncStorage.setItem(
+    IMAGES_KEY_PREFIX + scan.id,
+    JSON.stringify(images),
+  );
+  await saveQueue([...current, scan]);
+  return scan;
+}
+
+/** Counts a failed attempt and schedules the next one, if any. */
+async function recordFailedAttempt(scan: QueuedScan): Promise<void> {
+  const attempts = scan.attempts + 1;
+  const updated: QueuedScan = {
+    ...scan,
+    attempts,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    failed: attempts >= MAX_ATTEMPTS,
+  };
+
+  const current = await loadQueue();
+  await saveQueue(
+    current.some((s) => s.id === scan.id)
+      ? current.map((s) => (s.id === scan.id ? updated : s))
+      : [...current, updated],
+  );
+}
+
+export async function removeQueuedScan(id: string): Promise<void> {
+  const current = await loadQueue();
+  await AsyncStorage.removeItem(IMAGES_KEY_PREFIX + id);
+  await saveQueue(current.filter((scan) => scan.id !== id));
+}
+
+/**
+ * Listen to the queue. The listener is called with the stored queue right
+ * away and again on every change.
+ */
+export function subscribeToScanQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  loadQueue().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function processScan(scan: QueuedScan): Promise<RuleAnalysisResult> {
+  const stored = await AsyncStorage.getItem(IMAGES_KEY_PREFIX + scan.id);
+  const images: string[] = stored ? JSON.parse(stored) : [];
+  if (images.length === 0) {
+    throw new Error("Queued scan has no images");
+  }
+
+  return analyzeLabelImages(images, scan.profiles);
+}
+
+async function runQueue(uid: string, force: boolean): Promise<ProcessedScan[]> {
+  const processed: ProcessedScan[] = [];
+  const due = (await loadQueue()).filter(
+    (scan) =>
+      scan.uid === uid &&
+      (force || (!scan.failed && scan.nextAttemptAt <= Date.now())),
+  );
+
+  for (const scan of due) {
+    let result: RuleAnalysisResult;
+    try {
+      result = await processScan(scan);
+    } catch (error) {
+      console.error("Error processing queued scan:", error);
+      await recordFailedAttempt(scan);
+      continue;
+    }
+
+    // Out of the queue first: if this fails, nothing has been saved yet
+    await saveQueue((await loadQueue()).filter((s) => s.id !== scan.id));
+    try {
+      await saveScanToHistory(uid, result);
+    } catch (error) {
+      console.error("Error saving queued scan:", error);
+      await recordFailedAttempt(scan);
+      continue;
+    }
+
+    await AsyncStorage.removeItem(IMAGES_KEY_PREFIX + scan.id).catch(
+      (error) => {
+        console.error("Error removing queued scan images:", error);
+      },
+    );
+    processed.push({ scan, result });
+  }
+
+  return processed;
+}
+
+function startRun(uid: string, force: boolean): Promise<ProcessedScan[]> {
+  const run: Promise<ProcessedScan[]> = runQueue(uid, force).finally(() => {
+    if (processing === run) processing = null;
+  });
+  processing = run;
+  return run;
+}
+
+/**
+ * Retries every queued scan of `uid` whose backoff has elapsed (or all of
+ * them with `force`). Resolves with the scans that were analyzed. Calls made
+ * while a run is in progress share that run, except a forced retry: it
+ * waits for the current run and then retries everything still queued.
+ */
+export function processScanQueue(
+  uid: string | null,
+  options: { force?: boolean } = {},
+): Promise<ProcessedScan[]> {
+  if (!uid) return Promise.resolve([]);
+
+  if (!processing) {
+    return startRun(uid, !!options.force);
+  }
+  if (!options.force) {
+    return processing;
+  }
+
+  if (!forcedRun) {
+    forcedRun = (async () => {
+      while (processing) {
+        await processing.catch(() => []);
+      }
+      forcedRun = null;
+      return startRun(uid, true);
+    })();
+  }
+  return forcedRun;
+}
+
+/**
+ * Earliest scheduled retry for `uid`, or null when nothing is waiting for
+ * an automatic retry.
+ */
+export async function getNextAttemptAt(
+  uid: string | null,
+): Promise<number | null> {
+  const times = (await loadQueue())
+    .filter((scan) => scan.uid === uid && !scan.failed)
+    .map((scan) => scan.nextAttemptAt);
+  return times.length > 0 ? Math.min(...times) : null;
+}
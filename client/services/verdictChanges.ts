@@ -0,0 +1,145 @@
+import {
+  HistoryCursor,
+  getScanDate,
+  getScanHistoryPage,
+  getStoredLabelText,
+} from "@/services/historyRecords";
+import {
+  RuleProfile,
+  RuleProfileResult,
+  analyzeLabelText,
+} from "@/services/labelRules";
+import { getAllergySeverity } from "@/services/profiles";
+
+/*
+ * Verdict changes after a profile edit.
+ *
+ * When a profile's allergies, their severities or the keywords change,
+ * products checked before may no longer get the same result. The stored
+ * label text of every scan the profile was checked in is run through the
+ * deterministic rules twice, with the profile before and after the edit,
+ * and only the differences are reported. Comparing with the saved result
+ * instead would also report what the edit did not cause: a child growing
+ * out of an age rule, or the server engine reading a label differently
+ * from the local one. Only the latest MAX_REEVALUATED_SCANS scans are
+ * checked, so an edit stays quick for long histories.
+ */
+
+export const MAX_REEVALUATED_SCANS = 200;
+
+export interface VerdictChange {
+  profileId: string;
+  name: string;
+  previousStatus: RuleProfileResult["status"];
+  currentStatus: RuleProfileResult["status"];
+}
+
+/** A scan whose verdict changed. Plain data, so it can be a route param. */
+export interface ChangedScan {
+  scanId: string;
+  productName: string | null;
+  type: string;
+  /** ISO date of the scan. */
+  scannedAt: string;
+  changes: VerdictChange[];
+}
+
+export interface VerdictChangeReport {
+  /** Scans whose verdict changed, newest first. */
+  changes: ChangedScan[];
+  /** True when older scans were left unchecked. */
+  isCapped: boolean;
+}
+
+function toTermSet(terms: string[] | undefined): string {
+  return Array.from(new Set((terms || []).map((t) => t.trim().toLowerCase())))
+    .filter((t) => t.length > 0)
+    .sort()
+    .join("\n");
+}
+
+function toSeverityKey(profile: RuleProfile): string {
+  return toTermSet(
+    profile.allergies.map(
+      (allergy) =>
+        `${allergy}:${getAllergySeverity(profile.allergySeverities, allergy)}`,
+    ),
+  );
+}
+
+/**
+ * Whether an edit changed what the rules check a profile for: its
+ * allergies, their severities, forbidden keywords or birthdate. A profile
+ * that did not exist before has no earlier results, so it never counts as
+ * changed.
+ */
+export function ruleInputsChanged(
+  before: RuleProfile | null | undefined,
+  after: RuleProfile,
+): boolean {
+  if (!before) return false;
+
+  return (
+    toSeverityKey(before) !== toSeverityKey(after) ||
+    toTermSet(before.forbiddenKeywords) !==
+      toTermSet(after.forbiddenKeywords) ||
+    (before.birthdate || null) !== (after.birthdate || null)
+  );
+}
+
+/**
+ * Re-checks the user's latest scans with a profile before and after an
+ * edit and reports the scans where it now gets a different verdict.
+ */
+export async function reevaluateScanHistory(
+  uid: string,
+  isDemoMode: boolean,
+  before: RuleProfile,
+  after: RuleProfile,
+): Promise<VerdictChangeReport> {
+  const changed: ChangedScan[] = [];
+  let cursor: HistoryCursor | null = null;
+  let checked = 0;
+  let isCapped = false;
+
+  do {
+    const page = await getScanHistoryPage(uid, isDemoMode, cursor);
+    cursor = page.cursor;
+
+    const scans = page.scans.slice(0, MAX_REEVALUATED_SCANS - checked);
+    checked += scans.length;
+    if (checked >= MAX_REEVALUATED_SCANS) {
+      isCapped = cursor !== null || scans.length < page.scans.length;
+      cursor = null;
+    }
+
+    for (const scan of scans) {
+      const wasChecked = (scan.results || []).some(
+        (r) => r.profileId === after.id,
+      );
+      if (!wasChecked) continue;
+
+      const text = getStoredLabelText(scan);
+      const [previous] = analyzeLabelText(text, [before]).results;
+      const [now] = analyzeLabelText(text, [after]).results;
+      if (!previous || !now || previous.status === now.status) continue;
+
+      changed.push({
+        scanId: scan.id,
+        productName: scan.productName || null,
+        type: scan.type,
+        scannedAt: getScanDate(scan).toISOString(),
+        changes: [
+          {
+            profileId: after.id,
+            name: now.name,
+            previousStatus: previous.status,
+            currentStatus: now.status,
+          },
+        ],
+      });
+    }
+  } while (cursor);
+
+  return { changes: changed, isCapped };
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { findAdvisoryStatements } from "./advisoryStatements";
+import { findAllergenMatches } from "./allergenOntology";
+
+describe("findAdvisoryStatements", () => {
+  it("ends an unpunctuated statement at the allergens it names", () => {
+    const text = "May contain traces of nuts Ingredients: wheat flour, milk";
+    const statements = findAdvisoryStatements(text);
+
+    assert.equal(statements.length, 1);
+    assert.equal(statements[0].text, "May contain traces of nuts");
+    assert.equal(statements[0].bounded, true);
+
+    // The real ingredients stay outside the statement
+    const [milk] = findAllergenMatches(text, "Milk");
+    assert.ok(milk.start >= statements[0].end);
+  });
+
+  it("ends the list at the first item without a separator", () => {
+    const [statement] = findAdvisoryStatements(
+      "may contain peanuts wheat flour sugar milk powder",
+    );
+    assert.equal(statement.text, "may contain peanuts");
+  });
+
+  it("reads lists joined by commas, and, or", () => {
+    const [statement] = findAdvisoryStatements(
+      "Sugar, cocoa. May contain milk, eggs and other nuts. Store cool.",
+    );
+    assert.equal(statement.text, "May contain milk, eggs and other nuts");
+  });
+
+  it("reads shared facility statements", () => {
+    const [statement] = findAdvisoryStatements(
+      "Made in a facility that also processes peanuts and sesame oats, salt",
+    );
+    assert.equal(
+      statement.text,
+      "Made in a facility that also processes peanuts and sesame",
+    );
+  });
+
+  it("stops an unreadable list at the next heading", () => {
+    const [statement] = findAdvisoryStatements(
+      "May contain mango pieces Ingredients: oats, milk",
+    );
+    assert.equal(statement.text, "May contain mango pieces");
+    assert.equal(statement.bounded, false);
+  });
+});
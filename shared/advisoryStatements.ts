@@ -0,0 +1,177 @@
+import { ALLERGEN_ONTOLOGY } from "./allergenOntology";
+
+/**
+ * Precautionary allergen labelling ("may contain", shared facility /
+ * shared equipment statements).
+ *
+ * These statements describe cross-contact risk rather than ingredients, so
+ * the allergens they name become advisories. Ingredient matching still runs
+ * over the whole label; the statements are an extra pass on top of it.
+ *
+ * A statement ends at the allergen list it names ("may contain milk, eggs
+ * and other nuts"). OCR and merged text often lose the punctuation after
+ * that list ("May contain traces of nuts Ingredients: wheat, milk"), so the
+ * list is read item by item instead of running to the next full stop. When
+ * no known allergen follows the trigger, the statement runs to the end of
+ * its sentence or the next "Ingredients:" / "Contains:" heading.
+ */
+
+export interface AdvisoryStatement {
+  /** The statement as it appears on the label. */
+  text: string;
+  start: number;
+  end: number;
+  /**
+   * True when the statement ends at the allergen list it names, false when
+   * the list could not be read and the statement runs to its sentence end.
+   */
+  bounded: boolean;
+}
+
+const ADVISORY_PATTERNS: RegExp[] = [
+  /\bmay\s+(?:also\s+)?contain\b/gi,
+  /\bmay\s+be\s+present\b/gi,
+  /\bmay\s+have\s+come\s+into\s+contact\s+with\b/gi,
+  /\bmade\s+(?:in|on)\s+(?:a\s+)?(?:shared\s+)?(?:facility|factory|plant|site|premises|equipment|line)\b/gi,
+  /\b(?:produced|processed|manufactured|packed|packaged|prepared)\s+(?:in|on)\s+(?:a\s+)?(?:shared\s+)?(?:facility|factory|plant|site|premises|equipment|line)\b/gi,
+  /\b(?:shared|common)\s+(?:equipment|facility|production\s+line)\b/gi,
+  /\btraces?\s+of\b/gi,
+];
+
+const SENTENCE_END = /[.;!\n]/g;
+
+/** Headings that start a new part of the label. */
+const SECTION_HEADING =
+  /\b(?:ingredients?|contains?|allergens?|allergy\s+advice|nutrition(?:al)?\s+(?:facts|information))\s*:/gi;
+
+/** Words between the trigger and the allergens, or before an item. */
+const LIST_FILLER =
+  /^[\s:,-]*(?:(?:that|which|where)\s+(?:also\s+)?(?:processes|handles|uses|packs|packages|produces|manufactures|contains)\b|also\s+(?:processes|handles|uses)\b|(?:small\s+)?(?:amounts?|quantities)\s+of\b|traces?\s+of\b|(?:products?\s+)?containing\b|with\b|other\b)/i;
+
+const LIST_SEPARATOR =
+  /^\s*(?:,(?:\s*(?:and|or)\b)?|&|\/|\band\/or\b|\band\b|\bor\b)/i;
+
+/** Every allergen name the list reader recognises, longest first. */
+const LIST_TERMS = Array.from(
+  new Set(
+    ALLERGEN_ONTOLOGY.flatMap((entry) => [
+      entry.label,
+      ...entry.aliases,
+      ...entry.terms,
+    ]).map((term) => term.toLowerCase()),
+  ),
+).sort((a, b) => b.length - a.length);
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[a-z0-9]/i.test(char);
+}
+
+function findSentenceEnd(text: string, from: number): number {
+  SENTENCE_END.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text)) !== null) {
+    // A dot between digits ("2.5%") does not end the sentence.
+    const isDecimal =
+      match[0] === "." &&
+      /\d/.test(text.charAt(match.index - 1)) &&
+      /\d/.test(text.charAt(match.index + 1));
+    if (!isDecimal) return match.index;
+  }
+  return text.length;
+}
+
+function findHeading(text: string, from: number): number {
+  SECTION_HEADING.lastIndex = from;
+  const match = SECTION_HEADING.exec(text);
+  return match ? match.index : text.length;
+}
+
+function skipFiller(text: string, from: number): number {
+  let pos = from;
+  let match: RegExpExecArray | null;
+  while ((match = LIST_FILLER.exec(text.slice(pos))) !== null) {
+    pos += match[0].length;
+  }
+  return pos;
+}
+
+/** End of the allergen name at `from` (after spacing or a colon), or -1. */
+function matchTermAt(lowerText: string, from: number): number {
+  const start =
+    from + (/^[\s:(-]*/.exec(lowerText.slice(from))?.[0].length ?? 0);
+  if (isWordChar(lowerText[start - 1])) return -1;
+
+  for (const term of LIST_TERMS) {
+    const end = start + term.length;
+    if (lowerText.startsWith(term, start) && !isWordChar(lowerText[end])) {
+      return end;
+    }
+  }
+  return -1;
+}
+
+/**
+ * End of the allergen list that follows a trigger, or -1 when no known
+ * allergen follows it. Items must be joined by commas, "and", "or", "&" or
+ * "/"; the list ends at the first item without a separator after it.
+ */
+function findListEnd(text: string, from: number): number {
+  const lowerText = text.toLowerCase();
+  let listEnd = -1;
+  let pos = skipFiller(text, from);
+
+  for (;;) {
+    const itemEnd = matchTermAt(lowerText, pos);
+    if (itemEnd === -1) break;
+    listEnd = itemEnd;
+
+    const separator = LIST_SEPARATOR.exec(text.slice(itemEnd));
+    if (!separator) break;
+    pos = skipFiller(text, itemEnd + separator[0].length);
+  }
+
+  return listEnd;
+}
+
+/**
+ * Finds every precautionary statement in a label. Overlapping triggers
+ * ("may contain traces of") collapse into a single statement.
+ */
+export function findAdvisoryStatements(text: string): AdvisoryStatement[] {
+  if (!text) return [];
+
+  const triggers: { start: number; end: number }[] = [];
+  for (const pattern of ADVISORY_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      triggers.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  const statements: AdvisoryStatement[] = [];
+  for (const trigger of triggers.sort((a, b) => a.start - b.start)) {
+    const previous = statements[statements.length - 1];
+    if (previous && trigger.start < previous.end) continue;
+
+    const listEnd = findListEnd(text, trigger.end);
+    const end =
+      listEnd !== -1
+        ? listEnd
+        : Math.min(
+            findSentenceEnd(text, trigger.end),
+            findHeading(text, trigger.end),
+          );
+    statements.push({
+      text: text.substring(trigger.start, end).trim(),
+      start: trigger.start,
+      end,
+      bounded: listEnd !== -1,
+    });
+  }
+
+  return statements;
+}
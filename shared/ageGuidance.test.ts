@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ageInMonths, findAgeGuidance } from "./ageGuidance";
+
+function ruleIds(text: string, ageMonths: number): string[] {
+  return findAgeGuidance(text, ageMonths).map((finding) => finding.ruleId);
+}
+
+describe("findAgeGuidance", () => {
+  it("flags honey until the first birthday", () => {
+    assert.deepEqual(ruleIds("Oats, honey", 0), ["honey"]);
+    assert.deepEqual(ruleIds("Oats, honey", 11), ["honey"]);
+    assert.deepEqual(ruleIds("Oats, honey", 12), []);
+  });
+
+  it("flags caffeine until 12 years", () => {
+    assert.deepEqual(ruleIds("Water, caffeine", 143), ["caffeine"]);
+    assert.deepEqual(ruleIds("Water, caffeine", 144), []);
+  });
+
+  it("skips -free mentions and exclusions", () => {
+    assert.deepEqual(ruleIds("Honey-free granola", 6), []);
+    assert.deepEqual(ruleIds("Decaffeinated coffee", 60), []);
+  });
+
+  it("flags sodium above 300 mg from 12 to 48 months", () => {
+    assert.deepEqual(ruleIds("Sodium 301mg", 11), []);
+    assert.deepEqual(ruleIds("Sodium 301mg", 12), ["sodium"]);
+    assert.deepEqual(ruleIds("Sodium 301mg", 47), ["sodium"]);
+    assert.deepEqual(ruleIds("Sodium 301mg", 48), []);
+  });
+
+  it("allows exactly 300 mg of sodium", () => {
+    assert.deepEqual(ruleIds("Sodium 300mg", 24), []);
+    assert.deepEqual(ruleIds("Sodium 0.3g", 24), []);
+  });
+
+  it("reads salt as 40% sodium", () => {
+    // 0.8 g salt = 320 mg sodium, 0.7 g = 280 mg
+    assert.deepEqual(ruleIds("Salt 0.8g", 24), ["sodium"]);
+    assert.deepEqual(ruleIds("Salt 0,7 g", 24), []);
+  });
+});
+
+describe("ageInMonths", () => {
+  it("counts completed months", () => {
+    const on = new Date(2026, 4, 15);
+    assert.equal(ageInMonths("2025-05-15", on), 12);
+    assert.equal(ageInMonths("2025-05-16", on), 11);
+  });
+
+  it("returns null for unreadable or future birthdates", () => {
+    const on = new Date(2026, 4, 15);
+    assert.equal(ageInMonths("2025-02-30", on), null);
+    assert.equal(ageInMonths("2026-06-01", on), null);
+  });
+});
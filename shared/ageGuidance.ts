@@ -0,0 +1,221 @@
+import { findTermRanges } from "./allergenOntology";
+
+/**
+ * Age guidance for infants and young children.
+ *
+ * These rules are not about allergies but about what is recommended at a
+ * given age: no honey before the first birthday, no caffeine for children,
+ * little salt for toddlers. They apply to profiles with a birthdate and are
+ * reported as age guidance, separately from allergy matches.
+ *
+ * Ingredient rules match whole words in the ingredient text, skipping
+ * "-free" mentions and listed exclusions. The sodium rule reads the
+ * nutrition panel ("Sodium 480mg", "Salt 1.2g"), so it only fires when the
+ * scanned text includes one.
+ */
+
+export type AgeGuidanceLevel = "unsafe" | "caution";
+
+export interface AgeGuidanceRule {
+  id: string;
+  /** Short name shown on the result, e.g. "Honey". */
+  label: string;
+  /** The rule applies from this age... */
+  minAgeMonths: number;
+  /** ...until (not including) this age. */
+  maxAgeMonths: number;
+  level: AgeGuidanceLevel;
+  /** Why the rule exists. */
+  message: string;
+  terms?: string[];
+  exclusions?: string[];
+  /** Highest acceptable sodium per stated amount on the nutrition panel. */
+  sodiumLimitMg?: number;
+}
+
+export interface AgeGuidanceFinding {
+  ruleId: string;
+  label: string;
+  level: AgeGuidanceLevel;
+  message: string;
+  /** The text that triggered the rule, e.g. "honey" or "Sodium 480mg". */
+  matchedText: string;
+  start: number;
+  end: number;
+}
+
+export const AGE_GUIDANCE_RULES: AgeGuidanceRule[] = [
+  {
+    id: "honey",
+    label: "Honey",
+    minAgeMonths: 0,
+    maxAgeMonths: 12,
+    level: "unsafe",
+    message:
+      "Honey can cause infant botulism and should not be given before 12 months, even when baked or cooked.",
+    terms: ["honey", "raw honey", "honey powder", "honeycomb", "manuka honey"],
+  },
+  {
+    id: "caffeine",
+    label: "Caffeine",
+    minAgeMonths: 0,
+    maxAgeMonths: 12 * 12,
+    level: "caution",
+    message: "Caffeine is not recommended for children under 12.",
+    terms: [
+      "caffeine",
+      "guarana",
+      "coffee",
+      "espresso",
+      "coffee extract",
+      "green tea extract",
+      "yerba mate",
+      "kola nut",
+      "cola nut",
+    ],
+    exclusions: ["decaffeinated coffee", "decaf coffee"],
+  },
+  {
+    id: "sodium",
+    label: "High sodium",
+    minAgeMonths: 12,
+    maxAgeMonths: 4 * 12,
+    level: "caution",
+    message:
+      "High in sodium for a toddler. Children aged 1 to 3 should have no more than 1,200 mg of sodium a day.",
+    sodiumLimitMg: 300,
+  },
+];
+
+/** Sodium is 40% of salt by weight. */
+const SODIUM_PER_GRAM_OF_SALT_MG = 400;
+
+const NUTRITION_AMOUNT =
+  /\b(sodium|salt)\b[\s:]*(\d+(?:[.,]\d+)?)\s*(mg|g)\b/gi;
+
+/**
+ * Parses a "YYYY-MM-DD" birthdate. Returns null for anything else,
+ * including dates that do not exist.
+ */
+export function parseBirthdate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : null;
+}
+
+/** Completed months between a birthdate and `on`, or null if unreadable. */
+export function ageInMonths(
+  birthdate: string,
+  on: Date = new Date(),
+): number | null {
+  const born = parseBirthdate(birthdate);
+  if (!born || born > on) return null;
+
+  const months =
+    (on.getFullYear() - born.getFullYear()) * 12 +
+    (on.getMonth() - born.getMonth());
+  return on.getDate() < born.getDate() ? months - 1 : months;
+}
+
+/** "8 months", "2 years" */
+export function describeAge(months: number): string {
+  if (months < 1) return "Under 1 month";
+  if (months < 24) return months === 1 ? "1 month" : `${months} months`;
+  return `${Math.floor(months / 12)} years`;
+}
+
+export function getAgeGuidanceRules(ageMonths: number): AgeGuidanceRule[] {
+  return AGE_GUIDANCE_RULES.filter(
+    (rule) => ageMonths >= rule.minAgeMonths && ageMonths < rule.maxAgeMonths,
+  );
+}
+
+function findTermFinding(
+  text: string,
+  rule: AgeGuidanceRule,
+): AgeGuidanceFinding | null {
+  const lowerText = text.toLowerCase();
+  const excluded = (rule.exclusions || []).flatMap((phrase) =>
+    findTermRanges(lowerText, phrase),
+  );
+
+  // Longest first, so "raw honey" is reported rather than "honey"
+  const terms = [...(rule.terms || [])].sort((a, b) => b.length - a.length);
+  for (const term of terms) {
+    const range = findTermRanges(lowerText, term).find(
+      (r) =>
+        !/^(-|\s)free\b/.test(lowerText.slice(r.end, r.end + 6)) &&
+        !excluded.some((e) => r.start >= e.start && r.end <= e.end),
+    );
+    if (range) {
+      return {
+        ruleId: rule.id,
+        label: rule.label,
+        level: rule.level,
+        message: rule.message,
+        matchedText: text.substring(range.start, range.end),
+        start: range.start,
+        end: range.end,
+      };
+    }
+  }
+  return null;
+}
+
+function findSodiumFinding(
+  text: string,
+  rule: AgeGuidanceRule,
+): AgeGuidanceFinding | null {
+  if (rule.sodiumLimitMg === undefined) return null;
+
+  NUTRITION_AMOUNT.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = NUTRITION_AMOUNT.exec(text)) !== null) {
+    const amount = Number(match[2].replace(",", "."));
+    const mg = match[3].toLowerCase() === "g" ? amount * 1000 : amount;
+    const sodiumMg =
+      match[1].toLowerCase() === "salt"
+        ? (mg / 1000) * SODIUM_PER_GRAM_OF_SALT_MG
+        : mg;
+
+    if (sodiumMg > rule.sodiumLimitMg) {
+      return {
+        ruleId: rule.id,
+        label: rule.label,
+        level: rule.level,
+        message: rule.message,
+        matchedText: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * The age guidance that applies to a label for a child of `ageMonths`,
+ * at most one finding per rule.
+ */
+export function findAgeGuidance(
+  text: string,
+  ageMonths: number,
+): AgeGuidanceFinding[] {
+  if (!text) return [];
+
+  const findings: AgeGuidanceFinding[] = [];
+  for (const rule of getAgeGuidanceRules(ageMonths)) {
+    const finding = rule.terms
+      ? findTermFinding(text, rule)
+      : findSodiumFinding(text, rule);
+    if (finding) findings.push(finding);
+  }
+  return findings;
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { findAllergenMatches, resolveAllergen } from "./allergenOntology";
+
+describe("findAllergenMatches", () => {
+  it("finds derivatives of an allergy", () => {
+    const matches = findAllergenMatches(
+      "Sugar, sodium caseinate, whey powder, cocoa",
+      "Dairy",
+    );
+    assert.deepEqual(
+      matches.map((m) => m.synonym),
+      ["sodium caseinate", "whey"],
+    );
+    assert.equal(matches[0].allergenId, "milk");
+    assert.equal(matches[0].matchedText, "sodium caseinate");
+  });
+
+  it("finds scientific names and E-numbers", () => {
+    assert.equal(
+      findAllergenMatches("Pasta (egg), ovalbumin", "Eggs").length,
+      2,
+    );
+    assert.equal(findAllergenMatches("Emulsifier: E 1105", "Eggs").length, 1);
+  });
+
+  it("ignores -free mentions", () => {
+    assert.deepEqual(findAllergenMatches("Dairy-free, milk free", "Milk"), []);
+    assert.deepEqual(findAllergenMatches("Egg free recipe", "Eggs"), []);
+  });
+
+  it("ignores the allergy's exclusions", () => {
+    assert.deepEqual(
+      findAllergenMatches(
+        "Cocoa butter, coconut milk, cream of tartar",
+        "Milk",
+      ),
+      [],
+    );
+    assert.deepEqual(findAllergenMatches("Grilled eggplant", "Eggs"), []);
+  });
+
+  it("still finds the allergy next to an exclusion", () => {
+    const matches = findAllergenMatches("Cocoa butter, butter", "Milk");
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].start, 14);
+  });
+
+  it("matches whole words only", () => {
+    assert.deepEqual(findAllergenMatches("Buttermilky flavour", "Milk"), []);
+  });
+
+  it("falls back to the name of an unknown allergy", () => {
+    assert.equal(resolveAllergen("Kiwi"), null);
+    assert.equal(findAllergenMatches("Kiwi, apple", "Kiwi").length, 1);
+  });
+});
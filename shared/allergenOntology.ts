@@ -0,0 +1,629 @@
+/**
+ * Allergen ontology used by the deterministic rule engine.
+ *
+ * Maps every allergy the app offers (ALLERGY_OPTIONS / COMMON_ALLERGIES in
+ * the setup and profile screens) to the derivative ingredients, scientific
+ * names and E-numbers that reveal it on a label. Bump
+ * ALLERGEN_ONTOLOGY_VERSION whenever terms are added or removed so stored
+ * results can be traced back to the vocabulary that produced them.
+ *
+ * Matching is case-insensitive and whole-word. A term followed by "-free" /
+ * " free" is treated as a negation and ignored, and `exclusions` list
+ * phrases that contain a term without implying the allergen
+ * (e.g. "cocoa butter" for dairy).
+ */
+
+export const ALLERGEN_ONTOLOGY_VERSION = "1.0.0";
+
+export interface AllergenEntry {
+  id: string;
+  label: string;
+  /** Profile labels that resolve to this entry (case-insensitive). */
+  aliases: string[];
+  /** Derivatives, synonyms and scientific names. */
+  terms: string[];
+  eNumbers?: string[];
+  exclusions?: string[];
+}
+
+export interface AllergenMatch {
+  /** The allergy as written on the profile, e.g. "Dairy". */
+  allergen: string;
+  allergenId: string | null;
+  /** The ontology term that fired, e.g. "casein". */
+  synonym: string;
+  /** The text as it appears on the label. */
+  matchedText: string;
+  start: number;
+  end: number;
+}
+
+const WHEAT_TERMS = [
+  "wheat",
+  "wheat flour",
+  "wheat starch",
+  "wheat germ",
+  "wheat bran",
+  "wheat protein",
+  "hydrolyzed wheat protein",
+  "enriched flour",
+  "white flour",
+  "all-purpose flour",
+  "bread flour",
+  "self-raising flour",
+  "self-rising flour",
+  "graham flour",
+  "semolina",
+  "durum",
+  "spelt",
+  "farro",
+  "einkorn",
+  "emmer",
+  "kamut",
+  "khorasan",
+  "bulgur",
+  "couscous",
+  "farina",
+  "seitan",
+  "triticum",
+  "triticum aestivum",
+];
+
+export const ALLERGEN_ONTOLOGY: AllergenEntry[] = [
+  {
+    id: "milk",
+    label: "Milk",
+    aliases: ["milk", "dairy", "lactose"],
+    terms: [
+      "milk",
+      "dairy",
+      "casein",
+      "caseinate",
+      "sodium caseinate",
+      "calcium caseinate",
+      "whey",
+      "whey protein",
+      "lactose",
+      "lactalbumin",
+      "lactoglobulin",
+      "lactoferrin",
+      "milk solids",
+      "milk powder",
+      "milk fat",
+      "skim milk",
+      "skimmed milk",
+      "buttermilk",
+      "butter",
+      "butterfat",
+      "butter oil",
+      "ghee",
+      "cream",
+      "sour cream",
+      "cheese",
+      "curd",
+      "curds",
+      "yogurt",
+      "yoghurt",
+      "kefir",
+      "paneer",
+      "ricotta",
+      "quark",
+      "custard",
+      "recaldent",
+      "lactitol",
+    ],
+    eNumbers: ["E966"],
+    exclusions: [
+      "cocoa butter",
+      "cacao butter",
+      "shea butter",
+      "peanut butter",
+      "nut butter",
+      "almond butter",
+      "coconut milk",
+      "coconut cream",
+      "almond milk",
+      "oat milk",
+      "soy milk",
+      "soya milk",
+      "rice milk",
+      "cream of tartar",
+      "milk thistle",
+      "bean curd",
+    ],
+  },
+  {
+    id: "egg",
+    label: "Eggs",
+    aliases: ["eggs", "egg"],
+    terms: [
+      "egg",
+      "eggs",
+      "egg white",
+      "egg yolk",
+      "dried egg",
+      "powdered egg",
+      "albumin",
+      "albumen",
+      "ovalbumin",
+      "ovomucoid",
+      "ovomucin",
+      "ovoglobulin",
+      "ovotransferrin",
+      "livetin",
+      "vitellin",
+      "lysozyme",
+      "meringue",
+      "mayonnaise",
+    ],
+    eNumbers: ["E1105"],
+    exclusions: ["eggplant"],
+  },
+  {
+    id: "peanut",
+    label: "Peanuts",
+    aliases: ["peanuts", "peanut"],
+    terms: [
+      "peanut",
+      "peanuts",
+      "peanut butter",
+      "peanut flour",
+      "peanut oil",
+      "groundnut",
+      "groundnuts",
+      "arachis",
+      "arachis oil",
+      "arachis hypogaea",
+      "monkey nuts",
+      "beer nuts",
+      "goober",
+      "goobers",
+      "mandelonas",
+    ],
+  },
+  {
+    id: "tree_nut",
+    label: "Tree Nuts",
+    aliases: ["tree nuts", "tree nut", "nuts"],
+    terms: [
+      "tree nut",
+      "tree nuts",
+      "almond",
+      "almonds",
+      "brazil nut",
+      "brazil nuts",
+      "cashew",
+      "cashews",
+      "chestnut",
+      "chestnuts",
+      "hazelnut",
+      "hazelnuts",
+      "filbert",
+      "filberts",
+      "macadamia",
+      "pecan",
+      "pecans",
+      "pistachio",
+      "pistachios",
+      "walnut",
+      "walnuts",
+      "pine nut",
+      "pine nuts",
+      "pignoli",
+      "queensland nut",
+      "praline",
+      "marzipan",
+      "frangipane",
+      "gianduja",
+      "nougat",
+      "nut butter",
+      "nut oil",
+      "nut paste",
+      "prunus dulcis",
+      "anacardium occidentale",
+      "corylus avellana",
+      "juglans regia",
+      "carya illinoinensis",
+      "pistacia vera",
+      "bertholletia excelsa",
+    ],
+    exclusions: ["water chestnut", "water chestnuts", "nutmeg"],
+  },
+  {
+    id: "fish",
+    label: "Fish",
+    aliases: ["fish"],
+    terms: [
+      "fish",
+      "fish sauce",
+      "fish oil",
+      "fish gelatin",
+      "fish stock",
+      "anchovy",
+      "anchovies",
+      "bass",
+      "bonito",
+      "catfish",
+      "cod",
+      "haddock",
+      "hake",
+      "halibut",
+      "herring",
+      "mackerel",
+      "pollock",
+      "salmon",
+      "sardine",
+      "sardines",
+      "snapper",
+      "sole",
+      "swordfish",
+      "tilapia",
+      "trout",
+      "tuna",
+      "caviar",
+      "roe",
+      "surimi",
+      "worcestershire sauce",
+    ],
+  },
+  {
+    id: "shellfish",
+    label: "Shellfish",
+    aliases: ["shellfish", "crustaceans", "molluscs", "mollusks"],
+    terms: [
+      "shellfish",
+      "crustacean",
+      "crustaceans",
+      "shrimp",
+      "prawn",
+      "prawns",
+      "crab",
+      "lobster",
+      "crayfish",
+      "crawfish",
+      "langoustine",
+      "krill",
+      "scampi",
+      "clam",
+      "clams",
+      "mussel",
+      "mussels",
+      "oyster",
+      "oysters",
+      "oyster sauce",
+      "scallop",
+      "scallops",
+      "squid",
+      "calamari",
+      "octopus",
+      "cuttlefish",
+      "abalone",
+      "cockle",
+      "cockles",
+      "whelk",
+      "escargot",
+      "glucosamine",
+      "chitosan",
+    ],
+  },
+  {
+    id: "wheat",
+    label: "Wheat",
+    aliases: ["wheat"],
+    terms: WHEAT_TERMS,
+  },
+  {
+    id: "gluten",
+    label: "Gluten",
+    aliases: ["gluten"],
+    terms: [
+      "gluten",
+      "wheat gluten",
+      "vital wheat gluten",
+      ...WHEAT_TERMS,
+      "barley",
+      "barley malt",
+      "rye",
+      "triticale",
+      "malt",
+      "malt extract",
+      "malt flavoring",
+      "malt flavouring",
+      "malt vinegar",
+      "malted",
+      "brewer's yeast",
+      "oats",
+      "oat",
+      "hordeum vulgare",
+      "secale cereale",
+    ],
+  },
+  {
+    id: "soy",
+    label: "Soy",
+    aliases: ["soy", "soya", "soybeans"],
+    terms: [
+      "soy",
+      "soya",
+      "soybean",
+      "soybeans",
+      "soy lecithin",
+      "soya lecithin",
+      "soy protein",
+      "soy flour",
+      "soy sauce",
+      "lecithin",
+      "edamame",
+      "miso",
+      "natto",
+      "tempeh",
+      "tofu",
+      "tamari",
+      "shoyu",
+      "textured vegetable protein",
+      "tvp",
+      "glycine max",
+    ],
+    eNumbers: ["E322", "E426"],
+    exclusions: [
+      "sunflower lecithin",
+      "rapeseed lecithin",
+      "canola lecithin",
+      "egg lecithin",
+    ],
+  },
+  {
+    id: "sesame",
+    label: "Sesame",
+    aliases: ["sesame", "sesame seeds"],
+    terms: [
+      "sesame",
+      "sesame seed",
+      "sesame seeds",
+      "sesame oil",
+      "tahini",
+      "tahina",
+      "halva",
+      "halvah",
+      "gomasio",
+      "benne",
+      "sesamum indicum",
+    ],
+  },
+  {
+    id: "corn",
+    label: "Corn",
+    aliases: ["corn", "maize"],
+    terms: [
+      "corn",
+      "maize",
+      "cornstarch",
+      "corn starch",
+      "cornflour",
+      "corn flour",
+      "cornmeal",
+      "corn syrup",
+      "corn syrup solids",
+      "high fructose corn syrup",
+      "corn oil",
+      "dextrose",
+      "maltodextrin",
+      "polenta",
+      "grits",
+      "hominy",
+      "masa",
+      "zea mays",
+    ],
+    exclusions: ["peppercorn", "peppercorns"],
+  },
+  {
+    id: "mustard",
+    label: "Mustard",
+    aliases: ["mustard"],
+    terms: [
+      "mustard",
+      "mustard seed",
+      "mustard seeds",
+      "mustard flour",
+      "mustard oil",
+      "dijon",
+      "brassica juncea",
+      "brassica nigra",
+      "sinapis alba",
+    ],
+  },
+  {
+    id: "lupin",
+    label: "Lupin",
+    aliases: ["lupin", "lupine"],
+    terms: [
+      "lupin",
+      "lupine",
+      "lupini",
+      "lupin flour",
+      "lupin protein",
+      "lupinus",
+    ],
+  },
+  {
+    id: "gelatin",
+    label: "Gelatin",
+    aliases: ["gelatin", "gelatine"],
+    terms: ["gelatin", "gelatine", "collagen", "hydrolyzed collagen"],
+    eNumbers: ["E441"],
+  },
+  {
+    id: "sulfites",
+    label: "Sulfites",
+    aliases: ["sulfites", "sulphites", "sulfite", "sulphite"],
+    terms: [
+      "sulfite",
+      "sulfites",
+      "sulphite",
+      "sulphites",
+      "sulfur dioxide",
+      "sulphur dioxide",
+      "metabisulfite",
+      "metabisulphite",
+      "sodium metabisulfite",
+      "potassium metabisulfite",
+      "sodium bisulfite",
+      "potassium bisulfite",
+      "sodium sulfite",
+    ],
+    eNumbers: [
+      "E220",
+      "E221",
+      "E222",
+      "E223",
+      "E224",
+      "E225",
+      "E226",
+      "E227",
+      "E228",
+    ],
+  },
+  {
+    id: "seeds",
+    label: "Seeds",
+    aliases: ["seeds", "seed"],
+    terms: [
+      "seeds",
+      "sunflower seed",
+      "sunflower seeds",
+      "pumpkin seed",
+      "pumpkin seeds",
+      "pepitas",
+      "poppy seed",
+      "poppy seeds",
+      "flaxseed",
+      "flax seed",
+      "linseed",
+      "chia",
+      "chia seeds",
+      "hemp seed",
+      "hemp seeds",
+      "sesame seed",
+      "sesame seeds",
+    ],
+  },
+];
+
+const entriesByAlias = new Map<string, AllergenEntry>();
+for (const entry of ALLERGEN_ONTOLOGY) {
+  entriesByAlias.set(entry.label.toLowerCase(), entry);
+  for (const alias of entry.aliases) {
+    entriesByAlias.set(alias.toLowerCase(), entry);
+  }
+}
+
+/**
+ * Finds the ontology entry for a profile allergy label, or null for custom
+ * allergies the ontology does not know about.
+ */
+export function resolveAllergen(name: string): AllergenEntry | null {
+  return entriesByAlias.get(name.trim().toLowerCase()) ?? null;
+}
+
+/** "E322" → ["e322", "e 322", "e-322"] */
+function eNumberVariants(code: string): string[] {
+  const digits = code.replace(/^e[\s-]?/i, "");
+  return [`e${digits}`, `e ${digits}`, `e-${digits}`];
+}
+
+/**
+ * All lowercase search terms for an allergy, longest first so that
+ * "soy lecithin" is reported in preference to "soy". Unknown allergies fall
+ * back to their own name.
+ */
+export function getAllergenTerms(name: string): string[] {
+  const entry = resolveAllergen(name);
+  const terms = new Set<string>([name.trim().toLowerCase()]);
+
+  if (entry) {
+    entry.terms.forEach((term) => terms.add(term.toLowerCase()));
+    (entry.eNumbers || []).forEach((code) =>
+      eNumberVariants(code).forEach((variant) => terms.add(variant)),
+    );
+  }
+
+  return Array.from(terms)
+    .filter((term) => term.length > 0)
+    .sort((a, b) => b.length - a.length);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[a-z0-9]/i.test(char);
+}
+
+function isNegated(lowerText: string, end: number): boolean {
+  return /^(-|\s)free\b/.test(lowerText.slice(end, end + 6));
+}
+
+/**
+ * Whole-word occurrences of a lowercase term in lowercase text.
+ */
+export function findTermRanges(
+  lowerText: string,
+  term: string,
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let pos = 0;
+
+  while (pos < lowerText.length) {
+    const idx = lowerText.indexOf(term, pos);
+    if (idx === -1) break;
+    const end = idx + term.length;
+    if (!isWordChar(lowerText[idx - 1]) && !isWordChar(lowerText[end])) {
+      ranges.push({ start: idx, end });
+    }
+    pos = idx + 1;
+  }
+
+  return ranges;
+}
+
+/**
+ * Finds every occurrence of an allergy (or any of its derivatives) in a
+ * block of label text. Overlapping hits are collapsed to the longest term,
+ * so "sodium caseinate" yields one match rather than two.
+ */
+export function findAllergenMatches(
+  text: string,
+  allergen: string,
+): AllergenMatch[] {
+  if (!text || !allergen.trim()) return [];
+
+  const entry = resolveAllergen(allergen);
+  const lowerText = text.toLowerCase();
+
+  const excluded = (entry?.exclusions || []).flatMap((phrase) =>
+    findTermRanges(lowerText, phrase.toLowerCase()),
+  );
+
+  const matches: AllergenMatch[] = [];
+
+  for (const term of getAllergenTerms(allergen)) {
+    for (const range of findTermRanges(lowerText, term)) {
+      const overlapsExisting = matches.some(
+        (m) => range.start < m.end && range.end > m.start,
+      );
+      const isExcluded = excluded.some(
+        (e) => range.start >= e.start && range.end <= e.end,
+      );
+      if (overlapsExisting || isExcluded || isNegated(lowerText, range.end)) {
+        continue;
+      }
+      matches.push({
+        allergen,
+        allergenId: entry?.id ?? null,
+        synonym: term,
+        matchedText: text.substring(range.start, range.end),
+        start: range.start,
+        end: range.end,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
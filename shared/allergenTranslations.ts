@@ -0,0 +1,1232 @@
+/**
+ * Translations used by the chef card.
+ *
+ * Every entry of ALLERGEN_ONTOLOGY has a translated name and the everyday
+ * derivatives a kitchen should watch for (butter and whey for milk, tahini
+ * for sesame, ...). These are dishes and ingredients a cook recognises, not
+ * the full label vocabulary of the ontology. Allergies the ontology does not
+ * know about are not translated and are shown as written.
+ *
+ * Add a language by extending ChefCardLanguage; the Record types make the
+ * compiler point at every phrase and allergen that still needs it.
+ */
+
+export type ChefCardLanguage =
+  | "en"
+  | "es"
+  | "fr"
+  | "de"
+  | "it"
+  | "pt"
+  | "ja"
+  | "zh";
+
+export interface ChefCardLanguageOption {
+  code: ChefCardLanguage;
+  /** English name, e.g. "Spanish". */
+  name: string;
+  /** Name in the language itself, e.g. "Español". */
+  nativeName: string;
+}
+
+export const CHEF_CARD_LANGUAGES: ChefCardLanguageOption[] = [
+  { code: "en", name: "English", nativeName: "English" },
+  { code: "es", name: "Spanish", nativeName: "Español" },
+  { code: "fr", name: "French", nativeName: "Français" },
+  { code: "de", name: "German", nativeName: "Deutsch" },
+  { code: "it", name: "Italian", nativeName: "Italiano" },
+  { code: "pt", name: "Portuguese", nativeName: "Português" },
+  { code: "ja", name: "Japanese", nativeName: "日本語" },
+  { code: "zh", name: "Chinese", nativeName: "中文" },
+];
+
+/** Phrases that differ between a card for one person and for a group. */
+interface PersonPhrase {
+  one: string;
+  group: string;
+}
+
+export interface ChefCardPhrases {
+  title: string;
+  intro: PersonPhrase;
+  /** Precedes the list of derivatives. */
+  including: string;
+  /** Shown next to anaphylactic allergies. */
+  severe: string;
+  crossContact: string;
+  ask: PersonPhrase;
+  /** Precedes allergies that have no translation. */
+  other: string;
+  thanks: string;
+}
+
+export const CHEF_CARD_PHRASES: Record<ChefCardLanguage, ChefCardPhrases> = {
+  en: {
+    title: "Allergy Card",
+    intro: {
+      one: "I have food allergies. My food must not contain, or be prepared with, any of the following:",
+      group:
+        "We have food allergies. Our food must not contain, or be prepared with, any of the following:",
+    },
+    including: "Including:",
+    severe: "Severe allergy: even traces can be life-threatening.",
+    crossContact:
+      "Please use clean utensils, pans and surfaces, and don't use frying oil shared with other foods.",
+    ask: {
+      one: "If you are unsure whether a dish is safe, please let me know.",
+      group: "If you are unsure whether a dish is safe, please let us know.",
+    },
+    other: "Also avoid:",
+    thanks: "Thank you for your help!",
+  },
+  es: {
+    title: "Tarjeta de alergias",
+    intro: {
+      one: "Tengo alergias alimentarias. Mi comida no debe contener ni prepararse con ninguno de estos ingredientes:",
+      group:
+        "Tenemos alergias alimentarias. Nuestra comida no debe contener ni prepararse con ninguno de estos ingredientes:",
+    },
+    including: "Incluidos:",
+    severe:
+      "Alergia grave: incluso las trazas pueden poner en peligro la vida.",
+    crossContact:
+      "Por favor, utilice utensilios, sartenes y superficies limpios, y no use aceite de freír compartido con otros alimentos.",
+    ask: {
+      one: "Si tiene dudas sobre algún plato, por favor avíseme.",
+      group: "Si tiene dudas sobre algún plato, por favor avísenos.",
+    },
+    other: "Evitar también:",
+    thanks: "¡Muchas gracias por su ayuda!",
+  },
+  fr: {
+    title: "Carte d'allergies",
+    intro: {
+      one: "J'ai des allergies alimentaires. Mon repas ne doit contenir aucun des ingrédients suivants, ni être préparé avec :",
+      group:
+        "Nous avons des allergies alimentaires. Notre repas ne doit contenir aucun des ingrédients suivants, ni être préparé avec :",
+    },
+    including: "Y compris :",
+    severe:
+      "Allergie sévère : même des traces peuvent mettre la vie en danger.",
+    crossContact:
+      "Merci d'utiliser des ustensiles, des poêles et des surfaces propres, et de ne pas utiliser d'huile de friture partagée avec d'autres aliments.",
+    ask: {
+      one: "En cas de doute sur un plat, merci de me prévenir.",
+      group: "En cas de doute sur un plat, merci de nous prévenir.",
+    },
+    other: "À éviter également :",
+    thanks: "Merci beaucoup pour votre aide !",
+  },
+  de: {
+    title: "Allergiekarte",
+    intro: {
+      one: "Ich habe Lebensmittelallergien. Mein Essen darf keine der folgenden Zutaten enthalten und nicht damit zubereitet werden:",
+      group:
+        "Wir haben Lebensmittelallergien. Unser Essen darf keine der folgenden Zutaten enthalten und nicht damit zubereitet werden:",
+    },
+    including: "Einschließlich:",
+    severe: "Schwere Allergie: Schon Spuren können lebensgefährlich sein.",
+    crossContact:
+      "Bitte verwenden Sie saubere Utensilien, Pfannen und Arbeitsflächen und kein Frittierfett, das für andere Speisen benutzt wurde.",
+    ask: {
+      one: "Wenn Sie bei einem Gericht unsicher sind, sagen Sie mir bitte Bescheid.",
+      group:
+        "Wenn Sie bei einem Gericht unsicher sind, sagen Sie uns bitte Bescheid.",
+    },
+    other: "Bitte außerdem vermeiden:",
+    thanks: "Vielen Dank für Ihre Hilfe!",
+  },
+  it: {
+    title: "Scheda allergie",
+    intro: {
+      one: "Ho delle allergie alimentari. Il mio cibo non deve contenere nessuno dei seguenti ingredienti, né essere preparato con essi:",
+      group:
+        "Abbiamo delle allergie alimentari. Il nostro cibo non deve contenere nessuno dei seguenti ingredienti, né essere preparato con essi:",
+    },
+    including: "Compresi:",
+    severe: "Allergia grave: anche le tracce possono essere letali.",
+    crossContact:
+      "Si prega di usare utensili, padelle e superfici puliti e di non usare olio di frittura condiviso con altri alimenti.",
+    ask: {
+      one: "Se ha dubbi su un piatto, me lo faccia sapere.",
+      group: "Se ha dubbi su un piatto, ce lo faccia sapere.",
+    },
+    other: "Evitare anche:",
+    thanks: "Grazie mille per l'aiuto!",
+  },
+  pt: {
+    title: "Cartão de alergias",
+    intro: {
+      one: "Tenho alergias alimentares. A minha comida não pode conter nem ser preparada com nenhum destes ingredientes:",
+      group:
+        "Temos alergias alimentares. A nossa comida não pode conter nem ser preparada com nenhum destes ingredientes:",
+    },
+    including: "Incluindo:",
+    severe: "Alergia grave: até vestígios podem ser fatais.",
+    crossContact:
+      "Por favor, use utensílios, frigideiras e superfícies limpos e não use óleo de fritura partilhado com outros alimentos.",
+    ask: {
+      one: "Se tiver dúvidas sobre algum prato, por favor avise-me.",
+      group: "Se tiver dúvidas sobre algum prato, por favor avise-nos.",
+    },
+    other: "Evitar também:",
+    thanks: "Muito obrigado pela ajuda!",
+  },
+  ja: {
+    title: "アレルギーカード",
+    intro: {
+      one: "私には食物アレルギーがあります。以下の食材を含む料理、またはこれらを使って調理した料理は食べられません。",
+      group:
+        "私たちには食物アレルギーがあります。以下の食材を含む料理、またはこれらを使って調理した料理は食べられません。",
+    },
+    including: "これらも含みます：",
+    severe: "重度のアレルギーです。微量でも命に関わります。",
+    crossContact:
+      "清潔な調理器具、フライパン、調理台を使い、他の食品と共用の揚げ油は使わないでください。",
+    ask: {
+      one: "安全かどうか分からない料理があれば、教えてください。",
+      group: "安全かどうか分からない料理があれば、教えてください。",
+    },
+    other: "その他、避けるもの：",
+    thanks: "ご協力ありがとうございます。",
+  },
+  zh: {
+    title: "过敏信息卡",
+    intro: {
+      one: "我有食物过敏。我的食物不能含有以下成分，也不能用它们烹调：",
+      group: "我们有食物过敏。我们的食物不能含有以下成分，也不能用它们烹调：",
+    },
+    including: "包括：",
+    severe: "严重过敏：即使微量也可能危及生命。",
+    crossContact:
+      "请使用干净的餐具、锅具和台面，不要使用与其他食物共用的炸油。",
+    ask: {
+      one: "如果不确定某道菜是否安全，请告诉我。",
+      group: "如果不确定某道菜是否安全，请告诉我们。",
+    },
+    other: "另外请避免：",
+    thanks: "非常感谢您的帮助！",
+  },
+};
+
+export interface AllergenTranslation {
+  name: string;
+  derivatives: string[];
+}
+
+/** Keyed by ALLERGEN_ONTOLOGY id. */
+export const ALLERGEN_TRANSLATIONS: Record<
+  string,
+  Record<ChefCardLanguage, AllergenTranslation>
+> = {
+  milk: {
+    en: {
+      name: "Milk",
+      derivatives: ["butter", "cream", "cheese", "yogurt", "whey", "casein"],
+    },
+    es: {
+      name: "Leche",
+      derivatives: [
+        "mantequilla",
+        "nata",
+        "queso",
+        "yogur",
+        "suero de leche",
+        "caseína",
+      ],
+    },
+    fr: {
+      name: "Lait",
+      derivatives: [
+        "beurre",
+        "crème",
+        "fromage",
+        "yaourt",
+        "lactosérum",
+        "caséine",
+      ],
+    },
+    de: {
+      name: "Milch",
+      derivatives: ["Butter", "Sahne", "Käse", "Joghurt", "Molke", "Kasein"],
+    },
+    it: {
+      name: "Latte",
+      derivatives: [
+        "burro",
+        "panna",
+        "formaggio",
+        "yogurt",
+        "siero di latte",
+        "caseina",
+      ],
+    },
+    pt: {
+      name: "Leite",
+      derivatives: [
+        "manteiga",
+        "natas",
+        "queijo",
+        "iogurte",
+        "soro de leite",
+        "caseína",
+      ],
+    },
+    ja: {
+      name: "乳（牛乳）",
+      derivatives: [
+        "バター",
+        "生クリーム",
+        "チーズ",
+        "ヨーグルト",
+        "ホエイ",
+        "カゼイン",
+      ],
+    },
+    zh: {
+      name: "牛奶",
+      derivatives: ["黄油", "奶油", "奶酪", "酸奶", "乳清", "酪蛋白"],
+    },
+  },
+  egg: {
+    en: {
+      name: "Eggs",
+      derivatives: [
+        "egg white",
+        "egg yolk",
+        "mayonnaise",
+        "meringue",
+        "albumin",
+      ],
+    },
+    es: {
+      name: "Huevo",
+      derivatives: [
+        "clara de huevo",
+        "yema de huevo",
+        "mayonesa",
+        "merengue",
+        "albúmina",
+      ],
+    },
+    fr: {
+      name: "Œufs",
+      derivatives: [
+        "blanc d'œuf",
+        "jaune d'œuf",
+        "mayonnaise",
+        "meringue",
+        "albumine",
+      ],
+    },
+    de: {
+      name: "Eier",
+      derivatives: ["Eiweiß", "Eigelb", "Mayonnaise", "Baiser", "Albumin"],
+    },
+    it: {
+      name: "Uova",
+      derivatives: ["albume", "tuorlo", "maionese", "meringa", "albumina"],
+    },
+    pt: {
+      name: "Ovos",
+      derivatives: [
+        "clara de ovo",
+        "gema de ovo",
+        "maionese",
+        "merengue",
+        "albumina",
+      ],
+    },
+    ja: {
+      name: "卵",
+      derivatives: ["卵白", "卵黄", "マヨネーズ", "メレンゲ"],
+    },
+    zh: {
+      name: "鸡蛋",
+      derivatives: ["蛋清", "蛋黄", "蛋黄酱", "蛋白霜"],
+    },
+  },
+  peanut: {
+    en: {
+      name: "Peanuts",
+      derivatives: ["peanut oil", "peanut butter", "groundnuts", "satay sauce"],
+    },
+    es: {
+      name: "Cacahuetes (maní)",
+      derivatives: ["aceite de cacahuete", "crema de cacahuete", "salsa satay"],
+    },
+    fr: {
+      name: "Arachides (cacahuètes)",
+      derivatives: ["huile d'arachide", "beurre de cacahuète", "sauce satay"],
+    },
+    de: {
+      name: "Erdnüsse",
+      derivatives: ["Erdnussöl", "Erdnussbutter", "Satay-Soße"],
+    },
+    it: {
+      name: "Arachidi",
+      derivatives: ["olio di arachidi", "burro di arachidi", "salsa satay"],
+    },
+    pt: {
+      name: "Amendoim",
+      derivatives: ["óleo de amendoim", "manteiga de amendoim", "molho satay"],
+    },
+    ja: {
+      name: "落花生（ピーナッツ）",
+      derivatives: ["ピーナッツオイル", "ピーナッツバター", "サテソース"],
+    },
+    zh: {
+      name: "花生",
+      derivatives: ["花生油", "花生酱", "沙爹酱"],
+    },
+  },
+  tree_nut: {
+    en: {
+      name: "Tree nuts",
+      derivatives: [
+        "almonds",
+        "hazelnuts",
+        "walnuts",
+        "cashews",
+        "pistachios",
+        "pecans",
+        "nut oils",
+      ],
+    },
+    es: {
+      name: "Frutos secos",
+      derivatives: [
+        "almendras",
+        "avellanas",
+        "nueces",
+        "anacardos",
+        "pistachos",
+        "pacanas",
+        "aceites de frutos secos",
+      ],
+    },
+    fr: {
+      name: "Fruits à coque",
+      derivatives: [
+        "amandes",
+        "noisettes",
+        "noix",
+        "noix de cajou",
+        "pistaches",
+        "noix de pécan",
+        "huiles de noix",
+      ],
+    },
+    de: {
+      name: "Schalenfrüchte (Nüsse)",
+      derivatives: [
+        "Mandeln",
+        "Haselnüsse",
+        "Walnüsse",
+        "Cashewkerne",
+        "Pistazien",
+        "Pekannüsse",
+        "Nussöle",
+      ],
+    },
+    it: {
+      name: "Frutta a guscio",
+      derivatives: [
+        "mandorle",
+        "nocciole",
+        "noci",
+        "anacardi",
+        "pistacchi",
+        "noci pecan",
+        "oli di frutta a guscio",
+      ],
+    },
+    pt: {
+      name: "Frutos de casca rija",
+      derivatives: [
+        "amêndoas",
+        "avelãs",
+        "nozes",
+        "cajus",
+        "pistácios",
+        "nozes-pecã",
+        "óleos de frutos secos",
+      ],
+    },
+    ja: {
+      name: "ナッツ類",
+      derivatives: [
+        "アーモンド",
+        "ヘーゼルナッツ",
+        "くるみ",
+        "カシューナッツ",
+        "ピスタチオ",
+        "ピーカンナッツ",
+        "ナッツオイル",
+      ],
+    },
+    zh: {
+      name: "坚果",
+      derivatives: [
+        "杏仁",
+        "榛子",
+        "核桃",
+        "腰果",
+        "开心果",
+        "碧根果",
+        "坚果油",
+      ],
+    },
+  },
+  fish: {
+    en: {
+      name: "Fish",
+      derivatives: [
+        "fish sauce",
+        "anchovies",
+        "fish stock",
+        "Worcestershire sauce",
+      ],
+    },
+    es: {
+      name: "Pescado",
+      derivatives: [
+        "salsa de pescado",
+        "anchoas",
+        "caldo de pescado",
+        "salsa Worcestershire",
+      ],
+    },
+    fr: {
+      name: "Poisson",
+      derivatives: [
+        "sauce de poisson",
+        "anchois",
+        "fumet de poisson",
+        "sauce Worcestershire",
+      ],
+    },
+    de: {
+      name: "Fisch",
+      derivatives: [
+        "Fischsoße",
+        "Sardellen",
+        "Fischfond",
+        "Worcestershiresauce",
+      ],
+    },
+    it: {
+      name: "Pesce",
+      derivatives: [
+        "salsa di pesce",
+        "acciughe",
+        "brodo di pesce",
+        "salsa Worcestershire",
+      ],
+    },
+    pt: {
+      name: "Peixe",
+      derivatives: [
+        "molho de peixe",
+        "anchovas",
+        "caldo de peixe",
+        "molho inglês",
+      ],
+    },
+    ja: {
+      name: "魚",
+      derivatives: ["魚醤", "アンチョビ", "魚のだし", "ウスターソース"],
+    },
+    zh: {
+      name: "鱼",
+      derivatives: ["鱼露", "凤尾鱼", "鱼汤", "伍斯特酱"],
+    },
+  },
+  shellfish: {
+    en: {
+      name: "Shellfish",
+      derivatives: [
+        "shrimp",
+        "prawns",
+        "crab",
+        "lobster",
+        "mussels",
+        "clams",
+        "oysters",
+        "oyster sauce",
+      ],
+    },
+    es: {
+      name: "Marisco",
+      derivatives: [
+        "gambas",
+        "langostinos",
+        "cangrejo",
+        "langosta",
+        "mejillones",
+        "almejas",
+        "ostras",
+        "salsa de ostras",
+      ],
+    },
+    fr: {
+      name: "Crustacés et mollusques",
+      derivatives: [
+        "crevettes",
+        "crabe",
+        "homard",
+        "moules",
+        "palourdes",
+        "huîtres",
+        "sauce d'huître",
+      ],
+    },
+    de: {
+      name: "Krebs- und Weichtiere",
+      derivatives: [
+        "Garnelen",
+        "Krabben",
+        "Hummer",
+        "Muscheln",
+        "Austern",
+        "Austernsoße",
+      ],
+    },
+    it: {
+      name: "Crostacei e molluschi",
+      derivatives: [
+        "gamberi",
+        "granchio",
+        "aragosta",
+        "cozze",
+        "vongole",
+        "ostriche",
+        "salsa di ostriche",
+      ],
+    },
+    pt: {
+      name: "Marisco",
+      derivatives: [
+        "camarão",
+        "gambas",
+        "caranguejo",
+        "lagosta",
+        "mexilhões",
+        "amêijoas",
+        "ostras",
+        "molho de ostra",
+      ],
+    },
+    ja: {
+      name: "甲殻類・貝類",
+      derivatives: [
+        "えび",
+        "かに",
+        "ロブスター",
+        "ムール貝",
+        "あさり",
+        "牡蠣",
+        "オイスターソース",
+      ],
+    },
+    zh: {
+      name: "贝类和甲壳类",
+      derivatives: ["虾", "蟹", "龙虾", "青口", "蛤蜊", "牡蛎", "蚝油"],
+    },
+  },
+  wheat: {
+    en: {
+      name: "Wheat",
+      derivatives: [
+        "flour",
+        "bread",
+        "pasta",
+        "semolina",
+        "couscous",
+        "breadcrumbs",
+      ],
+    },
+    es: {
+      name: "Trigo",
+      derivatives: [
+        "harina",
+        "pan",
+        "pasta",
+        "sémola",
+        "cuscús",
+        "pan rallado",
+      ],
+    },
+    fr: {
+      name: "Blé",
+      derivatives: [
+        "farine",
+        "pain",
+        "pâtes",
+        "semoule",
+        "couscous",
+        "chapelure",
+      ],
+    },
+    de: {
+      name: "Weizen",
+      derivatives: [
+        "Mehl",
+        "Brot",
+        "Nudeln",
+        "Grieß",
+        "Couscous",
+        "Paniermehl",
+      ],
+    },
+    it: {
+      name: "Frumento",
+      derivatives: [
+        "farina",
+        "pane",
+        "pasta",
+        "semola",
+        "cuscus",
+        "pangrattato",
+      ],
+    },
+    pt: {
+      name: "Trigo",
+      derivatives: [
+        "farinha",
+        "pão",
+        "massa",
+        "sêmola",
+        "cuscuz",
+        "pão ralado",
+      ],
+    },
+    ja: {
+      name: "小麦",
+      derivatives: [
+        "小麦粉",
+        "パン",
+        "パスタ",
+        "セモリナ",
+        "クスクス",
+        "パン粉",
+      ],
+    },
+    zh: {
+      name: "小麦",
+      derivatives: [
+        "面粉",
+        "面包",
+        "意大利面",
+        "粗粒小麦粉",
+        "古斯米",
+        "面包糠",
+      ],
+    },
+  },
+  gluten: {
+    en: {
+      name: "Gluten",
+      derivatives: [
+        "wheat",
+        "barley",
+        "rye",
+        "malt",
+        "spelt",
+        "beer",
+        "regular soy sauce",
+      ],
+    },
+    es: {
+      name: "Gluten",
+      derivatives: [
+        "trigo",
+        "cebada",
+        "centeno",
+        "malta",
+        "espelta",
+        "cerveza",
+        "salsa de soja normal",
+      ],
+    },
+    fr: {
+      name: "Gluten",
+      derivatives: [
+        "blé",
+        "orge",
+        "seigle",
+        "malt",
+        "épeautre",
+        "bière",
+        "sauce soja classique",
+      ],
+    },
+    de: {
+      name: "Gluten",
+      derivatives: [
+        "Weizen",
+        "Gerste",
+        "Roggen",
+        "Malz",
+        "Dinkel",
+        "Bier",
+        "normale Sojasoße",
+      ],
+    },
+    it: {
+      name: "Glutine",
+      derivatives: [
+        "frumento",
+        "orzo",
+        "segale",
+        "malto",
+        "farro",
+        "birra",
+        "salsa di soia normale",
+      ],
+    },
+    pt: {
+      name: "Glúten",
+      derivatives: [
+        "trigo",
+        "cevada",
+        "centeio",
+        "malte",
+        "espelta",
+        "cerveja",
+        "molho de soja comum",
+      ],
+    },
+    ja: {
+      name: "グルテン",
+      derivatives: [
+        "小麦",
+        "大麦",
+        "ライ麦",
+        "麦芽",
+        "スペルト小麦",
+        "ビール",
+        "通常の醤油",
+      ],
+    },
+    zh: {
+      name: "麸质",
+      derivatives: [
+        "小麦",
+        "大麦",
+        "黑麦",
+        "麦芽",
+        "斯佩尔特小麦",
+        "啤酒",
+        "普通酱油",
+      ],
+    },
+  },
+  soy: {
+    en: {
+      name: "Soy",
+      derivatives: ["soy sauce", "tofu", "miso", "edamame", "soy lecithin"],
+    },
+    es: {
+      name: "Soja",
+      derivatives: [
+        "salsa de soja",
+        "tofu",
+        "miso",
+        "edamame",
+        "lecitina de soja",
+      ],
+    },
+    fr: {
+      name: "Soja",
+      derivatives: [
+        "sauce soja",
+        "tofu",
+        "miso",
+        "edamame",
+        "lécithine de soja",
+      ],
+    },
+    de: {
+      name: "Soja",
+      derivatives: ["Sojasoße", "Tofu", "Miso", "Edamame", "Sojalecithin"],
+    },
+    it: {
+      name: "Soia",
+      derivatives: [
+        "salsa di soia",
+        "tofu",
+        "miso",
+        "edamame",
+        "lecitina di soia",
+      ],
+    },
+    pt: {
+      name: "Soja",
+      derivatives: [
+        "molho de soja",
+        "tofu",
+        "missô",
+        "edamame",
+        "lecitina de soja",
+      ],
+    },
+    ja: {
+      name: "大豆",
+      derivatives: ["醤油", "豆腐", "味噌", "枝豆", "大豆レシチン"],
+    },
+    zh: {
+      name: "大豆",
+      derivatives: ["酱油", "豆腐", "味噌", "毛豆", "大豆卵磷脂"],
+    },
+  },
+  sesame: {
+    en: {
+      name: "Sesame",
+      derivatives: ["sesame seeds", "sesame oil", "tahini", "hummus"],
+    },
+    es: {
+      name: "Sésamo",
+      derivatives: [
+        "semillas de sésamo",
+        "aceite de sésamo",
+        "tahini",
+        "hummus",
+      ],
+    },
+    fr: {
+      name: "Sésame",
+      derivatives: [
+        "graines de sésame",
+        "huile de sésame",
+        "tahini",
+        "houmous",
+      ],
+    },
+    de: {
+      name: "Sesam",
+      derivatives: ["Sesamsamen", "Sesamöl", "Tahini", "Hummus"],
+    },
+    it: {
+      name: "Sesamo",
+      derivatives: ["semi di sesamo", "olio di sesamo", "tahina", "hummus"],
+    },
+    pt: {
+      name: "Sésamo",
+      derivatives: ["sementes de sésamo", "óleo de sésamo", "tahine", "húmus"],
+    },
+    ja: {
+      name: "ごま",
+      derivatives: ["いりごま", "ごま油", "練りごま（タヒニ）", "フムス"],
+    },
+    zh: {
+      name: "芝麻",
+      derivatives: ["芝麻粒", "芝麻油", "芝麻酱", "鹰嘴豆泥"],
+    },
+  },
+  corn: {
+    en: {
+      name: "Corn",
+      derivatives: [
+        "cornstarch",
+        "corn syrup",
+        "corn oil",
+        "polenta",
+        "corn tortillas",
+      ],
+    },
+    es: {
+      name: "Maíz",
+      derivatives: [
+        "almidón de maíz",
+        "jarabe de maíz",
+        "aceite de maíz",
+        "polenta",
+        "tortillas de maíz",
+      ],
+    },
+    fr: {
+      name: "Maïs",
+      derivatives: [
+        "amidon de maïs",
+        "sirop de maïs",
+        "huile de maïs",
+        "polenta",
+        "tortillas de maïs",
+      ],
+    },
+    de: {
+      name: "Mais",
+      derivatives: [
+        "Maisstärke",
+        "Maissirup",
+        "Maiskeimöl",
+        "Polenta",
+        "Maistortillas",
+      ],
+    },
+    it: {
+      name: "Mais",
+      derivatives: [
+        "amido di mais",
+        "sciroppo di mais",
+        "olio di mais",
+        "polenta",
+        "tortillas di mais",
+      ],
+    },
+    pt: {
+      name: "Milho",
+      derivatives: [
+        "amido de milho",
+        "xarope de milho",
+        "óleo de milho",
+        "polenta",
+        "tortilhas de milho",
+      ],
+    },
+    ja: {
+      name: "とうもろこし",
+      derivatives: [
+        "コーンスターチ",
+        "コーンシロップ",
+        "コーン油",
+        "ポレンタ",
+        "コーントルティーヤ",
+      ],
+    },
+    zh: {
+      name: "玉米",
+      derivatives: ["玉米淀粉", "玉米糖浆", "玉米油", "玉米糊", "玉米饼"],
+    },
+  },
+  mustard: {
+    en: {
+      name: "Mustard",
+      derivatives: ["mustard seeds", "mustard powder", "mustard oil"],
+    },
+    es: {
+      name: "Mostaza",
+      derivatives: [
+        "semillas de mostaza",
+        "mostaza en polvo",
+        "aceite de mostaza",
+      ],
+    },
+    fr: {
+      name: "Moutarde",
+      derivatives: [
+        "graines de moutarde",
+        "moutarde en poudre",
+        "huile de moutarde",
+      ],
+    },
+    de: {
+      name: "Senf",
+      derivatives: ["Senfkörner", "Senfpulver", "Senföl"],
+    },
+    it: {
+      name: "Senape",
+      derivatives: ["semi di senape", "senape in polvere", "olio di senape"],
+    },
+    pt: {
+      name: "Mostarda",
+      derivatives: [
+        "sementes de mostarda",
+        "mostarda em pó",
+        "óleo de mostarda",
+      ],
+    },
+    ja: {
+      name: "からし（マスタード）",
+      derivatives: ["マスタードシード", "粉からし", "マスタードオイル"],
+    },
+    zh: {
+      name: "芥末（芥菜籽）",
+      derivatives: ["芥菜籽", "芥末粉", "芥末油"],
+    },
+  },
+  lupin: {
+    en: { name: "Lupin", derivatives: ["lupin flour", "lupin beans"] },
+    es: {
+      name: "Altramuz",
+      derivatives: ["harina de altramuz", "altramuces"],
+    },
+    fr: { name: "Lupin", derivatives: ["farine de lupin", "graines de lupin"] },
+    de: { name: "Lupine", derivatives: ["Lupinenmehl", "Lupinensamen"] },
+    it: { name: "Lupini", derivatives: ["farina di lupini", "semi di lupino"] },
+    pt: { name: "Tremoço", derivatives: ["farinha de tremoço", "tremoços"] },
+    ja: { name: "ルピナス", derivatives: ["ルピナス粉", "ルピナス豆"] },
+    zh: { name: "羽扇豆", derivatives: ["羽扇豆粉", "羽扇豆"] },
+  },
+  gelatin: {
+    en: {
+      name: "Gelatin",
+      derivatives: ["aspic", "marshmallows", "gummy sweets", "jelly desserts"],
+    },
+    es: {
+      name: "Gelatina",
+      derivatives: [
+        "áspic",
+        "nubes (malvaviscos)",
+        "gominolas",
+        "postres de gelatina",
+      ],
+    },
+    fr: {
+      name: "Gélatine",
+      derivatives: [
+        "aspic",
+        "guimauves",
+        "bonbons gélifiés",
+        "desserts en gelée",
+      ],
+    },
+    de: {
+      name: "Gelatine",
+      derivatives: ["Aspik", "Marshmallows", "Fruchtgummi", "Götterspeise"],
+    },
+    it: {
+      name: "Gelatina",
+      derivatives: [
+        "aspic",
+        "marshmallow",
+        "caramelle gommose",
+        "dessert in gelatina",
+      ],
+    },
+    pt: {
+      name: "Gelatina",
+      derivatives: ["áspic", "marshmallows", "gomas", "sobremesas de gelatina"],
+    },
+    ja: {
+      name: "ゼラチン",
+      derivatives: ["煮こごり", "マシュマロ", "グミ", "ゼリー"],
+    },
+    zh: {
+      name: "明胶",
+      derivatives: ["肉冻", "棉花糖", "软糖", "果冻"],
+    },
+  },
+  sulfites: {
+    en: {
+      name: "Sulfites",
+      derivatives: ["wine", "dried fruit", "vinegar", "E220–E228"],
+    },
+    es: {
+      name: "Sulfitos",
+      derivatives: ["vino", "fruta deshidratada", "vinagre", "E220–E228"],
+    },
+    fr: {
+      name: "Sulfites",
+      derivatives: ["vin", "fruits séchés", "vinaigre", "E220–E228"],
+    },
+    de: {
+      name: "Sulfite",
+      derivatives: ["Wein", "Trockenobst", "Essig", "E220–E228"],
+    },
+    it: {
+      name: "Solfiti",
+      derivatives: ["vino", "frutta essiccata", "aceto", "E220–E228"],
+    },
+    pt: {
+      name: "Sulfitos",
+      derivatives: ["vinho", "fruta desidratada", "vinagre", "E220–E228"],
+    },
+    ja: {
+      name: "亜硫酸塩",
+      derivatives: ["ワイン", "ドライフルーツ", "酢", "E220–E228"],
+    },
+    zh: {
+      name: "亚硫酸盐",
+      derivatives: ["葡萄酒", "果干", "醋", "E220–E228"],
+    },
+  },
+  seeds: {
+    en: {
+      name: "Seeds",
+      derivatives: [
+        "sunflower seeds",
+        "pumpkin seeds",
+        "poppy seeds",
+        "flaxseed",
+        "chia seeds",
+      ],
+    },
+    es: {
+      name: "Semillas",
+      derivatives: [
+        "pipas de girasol",
+        "pipas de calabaza",
+        "semillas de amapola",
+        "linaza",
+        "chía",
+      ],
+    },
+    fr: {
+      name: "Graines",
+      derivatives: [
+        "graines de tournesol",
+        "graines de courge",
+        "graines de pavot",
+        "graines de lin",
+        "graines de chia",
+      ],
+    },
+    de: {
+      name: "Samen",
+      derivatives: [
+        "Sonnenblumenkerne",
+        "Kürbiskerne",
+        "Mohn",
+        "Leinsamen",
+        "Chiasamen",
+      ],
+    },
+    it: {
+      name: "Semi",
+      derivatives: [
+        "semi di girasole",
+        "semi di zucca",
+        "semi di papavero",
+        "semi di lino",
+        "semi di chia",
+      ],
+    },
+    pt: {
+      name: "Sementes",
+      derivatives: [
+        "sementes de girassol",
+        "sementes de abóbora",
+        "sementes de papoila",
+        "linhaça",
+        "chia",
+      ],
+    },
+    ja: {
+      name: "種子類",
+      derivatives: [
+        "ひまわりの種",
+        "かぼちゃの種",
+        "けしの実",
+        "亜麻仁",
+        "チアシード",
+      ],
+    },
+    zh: {
+      name: "种子类",
+      derivatives: ["葵花籽", "南瓜籽", "罂粟籽", "亚麻籽", "奇亚籽"],
+    },
+  },
+};
+
+/**
+ * The translated name and derivatives of an ontology entry, or null when
+ * the entry has no translations.
+ */
+export function translateAllergen(
+  allergenId: string,
+  language: ChefCardLanguage,
+): AllergenTranslation | null {
+  return ALLERGEN_TRANSLATIONS[allergenId]?.[language] ?? null;
+}
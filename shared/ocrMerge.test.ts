@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { mergeIngredientLists, mergeOcrTexts } from "./ocrMerge";
+
+describe("mergeOcrTexts", () => {
+  it("keeps the overlap between shots once", () => {
+    assert.equal(
+      mergeOcrTexts([
+        "Ingredients: oats, sugar, palm oil",
+        "sugar, palm oil, salt. May contain milk",
+      ]),
+      "Ingredients: oats, sugar, palm oil, salt. May contain milk",
+    );
+  });
+
+  it("keeps every word when a repeat is not at the edges of the shots", () => {
+    assert.equal(
+      mergeOcrTexts([
+        "Ingredients: sugar, palm oil, peanuts",
+        "milk, palm oil, salt",
+      ]),
+      "Ingredients: sugar, palm oil, peanuts\nmilk, palm oil, salt",
+    );
+    assert.equal(
+      mergeOcrTexts([
+        "Ingredients: wheat flour, palm oil, sesame",
+        "egg, palm oil, sea salt",
+      ]),
+      "Ingredients: wheat flour, palm oil, sesame\negg, palm oil, sea salt",
+    );
+  });
+});
+
+describe("mergeIngredientLists", () => {
+  it("does not treat a single repeated ingredient as the seam", () => {
+    assert.deepEqual(
+      mergeIngredientLists([
+        ["wheat flour", "salt", "yeast"],
+        ["salt", "sesame"],
+      ]),
+      ["wheat flour", "salt", "yeast", "salt", "sesame"],
+    );
+  });
+
+  it("merges lists that overlap by two ingredients", () => {
+    assert.deepEqual(
+      mergeIngredientLists([
+        ["wheat flour", "salt", "yeast"],
+        ["salt", "yeast", "sesame"],
+      ]),
+      ["wheat flour", "salt", "yeast", "sesame"],
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Merging OCR output from several photos of the same label.
+ *
+ * Wrap-around labels on jars and cans are photographed in overlapping
+ * shots, so the end of one shot usually repeats the start of the next.
+ * Shots are merged in the order given; the longest run of words that ends
+ * the text so far and starts the next shot is kept only once. The run must
+ * reach the very end of one shot and the very start of the next: a repeat
+ * anywhere else ("palm oil" in both shots) may be a coincidence, and
+ * cutting there would drop the words around it. Shots without such a run
+ * are kept in full. Comparison ignores case and punctuation.
+ */
+
+const MIN_OVERLAP_WORDS = 2;
+const MIN_OVERLAP_ITEMS = 2;
+
+interface Token {
+  normalized: string;
+  start: number;
+  end: number;
+}
+
+interface Overlap {
+  /** Index of the last token of the run in the earlier sequence. */
+  previousEnd: number;
+  /** Index of the last token of the run in the later sequence. */
+  nextEnd: number;
+  length: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({
+      normalized: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+function findOverlap(
+  previous: string[],
+  next: string[],
+  minLength: number,
+): Overlap | null {
+  const maxLength = Math.min(previous.length, next.length);
+
+  for (let length = maxLength; length >= minLength; length--) {
+    const offset = previous.length - length;
+    let isMatch = true;
+    for (let i = 0; i < length; i++) {
+      if (previous[offset + i] !== next[i]) {
+        isMatch = false;
+        break;
+      }
+    }
+
+    if (isMatch) {
+      return { previousEnd: previous.length - 1, nextEnd: length - 1, length };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Merges the OCR text of consecutive shots into one label text, dropping
+ * the text repeated where shots overlap. Shots without a detectable overlap
+ * are joined on a new line.
+ */
+export function mergeOcrTexts(texts: string[]): string {
+  let merged = "";
+
+  for (const raw of texts) {
+    const text = raw.trim();
+    if (!text) continue;
+    if (!merged) {
+      merged = text;
+      continue;
+    }
+
+    const mergedTokens = tokenize(merged);
+    const textTokens = tokenize(text);
+    const overlap = findOverlap(
+      mergedTokens.map((t) => t.normalized),
+      textTokens.map((t) => t.normalized),
+      MIN_OVERLAP_WORDS,
+    );
+
+    if (overlap) {
+      merged =
+        merged.substring(0, mergedTokens[overlap.previousEnd].end) +
+        text.substring(textTokens[overlap.nextEnd].end);
+    } else {
+      merged = `${merged}\n${text}`;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Same as mergeOcrTexts for shots that were already split into ingredient
+ * lists. The overlap must be at least MIN_OVERLAP_ITEMS ingredients: a
+ * single repeated ingredient ("salt") is too common to mark the seam.
+ */
+export function mergeIngredientLists(lists: string[][]): string[] {
+  const normalize = (item: string) =>
+    tokenize(item)
+      .map((t) => t.normalized)
+      .join(" ");
+
+  let merged: string[] = [];
+
+  for (const list of lists) {
+    const items = list.filter((item) => item.trim().length > 0);
+    if (merged.length === 0) {
+      merged = [...items];
+      continue;
+    }
+
+    const overlap = findOverlap(
+      merged.map(normalize),
+      items.map(normalize),
+      MIN_OVERLAP_ITEMS,
+    );
+
+    merged = overlap
+      ? [
+          ...merged.slice(0, overlap.previousEnd + 1),
+          ...items.slice(overlap.nextEnd + 1),
+        ]
+      : [...merged, ...items];
+  }
+
+  return merged;
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  findSuspectedTriggers,
+  type TriggerProfile,
+  type TriggerScan,
+} from "./reactionTriggers";
+
+const ann: TriggerProfile = { id: "ann", allergies: [] };
+
+function scans(...lists: string[][]): TriggerScan[] {
+  return lists.map((ingredients, i) => ({ id: `scan-${i}`, ingredients }));
+}
+
+function suspects(
+  reactions: { profileId: string; scanId?: string; ingredients: string[] }[],
+  history: TriggerScan[],
+  profiles: TriggerProfile[] = [ann],
+): string[] {
+  return findSuspectedTriggers(reactions, profiles, history).map(
+    (trigger) => trigger.ingredient,
+  );
+}
+
+describe("findSuspectedTriggers", () => {
+  it("suggests an ingredient found in several reactions", () => {
+    const triggers = findSuspectedTriggers(
+      [
+        { profileId: "ann", ingredients: ["Flour", "Sesame"] },
+        { profileId: "ann", ingredients: ["Sesame", "Rice"] },
+      ],
+      [ann],
+      scans(["Rice"], ["Oats"]),
+    );
+
+    assert.deepEqual(triggers, [
+      {
+        profileId: "ann",
+        ingredient: "Sesame",
+        occurrences: 2,
+        reactionCount: 2,
+        scanOccurrences: 0,
+        scanCount: 2,
+      },
+    ]);
+  });
+
+  it("needs more than one reaction", () => {
+    assert.deepEqual(
+      suspects([{ profileId: "ann", ingredients: ["Sesame"] }], []),
+      [],
+    );
+  });
+
+  it("skips ingredients found in most of the other scans", () => {
+    const reactions = [
+      { profileId: "ann", ingredients: ["Flour", "Sesame"] },
+      { profileId: "ann", ingredients: ["Flour", "Sesame"] },
+    ];
+    const history = scans(["Flour"], ["Flour", "Oats"], ["Flour"], ["Rice"]);
+
+    assert.deepEqual(suspects(reactions, history), ["Sesame"]);
+  });
+
+  it("skips ingredients no more common in reactions than in other scans", () => {
+    const reactions = [
+      { profileId: "ann", ingredients: ["Soy lecithin", "Sesame"] },
+      { profileId: "ann", ingredients: ["Soy lecithin", "Sesame"] },
+      { profileId: "ann", ingredients: ["Sesame"] },
+      { profileId: "ann", ingredients: ["Sesame"] },
+    ];
+    // Soy lecithin: 2 of 4 reactions, 2 of 4 other scans
+    const history = scans(["Soy lecithin"], ["Soy lecithin"], ["Oats"], []);
+
+    assert.deepEqual(suspects(reactions, history), ["Sesame"]);
+  });
+
+  it("leaves the scans linked to the profile's reactions out of the comparison", () => {
+    const reactions = [
+      { profileId: "ann", scanId: "scan-0", ingredients: ["Sesame"] },
+      { profileId: "ann", scanId: "scan-1", ingredients: ["Sesame"] },
+    ];
+    const history = scans(["Sesame"], ["Sesame"], ["Oats"]);
+
+    const [trigger] = findSuspectedTriggers(reactions, [ann], history);
+    assert.equal(trigger.scanCount, 1);
+    assert.equal(trigger.scanOccurrences, 0);
+  });
+
+  it("ignores water, salt and sugar without any history", () => {
+    const reactions = [
+      { profileId: "ann", ingredients: ["Water", "Salt", "Sugar"] },
+      { profileId: "ann", ingredients: ["water", "salt", "sugar"] },
+    ];
+
+    assert.deepEqual(suspects(reactions, []), []);
+  });
+
+  it("skips ingredients the profile already covers", () => {
+    const reactions = [
+      { profileId: "ann", ingredients: ["Whey powder", "Kiwi"] },
+      { profileId: "ann", ingredients: ["Whey powder", "Kiwi"] },
+    ];
+    const profile = {
+      id: "ann",
+      allergies: ["Milk"],
+      forbiddenKeywords: ["kiwi"],
+    };
+
+    assert.deepEqual(suspects(reactions, [], [profile]), []);
+  });
+
+  it("counts each profile's reactions separately", () => {
+    const reactions = [
+      { profileId: "ann", ingredients: ["Sesame"] },
+      { profileId: "bob", ingredients: ["Sesame"] },
+      { profileId: "eve", ingredients: ["Sesame"] },
+      { profileId: "eve", ingredients: ["Sesame"] },
+    ];
+    const profiles = [ann, { id: "bob", allergies: [] }];
+
+    assert.deepEqual(suspects(reactions, [], profiles), []);
+  });
+});
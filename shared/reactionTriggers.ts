@@ -0,0 +1,162 @@
+/**
+ * Suspected-trigger analysis for the reaction diary.
+ *
+ * Every logged reaction carries the ingredient list of the food eaten
+ * before it. Ingredients that keep turning up across one person's
+ * reactions are suspects, unless the person's profile already covers them
+ * (an allergy the ontology resolves them to, or a forbidden keyword they
+ * contain).
+ *
+ * Turning up often is not enough: salt and sugar are in most foods. Each
+ * ingredient is compared with the household's other scans, the ones not
+ * linked to one of the person's reactions. It must appear in a larger
+ * share of the reactions than of those scans, and in no more than
+ * MAX_COMMON_SHARE of them. Water, salt and sugar are always ignored, so
+ * they are not suggested before there is a history to compare with.
+ */
+
+import { findAllergenMatches } from "./allergenOntology";
+
+export interface TriggerReaction {
+  profileId: string;
+  /** The scan the reaction was logged against, if any. */
+  scanId?: string;
+  ingredients: string[];
+}
+
+export interface TriggerScan {
+  id: string;
+  ingredients: string[];
+}
+
+export interface TriggerProfile {
+  id: string;
+  allergies: string[];
+  forbiddenKeywords?: string[];
+}
+
+export interface SuspectedTrigger {
+  profileId: string;
+  /** The ingredient as it was first written on a label. */
+  ingredient: string;
+  /** Reactions of the profile whose food contained the ingredient. */
+  occurrences: number;
+  /** All reactions logged for the profile. */
+  reactionCount: number;
+  /** Other scans whose food contained the ingredient. */
+  scanOccurrences: number;
+  /** Scans not linked to one of the profile's reactions. */
+  scanCount: number;
+}
+
+/** Reactions an ingredient must appear in before it is suggested. */
+export const MIN_TRIGGER_OCCURRENCES = 2;
+
+/** Largest share of the other scans a suggested ingredient may appear in. */
+export const MAX_COMMON_SHARE = 0.5;
+
+const UBIQUITOUS_INGREDIENTS = new Set([
+  "water",
+  "salt",
+  "sea salt",
+  "sugar",
+  "ice",
+]);
+
+function normalizeIngredient(ingredient: string): string {
+  return ingredient
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.,;:*]+|[\s.,;:*]+$/g, "");
+}
+
+function isCoveredByProfile(ingredient: string, profile: TriggerProfile) {
+  const lower = ingredient.toLowerCase();
+
+  return (
+    profile.allergies.some(
+      (allergy) => findAllergenMatches(ingredient, allergy).length > 0,
+    ) ||
+    (profile.forbiddenKeywords || []).some((keyword) =>
+      lower.includes(keyword.toLowerCase()),
+    )
+  );
+}
+
+/**
+ * How many of the lists contain each ingredient, keyed by its normalized
+ * name. Each ingredient counts once per list.
+ */
+function countIngredients(
+  lists: string[][],
+): Map<string, { ingredient: string; count: number }> {
+  const counts = new Map<string, { ingredient: string; count: number }>();
+
+  for (const list of lists) {
+    const seen = new Set<string>();
+    for (const ingredient of list) {
+      const key = normalizeIngredient(ingredient);
+      if (!key || seen.has(key) || UBIQUITOUS_INGREDIENTS.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { ingredient: ingredient.trim(), count: 1 });
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Ingredients that appeared in at least MIN_TRIGGER_OCCURRENCES of a
+ * profile's reactions, more often than in the household's other `scans`,
+ * and are not yet in that profile. Most frequent first. Reactions of
+ * profiles not in `profiles` are skipped.
+ */
+export function findSuspectedTriggers(
+  reactions: TriggerReaction[],
+  profiles: TriggerProfile[],
+  scans: TriggerScan[],
+): SuspectedTrigger[] {
+  const triggers: SuspectedTrigger[] = [];
+
+  for (const profile of profiles) {
+    const own = reactions.filter((r) => r.profileId === profile.id);
+    if (own.length === 0) continue;
+
+    const linkedScanIds = new Set(own.map((r) => r.scanId));
+    const otherScans = scans.filter((scan) => !linkedScanIds.has(scan.id));
+    const scanCounts = countIngredients(otherScans.map((s) => s.ingredients));
+    const reactionCounts = countIngredients(own.map((r) => r.ingredients));
+
+    for (const [key, { ingredient, count }] of Array.from(reactionCounts)) {
+      if (
+        count < MIN_TRIGGER_OCCURRENCES ||
+        isCoveredByProfile(ingredient, profile)
+      ) {
+        continue;
+      }
+
+      const scanOccurrences = scanCounts.get(key)?.count ?? 0;
+      const scanShare =
+        otherScans.length > 0 ? scanOccurrences / otherScans.length : 0;
+      if (scanShare > MAX_COMMON_SHARE || count / own.length <= scanShare) {
+        continue;
+      }
+
+      triggers.push({
+        profileId: profile.id,
+        ingredient,
+        occurrences: count,
+        reactionCount: own.length,
+        scanOccurrences,
+        scanCount: otherScans.length,
+      });
+    }
+  }
+
+  return triggers.sort((a, b) => b.occurrences - a.occurrences);
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { diffIngredients } from "./reformulation";
+
+function label(text: string) {
+  return {
+    ingredients: text
+      .replace(/\..*$/, "")
+      .split(",")
+      .map((item) => item.trim()),
+    text,
+  };
+}
+
+describe("diffIngredients", () => {
+  it("returns null for the same label", () => {
+    assert.equal(
+      diffIngredients(
+        label("oats, sugar. May contain milk"),
+        label("Oats, sugar. May contain milk"),
+        ["Dairy"],
+      ),
+      null,
+    );
+  });
+
+  it("reports an allergen moving into a may contain statement", () => {
+    const diff = diffIngredients(
+      label("oats, milk powder, sugar"),
+      label("oats, sugar. May contain milk"),
+      ["Dairy"],
+    );
+    assert.deepEqual(diff?.removedIngredients, ["milk powder"]);
+    assert.deepEqual(diff?.removedAllergens, []);
+    assert.deepEqual(diff?.changedAllergens, [
+      { allergen: "Dairy", from: "contains", to: "mayContain" },
+    ]);
+  });
+
+  it("reports a new advisory when the ingredients are unchanged", () => {
+    const diff = diffIngredients(
+      label("oats, sugar"),
+      label("oats, sugar. May contain peanuts"),
+      ["Peanuts"],
+    );
+    assert.deepEqual(diff?.addedIngredients, []);
+    assert.deepEqual(diff?.changedAllergens, [
+      { allergen: "Peanuts", from: "absent", to: "mayContain" },
+    ]);
+  });
+});
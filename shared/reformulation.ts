@@ -0,0 +1,155 @@
+/**
+ * Label comparison for products that were scanned before.
+ *
+ * Manufacturers change recipes without changing the barcode, so a product
+ * that was safe last month can stop being safe. Lists are compared as sets
+ * of normalized ingredient names (order and letter case do not count), and
+ * allergens are worked out from each label with the allergen ontology so a
+ * swap from "butter" to "ghee" is not reported as a new allergen.
+ *
+ * An allergen can also move between the ingredients and a "may contain"
+ * statement without the ingredient list changing, so each allergy is read
+ * as contained, advisory only or absent on both labels.
+ */
+
+import { findAdvisoryStatements } from "./advisoryStatements";
+import { findAllergenMatches } from "./allergenOntology";
+
+export type AllergenPresence = "contains" | "mayContain" | "absent";
+
+export interface AllergenChange {
+  allergen: string;
+  from: AllergenPresence;
+  to: AllergenPresence;
+}
+
+/** What a scan read from the label. */
+export interface LabelContents {
+  ingredients: string[];
+  /** The full label text, including any "may contain" statements. */
+  text: string;
+}
+
+export interface IngredientDiff {
+  addedIngredients: string[];
+  removedIngredients: string[];
+  /** Allergies the product now contains and did not mention before. */
+  addedAllergens: string[];
+  /** Allergies the product contained and no longer mentions. */
+  removedAllergens: string[];
+  /**
+   * Every other change in how an allergy is named, e.g. from contained to
+   * "may contain".
+   */
+  changedAllergens: AllergenChange[];
+}
+
+const PRESENCE_RANK: Record<AllergenPresence, number> = {
+  absent: 0,
+  mayContain: 1,
+  contains: 2,
+};
+
+function normalizeIngredient(ingredient: string): string {
+  return ingredient
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.,;:*]+|[\s.,;:*]+$/g, "");
+}
+
+function byNormalizedName(list: string[]): Map<string, string> {
+  const byKey = new Map<string, string>();
+  for (const item of list) {
+    const key = normalizeIngredient(item);
+    if (key && !byKey.has(key)) byKey.set(key, item.trim());
+  }
+  return byKey;
+}
+
+/**
+ * How a label names an allergy. Like the label rules, an allergy counts as
+ * advisory only when every mention sits inside a bounded "may contain"
+ * statement.
+ */
+export function getAllergenPresence(
+  text: string,
+  allergy: string,
+): AllergenPresence {
+  const matches = findAllergenMatches(text, allergy);
+  if (matches.length === 0) return "absent";
+
+  const statements = findAdvisoryStatements(text).filter((s) => s.bounded);
+  const isAdvisory = matches.every((match) =>
+    statements.some((s) => match.start >= s.start && match.end <= s.end),
+  );
+  return isAdvisory ? "mayContain" : "contains";
+}
+
+/** Whether a change names the allergy more strongly than before. */
+export function isRiskIncrease(change: AllergenChange): boolean {
+  return PRESENCE_RANK[change.to] > PRESENCE_RANK[change.from];
+}
+
+/** Whether a diff makes the product riskier for any of the allergies. */
+export function hasNewAllergenRisk(diff: IngredientDiff): boolean {
+  return (
+    diff.addedAllergens.length > 0 || diff.changedAllergens.some(isRiskIncrease)
+  );
+}
+
+/**
+ * Compares an earlier label of a product with the current one, checking
+ * `allergies` against both. Returns null when the labels hold the same
+ * ingredients and name every allergy the same way.
+ */
+export function diffIngredients(
+  previous: LabelContents,
+  current: LabelContents,
+  allergies: string[],
+): IngredientDiff | null {
+  const before = byNormalizedName(previous.ingredients);
+  const after = byNormalizedName(current.ingredients);
+
+  const addedIngredients = Array.from(after.keys())
+    .filter((key) => !before.has(key))
+    .map((key) => after.get(key) as string);
+  const removedIngredients = Array.from(before.keys())
+    .filter((key) => !after.has(key))
+    .map((key) => before.get(key) as string);
+
+  const addedAllergens: string[] = [];
+  const removedAllergens: string[] = [];
+  const changedAllergens: AllergenChange[] = [];
+
+  for (const allergen of Array.from(new Set(allergies))) {
+    const from = getAllergenPresence(previous.text, allergen);
+    const to = getAllergenPresence(current.text, allergen);
+    if (from === to) continue;
+
+    if (from === "absent" && to === "contains") {
+      addedAllergens.push(allergen);
+    } else if (from === "contains" && to === "absent") {
+      removedAllergens.push(allergen);
+    } else {
+      changedAllergens.push({ allergen, from, to });
+    }
+  }
+
+  if (
+    addedIngredients.length === 0 &&
+    removedIngredients.length === 0 &&
+    addedAllergens.length === 0 &&
+    removedAllergens.length === 0 &&
+    changedAllergens.length === 0
+  ) {
+    return null;
+  }
+
+  return {
+    addedIngredients,
+    removedIngredients,
+    addedAllergens,
+    removedAllergens,
+    changedAllergens,
+  };
+}